@@ -0,0 +1,163 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IMessageBuffer
+ * @dev The ring buffer every storage backend implements: writers store
+ * messages of 1 to getMaxMessageSize() bytes at getCurrentIndex(), which
+ * wraps at getCapacity(), and each message gets the next sequence number
+ *
+ * - Every stored message emits MessageStored with its full payload
+ * - Only the owner (the deployer) and allowlisted writers can store
+ * - Reverts use the same reasons across backends
+ */
+interface IMessageBuffer {
+    // Event emitted when a new message is stored
+    // Carries the full payload so history survives the ring being overwritten
+    event MessageStored(
+        uint256 indexed index,
+        uint256 indexed sequence,
+        address indexed author,
+        uint256 timestamp,
+        bytes message
+    );
+
+    event WriterAdded(address indexed writer);
+    event WriterRemoved(address indexed writer);
+
+    /**
+     * @dev Store a message at the current index of the circular buffer
+     * @param message The message to store (1 to getMaxMessageSize() bytes)
+     * @return The index where the message was stored
+     */
+    function storeMessage(bytes calldata message) external returns (uint256);
+
+    /**
+     * @dev Store several messages in one call, exactly as if storeMessage
+     * had been called for each in order
+     * @param batch The messages to store (each 1 to getMaxMessageSize() bytes)
+     * @return indices The index each message was stored at, in order
+     */
+    function storeMessages(
+        bytes[] calldata batch
+    ) external returns (uint256[] memory indices);
+
+    /**
+     * @dev Allow an address to store messages (owner only)
+     * @param writer The address to add to the allowlist
+     */
+    function addWriter(address writer) external;
+
+    /**
+     * @dev Revoke an address's permission to store messages (owner only)
+     * @param writer The address to remove from the allowlist
+     */
+    function removeWriter(address writer) external;
+
+    /**
+     * @dev Check whether an address may store messages
+     * @param account The address to check
+     * @return True for the owner and allowlisted writers
+     */
+    function isWriter(address account) external view returns (bool);
+
+    /**
+     * @dev Get the owner of the contract
+     * @return The owner address
+     */
+    function getOwner() external view returns (address);
+
+    /**
+     * @dev Get the index the next message will be stored at
+     * @return The current index
+     */
+    function getCurrentIndex() external view returns (uint256);
+
+    /**
+     * @dev Get the sequence number of the newest message
+     * @return The newest sequence number, 0 before the first message
+     */
+    function getLastSequence() external view returns (uint256);
+
+    /**
+     * @dev Get the number of messages kept before the oldest is overwritten
+     * @return The ring capacity
+     */
+    function getCapacity() external view returns (uint256);
+
+    /**
+     * @dev Get the longest message storeMessage accepts
+     * @return The maximum message length in bytes
+     */
+    function getMaxMessageSize() external view returns (uint256);
+}
+
+/**
+ * @title IMessageBufferReader
+ * @dev A buffer that also serves its messages on-chain. Backends that keep
+ * messages off-chain (in event logs) only implement IMessageBuffer
+ */
+interface IMessageBufferReader is IMessageBuffer {
+    /**
+     * @dev Get a specific stored message by index
+     * @param index The index of the message to retrieve
+     * @return message The message bytes (empty if never written)
+     * @return timestamp The message timestamp
+     * @return author The address that stored the message
+     * @return sequence The message's sequence number
+     */
+    function getMessage(
+        uint256 index
+    )
+        external
+        view
+        returns (
+            bytes memory message,
+            uint32 timestamp,
+            address author,
+            uint256 sequence
+        );
+
+    /**
+     * @dev Retrieve every written message, oldest first
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors
+     * @return sequences Array of message sequence numbers
+     */
+    function getAllMessages()
+        external
+        view
+        returns (
+            uint256[] memory indices,
+            bytes[] memory messages,
+            uint32[] memory timestamps,
+            address[] memory authors,
+            uint256[] memory sequences
+        );
+
+    /**
+     * @dev Retrieve the latest messages stored by one author, oldest first
+     * @param author The address whose messages to return
+     * @param limit Maximum number of messages to return
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors (all equal to author)
+     * @return sequences Array of message sequence numbers
+     */
+    function getMessagesByAuthor(
+        address author,
+        uint256 limit
+    )
+        external
+        view
+        returns (
+            uint256[] memory indices,
+            bytes[] memory messages,
+            uint32[] memory timestamps,
+            address[] memory authors,
+            uint256[] memory sequences
+        );
+}
@@ -1,167 +1,669 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "./IMessageBuffer.sol";
+
 /**
  * @title MessageStorage
  * @dev A gas-optimized contract for storing messages using assembly
  *
  * Storage Layout:
- * - Messages are ASCII encoded (1 byte per character)
- * - Each message is 60 characters (60 bytes)
- * - Each timestamp is 4 bytes (uint32)
- * - Total per message: 64 bytes (exactly 2 storage slots)
- * - Max 16 messages (32 storage slots total)
+ * - Messages are raw bytes (UTF-8 text by convention), 1 byte up to a
+ *   maximum length fixed at deployment along with the capacity
+ * - Each entry starts at the base slot keccak256(index . messages.slot)
+ *   - base + 0: header packing the author (high 20 bytes), the timestamp
+ *     (next 4 bytes, uint32), the sequence number (next 6 bytes) and the
+ *     message length (low 2 bytes); this packing is header format 1
+ *     (ENTRY_HEADER_FORMAT in src/codec.ts), which must be bumped with it
+ *   - base + 1 ..: message bytes, 32 per slot, only as many slots as the
+ *     message needs (bytes past the length in the last slot are zeroed)
+ * - A never-written entry has a zero header (messages are never empty)
+ * - Default deployment: 16 messages of up to 60 bytes
  * - Uses a circular buffer to overwrite oldest messages
+ * - Every message gets a sequence number, counting up from 1 across
+ *   wraparounds; each one is the previous entry's plus one, so no counter
+ *   slot is needed, and a sequence's entry is found by counting back from
+ *   currentIndex (entries written before an upgrade to sequence numbers
+ *   have sequence 0)
+ *
+ * Access Control:
+ * - The deployer becomes the owner; ownership is transferable
+ * - Only the owner and allowlisted writers can store messages
+ * - The owner can pause all writes
+ *
+ * Signed Messages:
+ * - A writer can sign a message off-chain (EIP-712 typed data over the
+ *   message, the writer's nonce and a deadline) and let anyone submit it
+ *   with storeSignedMessage; the signer is recorded as the author
+ * - Each signer's nonce increases with every signed message stored, so a
+ *   signature can only be used once, on one board and one chain
+ *
+ * Upgrades:
+ * - Optionally deployed behind MessageStorageProxy (ERC-1967), which keeps
+ *   currentIndex and the messages mapping in the proxy's storage
+ * - The proxy's owner is set once with initialize, and only the owner can
+ *   point the proxy at a new implementation (upgradeTo, ERC-1822 style)
+ * - Capacity and message size are immutables of each implementation, so a
+ *   new implementation must be deployed with the same values
  */
-contract MessageStorage {
-    // Constants for storage optimization
-    uint256 private constant MAX_MESSAGES = 16;
-    uint256 private constant MESSAGE_SIZE_BYTES = 60; // 60 characters
-    uint256 private constant TIMESTAMP_SIZE_BYTES = 4; // uint32 timestamp
-    uint256 private constant BYTES_PER_SLOT = 32; // Ethereum storage slot size
+contract MessageStorage is IMessageBufferReader {
+    // Bounds on the deployment parameters, keeping every loop bounded
+    uint256 private constant MAX_CAPACITY = 1024;
+    uint256 private constant MAX_MESSAGE_SIZE = 1024; // 32 storage slots
+
+    // Bit positions of the fields packed into an entry's header slot
+    uint256 private constant AUTHOR_SHIFT = 96;
+    uint256 private constant TIMESTAMP_SHIFT = 64;
+    uint256 private constant SEQUENCE_SHIFT = 16;
+    uint256 private constant SEQUENCE_MASK = 0xffffffffffff;
+    uint256 private constant LENGTH_MASK = 0xffff;
+
+    // ERC-1967 implementation slot, keccak256("eip1967.proxy.implementation") - 1
+    bytes32 private constant IMPLEMENTATION_SLOT =
+        0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    // EIP-712 hashes for signed messages
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256(
+            "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+        );
+    bytes32 private constant MESSAGE_TYPEHASH =
+        keccak256("Message(bytes message,uint256 nonce,uint256 deadline)");
+    bytes32 private constant NAME_HASH = keccak256("MessageStorage");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+
+    // Largest s of a non-malleable signature (secp256k1 order / 2, EIP-2)
+    uint256 private constant MAX_SIGNATURE_S =
+        0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    // Buffer shape, fixed at deployment
+    uint256 private immutable maxMessages;
+    uint256 private immutable maxMessageSize;
+
+    // This implementation's own address, to tell direct calls from proxied ones
+    address private immutable self;
 
     // Storage variables
     uint256 private currentIndex; // Track the current position in the circular buffer
 
-    // Data structures for storage
-    struct MessageData {
-        bytes32 part1;
-        bytes32 part2; // 28 bytes of message + 4 bytes timestamp
+    // Message storage - each index maps to the base slot of its entry, laid
+    // out as described above (the declared value type is only a placeholder)
+    mapping(uint256 => bytes32) private messages;
+
+    // Access control - owner and paused share a slot so storeMessage only
+    // pays for one cold SLOAD when the owner writes
+    address private owner;
+    bool private paused;
+    mapping(address => bool) private writers;
+
+    // Next nonce of each signer of signed messages
+    mapping(address => uint256) private nonces;
+
+    // Messages from other chains already stored by storeMirroredMessage,
+    // keyed by keccak256(abi.encode(sourceChainId, sourceBoard,
+    // sourceSequence))
+    mapping(bytes32 => bool) private mirrored;
+
+    // Parallel arrays returned by the bulk read functions
+    struct MessageList {
+        uint256[] indices;
+        bytes[] texts;
+        uint32[] timestamps;
+        address[] authors;
+        uint256[] sequences;
     }
 
-    // Message storage - explicitly map indices to data
-    mapping(uint256 => MessageData) private messages;
+    // Event emitted with MessageStored when the message is a mirror
+    event MessageMirrored(
+        uint256 sourceChainId,
+        address indexed sourceBoard,
+        uint256 indexed sourceSequence,
+        uint256 indexed sequence
+    );
 
-    // Event emitted when a new message is stored
-    event MessageStored(uint256 indexed index, uint256 timestamp);
+    // Access control events
+    event OwnershipTransferred(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+    event Upgraded(address indexed implementation);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Caller is not the owner");
+        _;
+    }
+
+    // Writes are open to the owner and allowlisted writers, unless paused
+    modifier onlyWriter() {
+        require(!paused, "Contract is paused");
+        require(
+            msg.sender == owner || writers[msg.sender],
+            "Caller is not an allowed writer"
+        );
+        _;
+    }
+
+    /**
+     * @param capacity Number of messages kept before the oldest is overwritten
+     * @param messageSizeLimit Maximum message length in bytes
+     */
+    constructor(uint256 capacity, uint256 messageSizeLimit) {
+        require(
+            capacity > 0 && capacity <= MAX_CAPACITY,
+            "Capacity out of range"
+        );
+        require(
+            messageSizeLimit > 0 && messageSizeLimit <= MAX_MESSAGE_SIZE,
+            "Message size out of range"
+        );
+
+        maxMessages = capacity;
+        maxMessageSize = messageSizeLimit;
+        self = address(this);
 
-    constructor() {
         // Initialize the current index to 0
         currentIndex = 0;
+
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    /**
+     * @dev Store a message with the current timestamp, recording the sender
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @return The index where the message was stored
+     */
+    function storeMessage(
+        bytes calldata message
+    ) external onlyWriter returns (uint256) {
+        // Get the index where we'll store this message
+        uint256 index = currentIndex;
+        _storeEntry(index, message, msg.sender, _lastSequence(index) + 1);
+
+        // Update index for next message (circular buffer)
+        currentIndex = (index + 1) % maxMessages;
+
+        return index;
     }
 
     /**
-     * @dev Store a message with the current timestamp
-     * @param message The ASCII message to store (must be exactly 60 characters)
+     * @dev Store a message signed off-chain by a writer, who is recorded as
+     * its author; anyone can submit it, so relayers can pay the gas
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @param author The signer, who must be the owner or an allowed writer
+     * @param deadline Last block timestamp at which the signature is valid
+     * @param signature The author's 65-byte EIP-712 signature over
+     * Message(message, nonce, deadline), with nonce = getNonce(author)
      * @return The index where the message was stored
      */
-    function storeMessage(bytes calldata message) external returns (uint256) {
-        // Require exact message length
+    function storeSignedMessage(
+        bytes calldata message,
+        address author,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256) {
+        require(!paused, "Contract is paused");
+        require(block.timestamp <= deadline, "Signature expired");
+
+        uint256 nonce = nonces[author];
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19\x01",
+                _domainSeparator(),
+                keccak256(
+                    abi.encode(
+                        MESSAGE_TYPEHASH,
+                        keccak256(message),
+                        nonce,
+                        deadline
+                    )
+                )
+            )
+        );
+        require(
+            author != address(0) && _recover(digest, signature) == author,
+            "Invalid signature"
+        );
         require(
-            message.length == MESSAGE_SIZE_BYTES,
-            "Message must be exactly 60 bytes"
+            author == owner || writers[author],
+            "Signer is not an allowed writer"
         );
 
-        // Get current timestamp as uint32 (4 bytes)
-        uint32 timestamp = uint32(block.timestamp);
+        // Consume the nonce so the signature can't be replayed
+        nonces[author] = nonce + 1;
 
-        // Get the index where we'll store this message
         uint256 index = currentIndex;
+        _storeEntry(index, message, author, _lastSequence(index) + 1);
+        currentIndex = (index + 1) % maxMessages;
 
-        // Store the first 32 bytes in part1
-        bytes32 firstPart;
+        return index;
+    }
 
-        // Copy the first 32 bytes of the message
-        assembly {
-            firstPart := calldataload(add(message.offset, 0))
+    /**
+     * @dev Store several messages in one call, exactly as if storeMessage had
+     * been called for each in order (later ones overwrite earlier ones once
+     * the ring wraps), but writing currentIndex only once
+     * @param batch The messages to store (each 1 to maxMessageSize bytes)
+     * @return indices The index each message was stored at, in order
+     */
+    function storeMessages(
+        bytes[] calldata batch
+    ) external onlyWriter returns (uint256[] memory indices) {
+        require(batch.length > 0, "No messages");
+
+        uint256 capacity = maxMessages;
+        uint256 index = currentIndex;
+        uint256 sequence = _lastSequence(index);
+        indices = new uint256[](batch.length);
+
+        for (uint256 i = 0; i < batch.length; i++) {
+            sequence++;
+            _storeEntry(index, batch[i], msg.sender, sequence);
+            indices[i] = index;
+            index = (index + 1) % capacity;
         }
 
-        // Store the remaining 28 bytes and timestamp in part2
-        bytes32 secondPart;
+        currentIndex = index;
+    }
 
-        // Shift timestamp to high bytes (first 4 bytes of the slot)
-        uint256 timestampShifted = uint256(timestamp) << 224;
+    /**
+     * @dev Store a copy of a message from a board on another chain, at most
+     * once per source board and sequence number; the sender is recorded as
+     * the author
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @param sourceChainId The chain the original message was stored on
+     * @param sourceBoard The board the original message was stored on
+     * @param sourceSequence The original message's sequence number
+     * @return The index where the message was stored
+     */
+    function storeMirroredMessage(
+        bytes calldata message,
+        uint256 sourceChainId,
+        address sourceBoard,
+        uint256 sourceSequence
+    ) external onlyWriter returns (uint256) {
+        require(sourceSequence > 0, "Invalid source sequence");
+        bytes32 key = keccak256(
+            abi.encode(sourceChainId, sourceBoard, sourceSequence)
+        );
+        require(!mirrored[key], "Message already mirrored");
+        mirrored[key] = true;
 
-        assembly {
-            // Load the remaining bytes starting from offset 32
-            let remaining := calldataload(add(message.offset, 32))
-
-            // Mask the remaining bytes to ensure only 28 bytes are used
-            // This ensures we have space for the 4-byte timestamp
-            let masked := and(
-                remaining,
-                0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff
-            )
+        uint256 index = currentIndex;
+        uint256 sequence = _lastSequence(index) + 1;
+        _storeEntry(index, message, msg.sender, sequence);
+        currentIndex = (index + 1) % maxMessages;
 
-            // Combine with the timestamp
-            secondPart := or(masked, timestampShifted)
-        }
+        emit MessageMirrored(
+            sourceChainId,
+            sourceBoard,
+            sourceSequence,
+            sequence
+        );
+        return index;
+    }
 
-        // Store both parts in the mapping
-        messages[index] = MessageData({part1: firstPart, part2: secondPart});
+    /**
+     * @dev Allow an address to store messages
+     * @param writer The address to add to the allowlist
+     */
+    function addWriter(address writer) external onlyOwner {
+        require(writer != address(0), "Writer is the zero address");
+        require(!writers[writer], "Writer already allowed");
 
-        // Emit event with index and timestamp
-        emit MessageStored(index, timestamp);
+        writers[writer] = true;
+        emit WriterAdded(writer);
+    }
 
-        // Update index for next message (circular buffer)
-        currentIndex = (currentIndex + 1) % MAX_MESSAGES;
+    /**
+     * @dev Revoke an address's permission to store messages
+     * @param writer The address to remove from the allowlist
+     */
+    function removeWriter(address writer) external onlyOwner {
+        require(writers[writer], "Writer not allowed");
 
-        return index;
+        writers[writer] = false;
+        emit WriterRemoved(writer);
+    }
+
+    /**
+     * @dev Stop all writes until unpause is called
+     */
+    function pause() external onlyOwner {
+        require(!paused, "Contract is paused");
+
+        paused = true;
+        emit Paused(msg.sender);
     }
 
     /**
-     * @dev Retrieve all stored messages with their timestamps
+     * @dev Resume writes after a pause
+     */
+    function unpause() external onlyOwner {
+        require(paused, "Contract is not paused");
+
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /**
+     * @dev Hand ownership to a new address
+     * @param newOwner The address of the new owner
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "New owner is the zero address");
+
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /**
+     * @dev Set the owner of a proxy, whose storage the constructor never saw
+     * Called by MessageStorageProxy's constructor; a direct deployment
+     * already has an owner, so this always reverts there
+     * @param initialOwner The owner of the proxied board
+     */
+    function initialize(address initialOwner) external {
+        require(owner == address(0), "Already initialized");
+        require(initialOwner != address(0), "New owner is the zero address");
+
+        owner = initialOwner;
+        emit OwnershipTransferred(address(0), initialOwner);
+    }
+
+    /**
+     * @dev Point the calling proxy at a new implementation
+     * @param newImplementation A MessageStorage with the same capacity and
+     * message size and a compatible storage layout
+     */
+    function upgradeTo(address newImplementation) external onlyOwner {
+        require(address(this) != self, "Must be called through a proxy");
+        require(
+            newImplementation.code.length > 0,
+            "Implementation is not a contract"
+        );
+        require(
+            MessageStorage(newImplementation).proxiableUUID() ==
+                IMPLEMENTATION_SLOT,
+            "Implementation is not upgradeable"
+        );
+        require(
+            MessageStorage(newImplementation).getCapacity() == maxMessages &&
+                MessageStorage(newImplementation).getMaxMessageSize() ==
+                maxMessageSize,
+            "Implementation shape differs"
+        );
+
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, newImplementation)
+        }
+        emit Upgraded(newImplementation);
+    }
+
+    /**
+     * @dev ERC-1822 marker checked by upgradeTo before switching to this
+     * implementation; reverts through a proxy so proxies can't be chained
+     * @return The ERC-1967 implementation slot
+     */
+    function proxiableUUID() external view returns (bytes32) {
+        require(address(this) == self, "Must not be called through a proxy");
+        return IMPLEMENTATION_SLOT;
+    }
+
+    /**
+     * @dev Retrieve all stored messages with their timestamps, oldest first
+     * Iteration starts at currentIndex (the oldest entry once the buffer has
+     * wrapped) and skips slots that were never written (zero length)
+     * @return indices Ring index of each returned message
      * @return messages Array of stored messages
      * @return timestamps Array of message timestamps
+     * @return authors Array of message authors
+     * @return sequences Array of message sequence numbers
      */
     function getAllMessages()
         external
         view
-        returns (bytes[] memory, uint32[] memory)
+        returns (
+            uint256[] memory,
+            bytes[] memory,
+            uint32[] memory,
+            address[] memory,
+            uint256[] memory
+        )
     {
-        bytes[] memory allMessages = new bytes[](MAX_MESSAGES);
-        uint32[] memory allTimestamps = new uint32[](MAX_MESSAGES);
-
-        // Iterate through all message slots and extract data
-        for (uint256 i = 0; i < MAX_MESSAGES; i++) {
-            MessageData storage data = messages[i];
-
-            // Create a new bytes array for this message
-            bytes memory messageBytes = new bytes(MESSAGE_SIZE_BYTES);
-
-            // Extract the timestamp from part2 (top 4 bytes)
-            uint32 timestamp = uint32(uint256(data.part2) >> 224);
+        MessageList memory list = _readMessages(address(0), maxMessages);
+        return (
+            list.indices,
+            list.texts,
+            list.timestamps,
+            list.authors,
+            list.sequences
+        );
+    }
 
-            // Copy the data to the messageBytes array using assembly
-            assembly {
-                // Copy first part
-                mstore(add(messageBytes, 32), mload(data.slot))
+    /**
+     * @dev Retrieve the latest messages stored by one author, oldest first
+     * @param author The address whose messages to return
+     * @param limit Maximum number of messages to return
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors (all equal to author)
+     * @return sequences Array of message sequence numbers
+     */
+    function getMessagesByAuthor(
+        address author,
+        uint256 limit
+    )
+        external
+        view
+        returns (
+            uint256[] memory,
+            bytes[] memory,
+            uint32[] memory,
+            address[] memory,
+            uint256[] memory
+        )
+    {
+        require(author != address(0), "Author is the zero address");
 
-                // Copy second part (mask out the timestamp)
-                let secondSlot := mload(add(data.slot, 32))
-                let maskedSecond := and(
-                    secondSlot,
-                    0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff
-                )
-                mstore(add(messageBytes, 64), maskedSecond)
-            }
+        MessageList memory list = _readMessages(author, limit);
+        return (
+            list.indices,
+            list.texts,
+            list.timestamps,
+            list.authors,
+            list.sequences
+        );
+    }
 
-            // Store the results
-            allMessages[i] = messageBytes;
-            allTimestamps[i] = timestamp;
-        }
+    /**
+     * @dev Page through the messages in the buffer, oldest first, optionally
+     * limited to a time window. Block timestamps never decrease, so the
+     * window is a contiguous run of sequence numbers
+     * @param afterSequence Only return messages after this sequence number
+     * (0 to start with the oldest message in the buffer)
+     * @param fromTimestamp Only return messages stored at or after this time
+     * @param toTimestamp Only return messages stored before this time
+     * @param limit Maximum number of messages to return
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors
+     * @return sequences Array of message sequence numbers
+     * @return nextCursor The afterSequence of the next page, or 0 if no more
+     * messages match
+     */
+    function getMessagesPage(
+        uint256 afterSequence,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        uint256 limit
+    )
+        external
+        view
+        returns (
+            uint256[] memory,
+            bytes[] memory,
+            uint32[] memory,
+            address[] memory,
+            uint256[] memory,
+            uint256
+        )
+    {
+        require(limit > 0, "Limit is zero");
+        require(fromTimestamp <= toTimestamp, "Invalid time range");
 
-        return (allMessages, allTimestamps);
+        (MessageList memory list, uint256 nextCursor) = _readPage(
+            afterSequence,
+            fromTimestamp,
+            toTimestamp,
+            limit
+        );
+        return (
+            list.indices,
+            list.texts,
+            list.timestamps,
+            list.authors,
+            list.sequences,
+            nextCursor
+        );
     }
 
     /**
      * @dev Get a specific stored message by index
      * @param index The index of the message to retrieve
-     * @return part1 The first part of the message
-     * @return part2 The second part of the message (includes timestamp)
+     * @return message The message bytes (empty if never written)
      * @return timestamp The message timestamp
+     * @return author The address that stored the message
+     * @return sequence The message's sequence number
      */
     function getMessage(
         uint256 index
-    ) external view returns (bytes32, bytes32, uint32) {
-        require(index < MAX_MESSAGES, "Index out of bounds");
+    ) external view returns (bytes memory, uint32, address, uint256) {
+        require(index < maxMessages, "Index out of bounds");
 
-        MessageData storage data = messages[index];
+        uint256 base = _entrySlot(index);
+        (
+            uint256 length,
+            uint32 timestamp,
+            address author,
+            uint256 sequence
+        ) = _loadHeader(base);
 
-        // Extract the timestamp from part2 (top 4 bytes)
-        uint32 timestamp = uint32(uint256(data.part2) >> 224);
+        return (_copyMessage(base, length), timestamp, author, sequence);
+    }
 
-        return (data.part1, data.part2, timestamp);
+    /**
+     * @dev Get a message by sequence number, which unlike a ring index keeps
+     * referring to the same message after the buffer wraps around
+     * @param sequence The sequence number (1 to getLastSequence())
+     * @return overwritten True if the message has since been evicted, in
+     * which case the message, timestamp and author are empty
+     * @return index The ring index the message was stored at
+     * @return message The message bytes
+     * @return timestamp The message timestamp
+     * @return author The address recorded as the message's author
+     */
+    function getMessageBySequence(
+        uint256 sequence
+    )
+        external
+        view
+        returns (
+            bool overwritten,
+            uint256 index,
+            bytes memory message,
+            uint32 timestamp,
+            address author
+        )
+    {
+        uint256 capacity = maxMessages;
+        uint256 next = currentIndex;
+        uint256 last = _lastSequence(next);
+        require(sequence > 0 && sequence <= last, "Unknown sequence number");
+
+        // The newest message sits just behind currentIndex, older ones
+        // further back
+        uint256 age = last - sequence;
+        index = (next + capacity - 1 - (age % capacity)) % capacity;
+        if (age >= capacity) {
+            return (true, index, "", 0, address(0));
+        }
+
+        uint256 base = _entrySlot(index);
+        uint256 length;
+        (length, timestamp, author, ) = _loadHeader(base);
+        message = _copyMessage(base, length);
+    }
+
+    /**
+     * @dev Get the sequence number of the newest message
+     * @return The newest sequence number, 0 before the first message
+     */
+    function getLastSequence() external view returns (uint256) {
+        return _lastSequence(currentIndex);
+    }
+
+    /**
+     * @dev Check whether a message from another chain has been mirrored here
+     * @param sourceChainId The chain the original message was stored on
+     * @param sourceBoard The board the original message was stored on
+     * @param sourceSequence The original message's sequence number
+     * @return True if storeMirroredMessage has stored it
+     */
+    function isMirrored(
+        uint256 sourceChainId,
+        address sourceBoard,
+        uint256 sourceSequence
+    ) external view returns (bool) {
+        return
+            mirrored[
+                keccak256(abi.encode(sourceChainId, sourceBoard, sourceSequence))
+            ];
+    }
+
+    /**
+     * @dev Get the owner of the contract
+     * @return The owner address
+     */
+    function getOwner() external view returns (address) {
+        return owner;
+    }
+
+    /**
+     * @dev Check whether an address may store messages
+     * @param account The address to check
+     * @return True for the owner and allowlisted writers
+     */
+    function isWriter(address account) external view returns (bool) {
+        return account == owner || writers[account];
+    }
+
+    /**
+     * @dev Check whether writes are paused
+     * @return True while paused
+     */
+    function isPaused() external view returns (bool) {
+        return paused;
+    }
+
+    /**
+     * @dev Get the number of messages kept before the oldest is overwritten
+     * @return The ring capacity
+     */
+    function getCapacity() external view returns (uint256) {
+        return maxMessages;
+    }
+
+    /**
+     * @dev Get the longest message storeMessage accepts
+     * @return The maximum message length in bytes
+     */
+    function getMaxMessageSize() external view returns (uint256) {
+        return maxMessageSize;
     }
 
     /**
@@ -171,4 +673,369 @@ contract MessageStorage {
     function getCurrentIndex() external view returns (uint256) {
         return currentIndex;
     }
+
+    /**
+     * @dev Get the nonce the next signed message of a signer must carry
+     * @param signer The signer's address
+     * @return The number of signed messages already stored for the signer
+     */
+    function getNonce(address signer) external view returns (uint256) {
+        return nonces[signer];
+    }
+
+    /**
+     * @dev Get the EIP-712 domain separator signed messages are bound to
+     * @return The separator for this board (the proxy, if proxied) and chain
+     */
+    function getDomainSeparator() external view returns (bytes32) {
+        return _domainSeparator();
+    }
+
+    /**
+     * @dev Write one message to the entry at a ring index and emit its event
+     * @param index The index in the circular buffer
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @param author The address recorded as the message's author
+     * @param sequence The message's sequence number
+     */
+    function _storeEntry(
+        uint256 index,
+        bytes calldata message,
+        address author,
+        uint256 sequence
+    ) private {
+        uint256 length = message.length;
+        require(
+            length > 0 && length <= maxMessageSize,
+            "Invalid message length"
+        );
+
+        // Get current timestamp as uint32 (4 bytes)
+        uint32 timestamp = uint32(block.timestamp);
+
+        uint256 base = _entrySlot(index);
+
+        // Widen timestamp to a full word for packing into the header
+        uint256 timestampWord = uint256(timestamp);
+
+        assembly {
+            let words := div(add(length, 31), 32)
+            let lastWord := sub(words, 1)
+
+            // Copy every full 32-byte word of the message straight from calldata
+            for {
+                let i := 0
+            } lt(i, lastWord) {
+                i := add(i, 1)
+            } {
+                sstore(
+                    add(base, add(i, 1)),
+                    calldataload(add(message.offset, mul(i, 32)))
+                )
+            }
+
+            // Zero whatever calldata follows the message in its last word, so
+            // storage never holds bytes the caller didn't mean to store
+            let tailBits := mul(sub(mul(words, 32), length), 8)
+            sstore(
+                add(base, words),
+                and(
+                    calldataload(add(message.offset, mul(lastWord, 32))),
+                    not(sub(shl(tailBits, 1), 1))
+                )
+            )
+
+            // Author, timestamp, sequence and length share the header slot
+            sstore(
+                base,
+                or(
+                    or(
+                        shl(AUTHOR_SHIFT, author),
+                        shl(TIMESTAMP_SHIFT, timestampWord)
+                    ),
+                    or(shl(SEQUENCE_SHIFT, sequence), length)
+                )
+            )
+        }
+
+        // Emit event with index, sequence, author, timestamp and the message
+        emit MessageStored(index, sequence, author, timestamp, message);
+    }
+
+    /**
+     * @dev Collect the newest written messages, returned oldest first
+     * @param author Only include messages by this address (zero for any)
+     * @param limit Maximum number of messages to return
+     */
+    function _readMessages(
+        address author,
+        uint256 limit
+    ) private view returns (MessageList memory list) {
+        uint256 capacity = maxMessages;
+        if (limit > capacity) {
+            limit = capacity;
+        }
+
+        list = _newMessageList(limit);
+
+        // Walk the ring newest to oldest, filling the arrays from the back so
+        // the result ends up in chronological order
+        uint256 index = currentIndex;
+        uint256 position = limit;
+
+        for (uint256 i = 0; i < capacity && position > 0; i++) {
+            index = (index + capacity - 1) % capacity;
+            uint256 base = _entrySlot(index);
+            (
+                uint256 length,
+                uint32 timestamp,
+                address messageAuthor,
+                uint256 sequence
+            ) = _loadHeader(base);
+
+            // Slots that were never written have no length
+            if (length == 0) {
+                continue;
+            }
+            if (author != address(0) && messageAuthor != author) {
+                continue;
+            }
+
+            position--;
+            list.indices[position] = index;
+            list.texts[position] = _copyMessage(base, length);
+            list.timestamps[position] = timestamp;
+            list.authors[position] = messageAuthor;
+            list.sequences[position] = sequence;
+        }
+
+        _trimMessageList(list, position, limit - position);
+    }
+
+    /**
+     * @dev Collect up to limit messages after a sequence number within a
+     * time window, walking the ring oldest to newest from currentIndex
+     * @param afterSequence Skip messages up to this sequence number (0 for
+     * none)
+     * @param fromTimestamp Skip messages stored before this time
+     * @param toTimestamp Stop at the first message stored at or after this
+     * time
+     * @param limit Maximum number of messages to return (at least 1)
+     */
+    function _readPage(
+        uint256 afterSequence,
+        uint256 fromTimestamp,
+        uint256 toTimestamp,
+        uint256 limit
+    ) private view returns (MessageList memory list, uint256 nextCursor) {
+        uint256 capacity = maxMessages;
+        if (limit > capacity) {
+            limit = capacity;
+        }
+        list = _newMessageList(limit);
+        uint256 count;
+        uint256 oldest = currentIndex;
+
+        for (uint256 i = 0; i < capacity; i++) {
+            uint256 index = (oldest + i) % capacity;
+            uint256 base = _entrySlot(index);
+            (
+                uint256 length,
+                uint32 timestamp,
+                address author,
+                uint256 sequence
+            ) = _loadHeader(base);
+
+            if (length == 0 || timestamp < fromTimestamp) {
+                continue;
+            }
+            if (afterSequence != 0 && sequence <= afterSequence) {
+                continue;
+            }
+            if (timestamp >= toTimestamp) {
+                break;
+            }
+
+            // A match that doesn't fit means there is another page
+            if (count == limit) {
+                nextCursor = list.sequences[count - 1];
+                break;
+            }
+
+            list.indices[count] = index;
+            list.texts[count] = _copyMessage(base, length);
+            list.timestamps[count] = timestamp;
+            list.authors[count] = author;
+            list.sequences[count] = sequence;
+            count++;
+        }
+
+        _trimMessageList(list, 0, count);
+    }
+
+    /**
+     * @dev Allocate the arrays of a MessageList
+     * @param size The length of each array
+     */
+    function _newMessageList(
+        uint256 size
+    ) private pure returns (MessageList memory list) {
+        list.indices = new uint256[](size);
+        list.texts = new bytes[](size);
+        list.timestamps = new uint32[](size);
+        list.authors = new address[](size);
+        list.sequences = new uint256[](size);
+    }
+
+    /**
+     * @dev Shrink every array of a MessageList in place to a run of its
+     * entries, by moving each array's start forward and rewriting its length
+     * @param list The list to shrink
+     * @param start The first entry to keep
+     * @param count The number of entries to keep
+     */
+    function _trimMessageList(
+        MessageList memory list,
+        uint256 start,
+        uint256 count
+    ) private pure {
+        uint256 skip = start * 32;
+        assembly {
+            for {
+                let field := 0
+            } lt(field, 5) {
+                field := add(field, 1)
+            } {
+                let pointer := add(list, mul(field, 32))
+                let array := add(mload(pointer), skip)
+                mstore(array, count)
+                mstore(pointer, array)
+            }
+        }
+    }
+
+    /**
+     * @dev Compute the EIP-712 domain separator; not cached, since proxies
+     * and chain forks change the verifying contract and chain id
+     */
+    function _domainSeparator() private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    DOMAIN_TYPEHASH,
+                    NAME_HASH,
+                    VERSION_HASH,
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
+    /**
+     * @dev Recover the signer of a digest from a 65-byte (r, s, v) signature
+     * @param digest The signed EIP-712 digest
+     * @param signature The signature
+     * @return signer The signer, or zero for an invalid signature
+     */
+    function _recover(
+        bytes32 digest,
+        bytes calldata signature
+    ) private pure returns (address signer) {
+        require(signature.length == 65, "Invalid signature length");
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := calldataload(signature.offset)
+            s := calldataload(add(signature.offset, 32))
+            v := byte(0, calldataload(add(signature.offset, 64)))
+        }
+
+        // Reject the malleable twin of every valid signature
+        if (uint256(s) > MAX_SIGNATURE_S) {
+            return address(0);
+        }
+        return ecrecover(digest, v, r, s);
+    }
+
+    /**
+     * @dev Compute the first storage slot of the entry at a ring index
+     * @param index The index in the circular buffer
+     */
+    function _entrySlot(uint256 index) private pure returns (uint256 base) {
+        assembly {
+            // Same derivation Solidity uses for mapping values
+            mstore(0, index)
+            mstore(32, messages.slot)
+            base := keccak256(0, 64)
+        }
+    }
+
+    /**
+     * @dev Unpack an entry's header slot
+     * @param base The entry's first storage slot
+     */
+    function _loadHeader(
+        uint256 base
+    )
+        private
+        view
+        returns (
+            uint256 length,
+            uint32 timestamp,
+            address author,
+            uint256 sequence
+        )
+    {
+        uint256 header;
+        assembly {
+            header := sload(base)
+        }
+        length = header & LENGTH_MASK;
+        sequence = (header >> SEQUENCE_SHIFT) & SEQUENCE_MASK;
+        timestamp = uint32(header >> TIMESTAMP_SHIFT);
+        author = address(uint160(header >> AUTHOR_SHIFT));
+    }
+
+    /**
+     * @dev Read the sequence number of the entry written just before a ring
+     * index, which is the newest message when the index is currentIndex
+     * @param nextIndex The index after the entry
+     */
+    function _lastSequence(
+        uint256 nextIndex
+    ) private view returns (uint256 sequence) {
+        uint256 capacity = maxMessages;
+        uint256 base = _entrySlot((nextIndex + capacity - 1) % capacity);
+        assembly {
+            sequence := and(shr(SEQUENCE_SHIFT, sload(base)), SEQUENCE_MASK)
+        }
+    }
+
+    /**
+     * @dev Copy a stored message into a new bytes array
+     * @param base The entry's first storage slot
+     * @param length The message length from the entry's header
+     */
+    function _copyMessage(
+        uint256 base,
+        uint256 length
+    ) private view returns (bytes memory messageBytes) {
+        messageBytes = new bytes(length);
+
+        // The array is padded to a whole number of words and the stored last
+        // word is already zeroed past the length, so whole slots can be copied
+        assembly {
+            let data := add(messageBytes, 32)
+            let words := div(add(length, 31), 32)
+            for {
+                let i := 0
+            } lt(i, words) {
+                i := add(i, 1)
+            } {
+                mstore(add(data, mul(i, 32)), sload(add(base, add(i, 1))))
+            }
+        }
+    }
 }
@@ -0,0 +1,451 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MessageStorageAssembly
+ * @dev IMessageBufferReader implemented as a Solidity contract whose
+ * fallback is one inline assembly block, to measure what Solidity's
+ * dispatcher, ABI coder and memory management cost on top of
+ * MessageStorage's storage layout. It is compiled by solc like the other
+ * contracts, not as a standalone Yul object: the constructor, immutables
+ * and event topics are ordinary Solidity
+ *
+ * - Same entry layout as MessageStorage: a header slot packing the author,
+ *   timestamp, sequence number and length, then the message's words
+ * - Every call goes through the fallback, which dispatches on the selector
+ *   and decodes and encodes calldata by hand, so the artifact's ABI is
+ *   empty; call it through IMessageBufferReader
+ * - Calldata is only checked as far as reading it safely needs; malformed
+ *   calls revert without a reason
+ */
+contract MessageStorageAssembly {
+    // Bounds on the deployment parameters, keeping every loop bounded
+    uint256 private constant MAX_CAPACITY = 1024;
+    uint256 private constant MAX_MESSAGE_SIZE = 1024; // 32 storage slots
+
+    // Buffer shape, fixed at deployment
+    uint256 private immutable maxMessages;
+    uint256 private immutable maxMessageSize;
+
+    // Same slots as MessageStorage; only accessed from assembly
+    uint256 private currentIndex;
+    mapping(uint256 => bytes32) private messages;
+    address private owner;
+    mapping(address => bool) private writers;
+
+    /**
+     * @param capacity Number of messages kept before the oldest is overwritten
+     * @param messageSizeLimit Maximum message length in bytes
+     */
+    constructor(uint256 capacity, uint256 messageSizeLimit) {
+        require(
+            capacity > 0 && capacity <= MAX_CAPACITY,
+            "Capacity out of range"
+        );
+        require(
+            messageSizeLimit > 0 && messageSizeLimit <= MAX_MESSAGE_SIZE,
+            "Message size out of range"
+        );
+
+        maxMessages = capacity;
+        maxMessageSize = messageSizeLimit;
+        owner = msg.sender;
+    }
+
+    fallback() external {
+        // Immutables and event topics can't be read from assembly; the
+        // topics are IMessageBuffer's events
+        uint256 capacity = maxMessages;
+        uint256 maxSize = maxMessageSize;
+        bytes32 storedTopic = keccak256(
+            "MessageStored(uint256,uint256,address,uint256,bytes)"
+        );
+        bytes32 addedTopic = keccak256("WriterAdded(address)");
+        bytes32 removedTopic = keccak256("WriterRemoved(address)");
+
+        assembly {
+            // Revert with Error(string), for reasons of up to 32 bytes
+            function fail(reason, length) {
+                mstore(0, shl(224, 0x08c379a0))
+                mstore(4, 32)
+                mstore(36, length)
+                mstore(68, reason)
+                revert(0, 100)
+            }
+
+            function returnWord(value) {
+                mstore(0, value)
+                return(0, 32)
+            }
+
+            // An address argument, rejecting dirty upper bits
+            function addressAt(position) -> account {
+                account := calldataload(position)
+                if shr(160, account) {
+                    revert(0, 0)
+                }
+            }
+
+            // Locate a bytes value from its head word in a tuple starting at
+            // tupleStart
+            function bytesAt(tupleStart, head) -> dataOffset, length {
+                let relative := calldataload(head)
+                if gt(relative, 0xffffffff) {
+                    revert(0, 0)
+                }
+                let lengthOffset := add(tupleStart, relative)
+                length := calldataload(lengthOffset)
+                dataOffset := add(lengthOffset, 32)
+                if gt(add(dataOffset, length), calldatasize()) {
+                    revert(0, 0)
+                }
+            }
+
+            // Same derivation Solidity uses for mapping values
+            function mappingSlot(key, slot) -> value {
+                mstore(0, key)
+                mstore(32, slot)
+                value := keccak256(0, 64)
+            }
+
+            function entrySlot(index) -> base {
+                base := mappingSlot(index, messages.slot)
+            }
+
+            function requireOwner() {
+                if iszero(eq(caller(), sload(owner.slot))) {
+                    fail("Caller is not the owner", 23)
+                }
+            }
+
+            // Only reads the allowlist when the caller isn't the owner
+            function isWriter(account) -> allowed {
+                allowed := eq(account, sload(owner.slot))
+                if iszero(allowed) {
+                    allowed := sload(mappingSlot(account, writers.slot))
+                }
+            }
+
+            function requireWriter() {
+                if iszero(isWriter(caller())) {
+                    fail("Caller is not an allowed writer", 31)
+                }
+            }
+
+            // Sequence number of the entry just before a ring index
+            function lastSequence(next, ringSize) -> sequence {
+                let base := entrySlot(mod(add(next, sub(ringSize, 1)), ringSize))
+                sequence := and(shr(16, sload(base)), 0xffffffffffff)
+            }
+
+            // Write one message from calldata to the entry at a ring index
+            // and emit MessageStored, using memory from the free pointer
+            function storeEntry(index, dataOffset, length, sequence, sizeLimit, topic) {
+                if or(iszero(length), gt(length, sizeLimit)) {
+                    fail("Invalid message length", 22)
+                }
+
+                let base := entrySlot(index)
+                let words := div(add(length, 31), 32)
+                let lastWord := sub(words, 1)
+                for {
+                    let i := 0
+                } lt(i, lastWord) {
+                    i := add(i, 1)
+                } {
+                    sstore(
+                        add(base, add(i, 1)),
+                        calldataload(add(dataOffset, mul(i, 32)))
+                    )
+                }
+
+                // Zero whatever calldata follows the message in its last word
+                let tailBits := mul(sub(mul(words, 32), length), 8)
+                sstore(
+                    add(base, words),
+                    and(
+                        calldataload(add(dataOffset, mul(lastWord, 32))),
+                        not(sub(shl(tailBits, 1), 1))
+                    )
+                )
+
+                let time := and(timestamp(), 0xffffffff)
+                sstore(
+                    base,
+                    or(
+                        or(shl(96, caller()), shl(64, time)),
+                        or(shl(16, sequence), length)
+                    )
+                )
+
+                // Data: timestamp, then the message as a padded bytes value
+                let data := mload(0x40)
+                mstore(data, time)
+                mstore(add(data, 32), 64)
+                mstore(add(data, 64), length)
+                mstore(add(data, add(96, mul(lastWord, 32))), 0)
+                calldatacopy(add(data, 96), dataOffset, length)
+                log4(
+                    data,
+                    add(96, mul(words, 32)),
+                    topic,
+                    index,
+                    sequence,
+                    caller()
+                )
+            }
+
+            // Return the newest limit written entries, optionally by one
+            // author, oldest first, as getAllMessages does
+            function returnMessages(author, limit, ringSize) {
+                if gt(limit, ringSize) {
+                    limit := ringSize
+                }
+
+                // Collect matching indices, newest first
+                let found := mload(0x40)
+                let count := 0
+                let index := sload(currentIndex.slot)
+                for {
+                    let i := 0
+                } and(lt(i, ringSize), lt(count, limit)) {
+                    i := add(i, 1)
+                } {
+                    index := mod(add(index, sub(ringSize, 1)), ringSize)
+                    let header := sload(entrySlot(index))
+                    // Entries that were never written have no length
+                    if and(header, 0xffff) {
+                        if or(iszero(author), eq(shr(96, header), author)) {
+                            mstore(add(found, mul(count, 32)), index)
+                            count := add(count, 1)
+                        }
+                    }
+                }
+
+                // Encode (uint256[], bytes[], uint32[], address[], uint256[]),
+                // with the fixed-size arrays' tails first and bytes[] last
+                let out := add(found, mul(count, 32))
+                let arraySize := add(32, mul(count, 32))
+                let indicesAt := 160
+                let timestampsAt := add(indicesAt, arraySize)
+                let authorsAt := add(timestampsAt, arraySize)
+                let sequencesAt := add(authorsAt, arraySize)
+                let messagesAt := add(sequencesAt, arraySize)
+                mstore(out, indicesAt)
+                mstore(add(out, 32), messagesAt)
+                mstore(add(out, 64), timestampsAt)
+                mstore(add(out, 96), authorsAt)
+                mstore(add(out, 128), sequencesAt)
+                mstore(add(out, indicesAt), count)
+                mstore(add(out, timestampsAt), count)
+                mstore(add(out, authorsAt), count)
+                mstore(add(out, sequencesAt), count)
+                mstore(add(out, messagesAt), count)
+
+                // Each message's offset is relative to the offsets it follows
+                let offsets := add(messagesAt, 32)
+                let tail := add(offsets, mul(count, 32))
+                for {
+                    let k := 0
+                } lt(k, count) {
+                    k := add(k, 1)
+                } {
+                    let entry := mload(add(found, mul(sub(sub(count, 1), k), 32)))
+                    let base := entrySlot(entry)
+                    let header := sload(base)
+                    let length := and(header, 0xffff)
+                    let item := add(32, mul(k, 32))
+
+                    mstore(add(out, add(indicesAt, item)), entry)
+                    mstore(
+                        add(out, add(timestampsAt, item)),
+                        and(shr(64, header), 0xffffffff)
+                    )
+                    mstore(add(out, add(authorsAt, item)), shr(96, header))
+                    mstore(
+                        add(out, add(sequencesAt, item)),
+                        and(shr(16, header), 0xffffffffffff)
+                    )
+
+                    // Stored last words are already zeroed past the length
+                    mstore(add(out, add(offsets, mul(k, 32))), sub(tail, offsets))
+                    mstore(add(out, tail), length)
+                    let words := div(add(length, 31), 32)
+                    for {
+                        let i := 0
+                    } lt(i, words) {
+                        i := add(i, 1)
+                    } {
+                        mstore(
+                            add(out, add(tail, add(32, mul(i, 32)))),
+                            sload(add(base, add(i, 1)))
+                        )
+                    }
+                    tail := add(tail, add(32, mul(words, 32)))
+                }
+
+                return(out, tail)
+            }
+
+            switch shr(224, calldataload(0))
+            // storeMessage(bytes)
+            case 0x61a1fb6e {
+                requireWriter()
+                let dataOffset, length := bytesAt(4, 4)
+                let index := sload(currentIndex.slot)
+                storeEntry(
+                    index,
+                    dataOffset,
+                    length,
+                    add(lastSequence(index, capacity), 1),
+                    maxSize,
+                    storedTopic
+                )
+                sstore(currentIndex.slot, mod(add(index, 1), capacity))
+                returnWord(index)
+            }
+            // storeMessages(bytes[])
+            case 0x35157ed9 {
+                requireWriter()
+                let array := add(4, calldataload(4))
+                let count := calldataload(array)
+                if iszero(count) {
+                    fail("No messages", 11)
+                }
+                if gt(add(add(array, 32), mul(count, 32)), calldatasize()) {
+                    revert(0, 0)
+                }
+
+                // Return a uint256[] of indices; storeEntry's memory comes
+                // after it
+                let out := mload(0x40)
+                mstore(out, 32)
+                mstore(add(out, 32), count)
+                mstore(0x40, add(out, add(64, mul(count, 32))))
+
+                let items := add(array, 32)
+                let index := sload(currentIndex.slot)
+                let sequence := lastSequence(index, capacity)
+                for {
+                    let i := 0
+                } lt(i, count) {
+                    i := add(i, 1)
+                } {
+                    sequence := add(sequence, 1)
+                    let dataOffset, length := bytesAt(
+                        items,
+                        add(items, mul(i, 32))
+                    )
+                    storeEntry(
+                        index,
+                        dataOffset,
+                        length,
+                        sequence,
+                        maxSize,
+                        storedTopic
+                    )
+                    mstore(add(out, add(64, mul(i, 32))), index)
+                    index := mod(add(index, 1), capacity)
+                }
+
+                sstore(currentIndex.slot, index)
+                return(out, add(64, mul(count, 32)))
+            }
+            // getMessage(uint256)
+            case 0x86f79edb {
+                let index := calldataload(4)
+                if iszero(lt(index, capacity)) {
+                    fail("Index out of bounds", 19)
+                }
+
+                let base := entrySlot(index)
+                let header := sload(base)
+                let length := and(header, 0xffff)
+                let out := mload(0x40)
+                mstore(out, 128)
+                mstore(add(out, 32), and(shr(64, header), 0xffffffff))
+                mstore(add(out, 64), shr(96, header))
+                mstore(add(out, 96), and(shr(16, header), 0xffffffffffff))
+                mstore(add(out, 128), length)
+                let words := div(add(length, 31), 32)
+                for {
+                    let i := 0
+                } lt(i, words) {
+                    i := add(i, 1)
+                } {
+                    mstore(
+                        add(out, add(160, mul(i, 32))),
+                        sload(add(base, add(i, 1)))
+                    )
+                }
+                return(out, add(160, mul(words, 32)))
+            }
+            // getAllMessages()
+            case 0x53f5e380 {
+                returnMessages(0, capacity, capacity)
+            }
+            // getMessagesByAuthor(address,uint256)
+            case 0x2898a842 {
+                let author := addressAt(4)
+                if iszero(author) {
+                    fail("Author is the zero address", 26)
+                }
+                returnMessages(author, calldataload(36), capacity)
+            }
+            // getCurrentIndex()
+            case 0x0d9005ae {
+                returnWord(sload(currentIndex.slot))
+            }
+            // getLastSequence()
+            case 0xe54277ea {
+                returnWord(lastSequence(sload(currentIndex.slot), capacity))
+            }
+            // getCapacity()
+            case 0xc40000d4 {
+                returnWord(capacity)
+            }
+            // getMaxMessageSize()
+            case 0xbcbe9365 {
+                returnWord(maxSize)
+            }
+            // getOwner()
+            case 0x893d20e8 {
+                returnWord(sload(owner.slot))
+            }
+            // isWriter(address)
+            case 0x2b29ba23 {
+                returnWord(isWriter(addressAt(4)))
+            }
+            // addWriter(address)
+            case 0xda2824a8 {
+                requireOwner()
+                let writer := addressAt(4)
+                if iszero(writer) {
+                    fail("Writer is the zero address", 26)
+                }
+                let slot := mappingSlot(writer, writers.slot)
+                if sload(slot) {
+                    fail("Writer already allowed", 22)
+                }
+                sstore(slot, 1)
+                log2(0, 0, addedTopic, writer)
+                stop()
+            }
+            // removeWriter(address)
+            case 0x5356dddc {
+                requireOwner()
+                let writer := addressAt(4)
+                let slot := mappingSlot(writer, writers.slot)
+                if iszero(sload(slot)) {
+                    fail("Writer not allowed", 18)
+                }
+                sstore(slot, 0)
+                log2(0, 0, removedTopic, writer)
+                stop()
+            }
+            default {
+                revert(0, 0)
+            }
+        }
+    }
+}
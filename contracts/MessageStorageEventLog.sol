@@ -0,0 +1,217 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IMessageBuffer.sol";
+
+/**
+ * @title MessageStorageEventLog
+ * @dev IMessageBuffer that keeps messages only in MessageStored logs and
+ * stores a commitment to each entry, so clients can check what they read
+ * from logs against the chain
+ *
+ * Storage Layout:
+ * - currentIndex and the newest sequence number share one slot
+ * - commitments[index] is keccak256(abi.encode(sequence, author, timestamp,
+ *   keccak256(message))) for the entry at that ring index, zero if never
+ *   written
+ * - Messages can't be read on-chain; a reader replays MessageStored logs
+ *   and keeps those whose commitment is still current (EventLogMessageReader)
+ */
+contract MessageStorageEventLog is IMessageBuffer {
+    // Bounds on the deployment parameters, keeping every loop bounded
+    uint256 private constant MAX_CAPACITY = 1024;
+    uint256 private constant MAX_MESSAGE_SIZE = 1024;
+
+    // Buffer shape, fixed at deployment
+    uint256 private immutable maxMessages;
+    uint256 private immutable maxMessageSize;
+
+    uint128 private currentIndex;
+    uint128 private lastSequence;
+    mapping(uint256 => bytes32) private commitments;
+    address private owner;
+    mapping(address => bool) private writers;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Caller is not the owner");
+        _;
+    }
+
+    modifier onlyWriter() {
+        require(
+            msg.sender == owner || writers[msg.sender],
+            "Caller is not an allowed writer"
+        );
+        _;
+    }
+
+    /**
+     * @param capacity Number of messages kept before the oldest is overwritten
+     * @param messageSizeLimit Maximum message length in bytes
+     */
+    constructor(uint256 capacity, uint256 messageSizeLimit) {
+        require(
+            capacity > 0 && capacity <= MAX_CAPACITY,
+            "Capacity out of range"
+        );
+        require(
+            messageSizeLimit > 0 && messageSizeLimit <= MAX_MESSAGE_SIZE,
+            "Message size out of range"
+        );
+
+        maxMessages = capacity;
+        maxMessageSize = messageSizeLimit;
+        owner = msg.sender;
+    }
+
+    /**
+     * @dev Store a message with the current timestamp, recording the sender
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @return The index where the message was stored
+     */
+    function storeMessage(
+        bytes calldata message
+    ) external onlyWriter returns (uint256) {
+        uint256 index = currentIndex;
+        uint256 sequence = lastSequence + 1;
+        _storeEntry(index, message, sequence);
+
+        currentIndex = uint128((index + 1) % maxMessages);
+        lastSequence = uint128(sequence);
+        return index;
+    }
+
+    /**
+     * @dev Store several messages in one call, exactly as if storeMessage had
+     * been called for each in order
+     * @param batch The messages to store (each 1 to maxMessageSize bytes)
+     * @return indices The index each message was stored at, in order
+     */
+    function storeMessages(
+        bytes[] calldata batch
+    ) external onlyWriter returns (uint256[] memory indices) {
+        require(batch.length > 0, "No messages");
+
+        uint256 capacity = maxMessages;
+        uint256 index = currentIndex;
+        uint256 sequence = lastSequence;
+        indices = new uint256[](batch.length);
+
+        for (uint256 i = 0; i < batch.length; i++) {
+            sequence++;
+            _storeEntry(index, batch[i], sequence);
+            indices[i] = index;
+            index = (index + 1) % capacity;
+        }
+
+        currentIndex = uint128(index);
+        lastSequence = uint128(sequence);
+    }
+
+    /**
+     * @dev Allow an address to store messages
+     * @param writer The address to add to the allowlist
+     */
+    function addWriter(address writer) external onlyOwner {
+        require(writer != address(0), "Writer is the zero address");
+        require(!writers[writer], "Writer already allowed");
+
+        writers[writer] = true;
+        emit WriterAdded(writer);
+    }
+
+    /**
+     * @dev Revoke an address's permission to store messages
+     * @param writer The address to remove from the allowlist
+     */
+    function removeWriter(address writer) external onlyOwner {
+        require(writers[writer], "Writer not allowed");
+
+        writers[writer] = false;
+        emit WriterRemoved(writer);
+    }
+
+    /**
+     * @dev Get the commitment to the entry at a ring index
+     * @param index The index in the circular buffer
+     * @return The entry's commitment, zero if it was never written
+     */
+    function getCommitment(uint256 index) external view returns (bytes32) {
+        require(index < maxMessages, "Index out of bounds");
+        return commitments[index];
+    }
+
+    /**
+     * @dev Get the sequence number of the newest message
+     * @return The newest sequence number, 0 before the first message
+     */
+    function getLastSequence() external view returns (uint256) {
+        return lastSequence;
+    }
+
+    /**
+     * @dev Get the owner of the contract
+     * @return The owner address
+     */
+    function getOwner() external view returns (address) {
+        return owner;
+    }
+
+    /**
+     * @dev Check whether an address may store messages
+     * @param account The address to check
+     * @return True for the owner and allowlisted writers
+     */
+    function isWriter(address account) external view returns (bool) {
+        return account == owner || writers[account];
+    }
+
+    /**
+     * @dev Get the maximum number of messages the buffer holds
+     * @return The capacity set at deployment
+     */
+    function getCapacity() external view returns (uint256) {
+        return maxMessages;
+    }
+
+    /**
+     * @dev Get the maximum message length in bytes
+     * @return The message size limit set at deployment
+     */
+    function getMaxMessageSize() external view returns (uint256) {
+        return maxMessageSize;
+    }
+
+    /**
+     * @dev Get the current index in the circular buffer
+     * @return The current index
+     */
+    function getCurrentIndex() external view returns (uint256) {
+        return currentIndex;
+    }
+
+    /**
+     * @dev Commit to one message at a ring index and emit its event
+     * @param index The index in the circular buffer
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @param sequence The message's sequence number
+     */
+    function _storeEntry(
+        uint256 index,
+        bytes calldata message,
+        uint256 sequence
+    ) private {
+        require(
+            message.length > 0 && message.length <= maxMessageSize,
+            "Invalid message length"
+        );
+
+        // Same uint32 timestamp the other backends store
+        uint32 timestamp = uint32(block.timestamp);
+        commitments[index] = keccak256(
+            abi.encode(sequence, msg.sender, timestamp, keccak256(message))
+        );
+
+        emit MessageStored(index, sequence, msg.sender, timestamp, message);
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./MessageStorage.sol";
+
+/**
+ * @title MessageStorageFactory
+ * @dev Deploys MessageStorage boards and registers them under unique names
+ *
+ * - Each board is owned by the account that created it
+ * - Names are permanent; a name can only ever point to one board
+ */
+contract MessageStorageFactory {
+    // Registry of boards by name
+    mapping(string => address) private boards;
+    string[] private boardNames;
+
+    // Event emitted when a new board is deployed and registered
+    event BoardCreated(
+        string name,
+        address indexed board,
+        address indexed owner,
+        uint256 capacity,
+        uint256 maxMessageSize
+    );
+
+    /**
+     * @dev Deploy a new board and register it under a name
+     * @param name The unique name of the board
+     * @param capacity Number of messages kept before the oldest is overwritten
+     * @param maxMessageSize Maximum message length in bytes
+     * @return The address of the new board
+     */
+    function createBoard(
+        string calldata name,
+        uint256 capacity,
+        uint256 maxMessageSize
+    ) external returns (address) {
+        require(bytes(name).length > 0, "Name is empty");
+        require(boards[name] == address(0), "Name already taken");
+
+        MessageStorage board = new MessageStorage(capacity, maxMessageSize);
+
+        // The factory deployed the board, so it starts as the owner
+        board.transferOwnership(msg.sender);
+
+        boards[name] = address(board);
+        boardNames.push(name);
+
+        emit BoardCreated(
+            name,
+            address(board),
+            msg.sender,
+            capacity,
+            maxMessageSize
+        );
+
+        return address(board);
+    }
+
+    /**
+     * @dev Look up a board by name
+     * @param name The name the board was registered under
+     * @return The board address (zero if no board has this name)
+     */
+    function getBoard(string calldata name) external view returns (address) {
+        return boards[name];
+    }
+
+    /**
+     * @dev Get the names of all registered boards, in creation order
+     * @return The board names
+     */
+    function getBoardNames() external view returns (string[] memory) {
+        return boardNames;
+    }
+
+    /**
+     * @dev Get the number of registered boards
+     * @return The board count
+     */
+    function getBoardCount() external view returns (uint256) {
+        return boardNames.length;
+    }
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MessageStorageProxy
+ * @dev ERC-1967 proxy for MessageStorage boards that must survive upgrades
+ *
+ * - The board's state (currentIndex, messages, owner, writers) lives here
+ * - The implementation address sits in the ERC-1967 slot, so the proxy has no
+ *   storage variables of its own that could collide with the board's
+ * - Upgrades go through MessageStorage.upgradeTo, which only the owner can call
+ */
+contract MessageStorageProxy {
+    // ERC-1967 implementation slot, keccak256("eip1967.proxy.implementation") - 1
+    bytes32 private constant IMPLEMENTATION_SLOT =
+        0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+    event Upgraded(address indexed implementation);
+
+    /**
+     * @param implementation The MessageStorage to delegate to
+     * @param data Call to delegate once, normally initialize(owner)
+     */
+    constructor(address implementation, bytes memory data) {
+        require(
+            implementation.code.length > 0,
+            "Implementation is not a contract"
+        );
+
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, implementation)
+        }
+        emit Upgraded(implementation);
+
+        if (data.length > 0) {
+            (bool success, bytes memory result) = implementation.delegatecall(
+                data
+            );
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Forward every call to the implementation, returning or reverting
+     * with its exact result
+     */
+    fallback() external {
+        assembly {
+            let implementation := sload(IMPLEMENTATION_SLOT)
+
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(
+                gas(),
+                implementation,
+                0,
+                calldatasize(),
+                0,
+                0
+            )
+            returndatacopy(0, 0, returndatasize())
+
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
@@ -0,0 +1,419 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IMessageBuffer.sol";
+
+/**
+ * @title MessageStorageSSTORE2
+ * @dev IMessageBufferReader that keeps each message in the bytecode of a
+ * contract created for it (the SSTORE2 pattern), so storing a message costs
+ * one storage slot however long it is
+ *
+ * Storage Layout:
+ * - Each entry is one slot at messages[index], packing the address of its
+ *   data contract (high 20 bytes), the timestamp (next 4 bytes, uint32), the
+ *   sequence number (next 6 bytes) and the message length (low 2 bytes)
+ * - A data contract's code is a STOP byte, so it can't be called, then the
+ *   author (20 bytes), then the message
+ * - Overwriting an entry leaves the old data contract behind; it can't be
+ *   deleted, but nothing points at it any more
+ * - A never-written entry is a zero slot
+ */
+contract MessageStorageSSTORE2 is IMessageBufferReader {
+    // Bounds on the deployment parameters, keeping every loop bounded
+    uint256 private constant MAX_CAPACITY = 1024;
+    uint256 private constant MAX_MESSAGE_SIZE = 1024;
+
+    // Entry slot layout
+    uint256 private constant POINTER_SHIFT = 96;
+    uint256 private constant TIMESTAMP_SHIFT = 64;
+    uint256 private constant SEQUENCE_SHIFT = 16;
+    uint256 private constant SEQUENCE_MASK = 0xffffffffffff;
+    uint256 private constant LENGTH_MASK = 0xffff;
+
+    // Offsets into a data contract's code
+    uint256 private constant AUTHOR_OFFSET = 1;
+    uint256 private constant MESSAGE_OFFSET = 21;
+
+    // Buffer shape, fixed at deployment
+    uint256 private immutable maxMessages;
+    uint256 private immutable maxMessageSize;
+
+    uint256 private currentIndex;
+    mapping(uint256 => uint256) private messages;
+    address private owner;
+    mapping(address => bool) private writers;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Caller is not the owner");
+        _;
+    }
+
+    modifier onlyWriter() {
+        require(
+            msg.sender == owner || writers[msg.sender],
+            "Caller is not an allowed writer"
+        );
+        _;
+    }
+
+    /**
+     * @param capacity Number of messages kept before the oldest is overwritten
+     * @param messageSizeLimit Maximum message length in bytes
+     */
+    constructor(uint256 capacity, uint256 messageSizeLimit) {
+        require(
+            capacity > 0 && capacity <= MAX_CAPACITY,
+            "Capacity out of range"
+        );
+        require(
+            messageSizeLimit > 0 && messageSizeLimit <= MAX_MESSAGE_SIZE,
+            "Message size out of range"
+        );
+
+        maxMessages = capacity;
+        maxMessageSize = messageSizeLimit;
+        owner = msg.sender;
+    }
+
+    /**
+     * @dev Store a message with the current timestamp, recording the sender
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @return The index where the message was stored
+     */
+    function storeMessage(
+        bytes calldata message
+    ) external onlyWriter returns (uint256) {
+        uint256 index = currentIndex;
+        _storeEntry(index, message, _lastSequence(index) + 1);
+        currentIndex = (index + 1) % maxMessages;
+        return index;
+    }
+
+    /**
+     * @dev Store several messages in one call, exactly as if storeMessage had
+     * been called for each in order
+     * @param batch The messages to store (each 1 to maxMessageSize bytes)
+     * @return indices The index each message was stored at, in order
+     */
+    function storeMessages(
+        bytes[] calldata batch
+    ) external onlyWriter returns (uint256[] memory indices) {
+        require(batch.length > 0, "No messages");
+
+        uint256 capacity = maxMessages;
+        uint256 index = currentIndex;
+        uint256 sequence = _lastSequence(index);
+        indices = new uint256[](batch.length);
+
+        for (uint256 i = 0; i < batch.length; i++) {
+            sequence++;
+            _storeEntry(index, batch[i], sequence);
+            indices[i] = index;
+            index = (index + 1) % capacity;
+        }
+
+        currentIndex = index;
+    }
+
+    /**
+     * @dev Allow an address to store messages
+     * @param writer The address to add to the allowlist
+     */
+    function addWriter(address writer) external onlyOwner {
+        require(writer != address(0), "Writer is the zero address");
+        require(!writers[writer], "Writer already allowed");
+
+        writers[writer] = true;
+        emit WriterAdded(writer);
+    }
+
+    /**
+     * @dev Revoke an address's permission to store messages
+     * @param writer The address to remove from the allowlist
+     */
+    function removeWriter(address writer) external onlyOwner {
+        require(writers[writer], "Writer not allowed");
+
+        writers[writer] = false;
+        emit WriterRemoved(writer);
+    }
+
+    /**
+     * @dev Get a specific stored message by index
+     * @param index The index of the message to retrieve
+     * @return message The message bytes (empty if never written)
+     * @return timestamp The message timestamp
+     * @return author The address that stored the message
+     * @return sequence The message's sequence number
+     */
+    function getMessage(
+        uint256 index
+    )
+        external
+        view
+        returns (
+            bytes memory message,
+            uint32 timestamp,
+            address author,
+            uint256 sequence
+        )
+    {
+        require(index < maxMessages, "Index out of bounds");
+
+        uint256 entry = messages[index];
+        if (entry == 0) {
+            return (message, 0, address(0), 0);
+        }
+        (message, author) = _readData(entry);
+        timestamp = uint32(entry >> TIMESTAMP_SHIFT);
+        sequence = (entry >> SEQUENCE_SHIFT) & SEQUENCE_MASK;
+    }
+
+    /**
+     * @dev Retrieve every written message, oldest first
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors
+     * @return sequences Array of message sequence numbers
+     */
+    function getAllMessages()
+        external
+        view
+        returns (
+            uint256[] memory,
+            bytes[] memory,
+            uint32[] memory,
+            address[] memory,
+            uint256[] memory
+        )
+    {
+        return _readMessages(address(0), maxMessages);
+    }
+
+    /**
+     * @dev Retrieve the latest messages stored by one author, oldest first
+     * @param author The address whose messages to return
+     * @param limit Maximum number of messages to return
+     * @return indices Ring index of each returned message
+     * @return messages Array of stored messages
+     * @return timestamps Array of message timestamps
+     * @return authors Array of message authors (all equal to author)
+     * @return sequences Array of message sequence numbers
+     */
+    function getMessagesByAuthor(
+        address author,
+        uint256 limit
+    )
+        external
+        view
+        returns (
+            uint256[] memory,
+            bytes[] memory,
+            uint32[] memory,
+            address[] memory,
+            uint256[] memory
+        )
+    {
+        require(author != address(0), "Author is the zero address");
+        return _readMessages(author, limit);
+    }
+
+    /**
+     * @dev Get the sequence number of the newest message
+     * @return The newest sequence number, 0 before the first message
+     */
+    function getLastSequence() external view returns (uint256) {
+        return _lastSequence(currentIndex);
+    }
+
+    /**
+     * @dev Get the owner of the contract
+     * @return The owner address
+     */
+    function getOwner() external view returns (address) {
+        return owner;
+    }
+
+    /**
+     * @dev Check whether an address may store messages
+     * @param account The address to check
+     * @return True for the owner and allowlisted writers
+     */
+    function isWriter(address account) external view returns (bool) {
+        return account == owner || writers[account];
+    }
+
+    /**
+     * @dev Get the maximum number of messages the buffer holds
+     * @return The capacity set at deployment
+     */
+    function getCapacity() external view returns (uint256) {
+        return maxMessages;
+    }
+
+    /**
+     * @dev Get the maximum message length in bytes
+     * @return The message size limit set at deployment
+     */
+    function getMaxMessageSize() external view returns (uint256) {
+        return maxMessageSize;
+    }
+
+    /**
+     * @dev Get the current index in the circular buffer
+     * @return The current index
+     */
+    function getCurrentIndex() external view returns (uint256) {
+        return currentIndex;
+    }
+
+    /**
+     * @dev Deploy a data contract holding the sender and a message, point
+     * the entry at it and emit MessageStored
+     * @param index The index in the circular buffer
+     * @param message The message to store (1 to maxMessageSize bytes)
+     * @param sequence The message's sequence number
+     */
+    function _storeEntry(
+        uint256 index,
+        bytes calldata message,
+        uint256 sequence
+    ) private {
+        uint256 length = message.length;
+        require(
+            length > 0 && length <= maxMessageSize,
+            "Invalid message length"
+        );
+
+        // Init code that returns everything after its own 12 bytes as the
+        // runtime code: PUSH2 size, DUP1, PUSH1 12, PUSH1 0, CODECOPY,
+        // PUSH1 0, RETURN
+        uint256 codeSize = MESSAGE_OFFSET + length;
+        bytes memory initCode = abi.encodePacked(
+            hex"61",
+            uint16(codeSize),
+            hex"80600c6000396000f3",
+            hex"00",
+            msg.sender,
+            message
+        );
+
+        address pointer;
+        assembly {
+            pointer := create(0, add(initCode, 32), mload(initCode))
+        }
+        require(pointer != address(0), "Failed to store message");
+
+        uint32 timestamp = uint32(block.timestamp);
+        messages[index] =
+            (uint256(uint160(pointer)) << POINTER_SHIFT) |
+            (uint256(timestamp) << TIMESTAMP_SHIFT) |
+            (sequence << SEQUENCE_SHIFT) |
+            length;
+
+        emit MessageStored(index, sequence, msg.sender, timestamp, message);
+    }
+
+    /**
+     * @dev Collect the newest written messages, returned oldest first
+     * @param author Only include messages by this address (zero for any)
+     * @param limit Maximum number of messages to return
+     */
+    function _readMessages(
+        address author,
+        uint256 limit
+    )
+        private
+        view
+        returns (
+            uint256[] memory indices,
+            bytes[] memory texts,
+            uint32[] memory timestamps,
+            address[] memory authors,
+            uint256[] memory sequences
+        )
+    {
+        uint256 capacity = maxMessages;
+        if (limit > capacity) {
+            limit = capacity;
+        }
+
+        // Find the matching entries newest to oldest first, since the author
+        // lives in the data contract and the result size isn't known upfront
+        uint256[] memory found = new uint256[](limit);
+        uint256 count;
+        uint256 index = currentIndex;
+        for (uint256 i = 0; i < capacity && count < limit; i++) {
+            index = (index + capacity - 1) % capacity;
+            uint256 entry = messages[index];
+            if (entry == 0) {
+                continue;
+            }
+            if (author != address(0) && _readAuthor(entry) != author) {
+                continue;
+            }
+            found[count] = index;
+            count++;
+        }
+
+        indices = new uint256[](count);
+        texts = new bytes[](count);
+        timestamps = new uint32[](count);
+        authors = new address[](count);
+        sequences = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 position = count - 1 - i;
+            uint256 entry = messages[found[i]];
+            indices[position] = found[i];
+            (texts[position], authors[position]) = _readData(entry);
+            timestamps[position] = uint32(entry >> TIMESTAMP_SHIFT);
+            sequences[position] = (entry >> SEQUENCE_SHIFT) & SEQUENCE_MASK;
+        }
+    }
+
+    /**
+     * @dev Read the sequence number of the entry written just before a ring
+     * index, which is the newest message when the index is currentIndex
+     * @param nextIndex The index after the entry
+     */
+    function _lastSequence(
+        uint256 nextIndex
+    ) private view returns (uint256) {
+        uint256 capacity = maxMessages;
+        uint256 entry = messages[(nextIndex + capacity - 1) % capacity];
+        return (entry >> SEQUENCE_SHIFT) & SEQUENCE_MASK;
+    }
+
+    /**
+     * @dev Read the author of a written entry from its data contract
+     * @param entry The entry's slot value
+     */
+    function _readAuthor(uint256 entry) private view returns (address author) {
+        address pointer = address(uint160(entry >> POINTER_SHIFT));
+        assembly {
+            // Right-align the 20 bytes in a cleared scratch word
+            mstore(0, 0)
+            extcodecopy(pointer, 12, AUTHOR_OFFSET, 20)
+            author := mload(0)
+        }
+    }
+
+    /**
+     * @dev Read the message and author of a written entry from its data
+     * contract
+     * @param entry The entry's slot value
+     */
+    function _readData(
+        uint256 entry
+    ) private view returns (bytes memory message, address author) {
+        address pointer = address(uint160(entry >> POINTER_SHIFT));
+        uint256 length = entry & LENGTH_MASK;
+        message = new bytes(length);
+        assembly {
+            extcodecopy(pointer, add(message, 32), MESSAGE_OFFSET, length)
+        }
+        author = _readAuthor(entry);
+    }
+}
@@ -3,6 +3,16 @@ import "@nomicfoundation/hardhat-toolbox-viem";
 import "@matterlabs/hardhat-zksync-solc";
 import "@matterlabs/hardhat-zksync-deploy";
 import * as dotenv from "dotenv";
+import "./tasks/writers";
+import "./tasks/gas";
+import "./tasks/deploy";
+import "./tasks/deployments";
+import "./tasks/messages";
+import "./tasks/storage";
+import "./tasks/upgrade";
+import "./tasks/relayer";
+import "./tasks/api";
+import "./tasks/mirror";
 
 dotenv.config();
 
@@ -19,17 +29,25 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 1000,
       },
+      // Recorded for proxied boards and compared by upgrade:messages
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   networks: {
     // Ethereum testnet - Sepolia
     sepolia: {
       url: process.env.SEPOLIA_RPC_URL || "https://rpc.sepolia.org",
+      chainId: 11155111,
       accounts: [PRIVATE_KEY],
     },
     // ZKSync mainnet
     zksync: {
       url: process.env.ZKSYNC_RPC_URL || "https://mainnet.era.zksync.io",
+      chainId: 324,
       accounts: [PRIVATE_KEY],
       zksync: true,
       ethNetwork: "mainnet",
@@ -37,6 +55,7 @@ const config: HardhatUserConfig = {
     // Mantle mainnet
     mantle: {
       url: process.env.MANTLE_RPC_URL || "https://rpc.mantle.xyz",
+      chainId: 5000,
       accounts: [PRIVATE_KEY],
     },
     // Local development network
@@ -0,0 +1,66 @@
+import hre from "hardhat";
+import path from "path";
+import {
+  FileHistoryStore,
+  MessageIndexer,
+  readDeploymentAddress,
+  type StoredMessage,
+} from "../src";
+
+// Backfills MessageStored events for the network's deployment into
+// history/<network>.json, then keeps following new blocks until interrupted.
+//
+//   INDEXER_FROM_BLOCK=5000000 npx hardhat run scripts/index-history.ts --network sepolia
+async function main() {
+  const network = hre.network.name;
+
+  const address = readDeploymentAddress(network);
+
+  const historyPath = path.join(__dirname, "..", "history", `${network}.json`);
+  const indexer = new MessageIndexer({
+    address,
+    publicClient: await hre.viem.getPublicClient(),
+    store: new FileHistoryStore(historyPath),
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK ?? 0),
+  });
+
+  console.log(`Indexing MessageStorage at ${address} on ${network}`);
+  console.log(`History file: ${historyPath}`);
+
+  indexer.start({
+    onSync: ({ added, removed }) => {
+      for (const message of removed) {
+        console.log(
+          `- #${message.sequence} [${message.index}] reorged out: ${describe(
+            message
+          )}`
+        );
+      }
+      for (const message of added) {
+        console.log(
+          `+ #${message.sequence} [${
+            message.index
+          }] ${message.timestamp.toISOString()} ${describe(message)}`
+        );
+      }
+    },
+    onError: (error) => console.error("Sync failed:", error),
+  });
+
+  process.once("SIGINT", () => {
+    indexer.stop().then(() => process.exit(0));
+  });
+}
+
+// Quote the text, or name the entry if it holds part of a direct message
+function describe(message: StoredMessage): string {
+  return message.kind === "direct"
+    ? "(direct message part)"
+    : `"${message.text}"`;
+}
+
+// We recommend this pattern to handle errors
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
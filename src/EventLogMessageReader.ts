@@ -0,0 +1,242 @@
+import {
+  encodeAbiParameters,
+  keccak256,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { messageStorageEventLogAbi } from "./abi";
+import { decodePayload } from "./codec";
+import type { BoardConfig, StoredMessage } from "./MessageStorageClient";
+
+export interface EventLogMessageReaderConfig {
+  // A deployed MessageStorageEventLog
+  address: Address;
+  publicClient: PublicClient;
+  // Block the board was deployed at; logs before it aren't scanned
+  fromBlock?: number;
+  // Maximum number of blocks requested per getLogs call
+  batchSize?: number;
+}
+
+// The newest MessageStored log seen for a ring index
+interface LoggedEntry {
+  sequence: number;
+  author: Address;
+  timestamp: number;
+  message: Hex;
+}
+
+/**
+ * @title EventLogMessageReader
+ * @dev Reads a MessageStorageEventLog board, which only keeps a commitment
+ * per entry on-chain, by replaying its MessageStored logs. Every entry read
+ * from logs is checked against its commitment, so a node that serves
+ * missing or altered logs is caught rather than believed
+ */
+export class EventLogMessageReader {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+
+  private config?: Promise<BoardConfig>;
+
+  constructor({
+    address,
+    publicClient,
+    fromBlock = 0,
+    batchSize = 1000,
+  }: EventLogMessageReaderConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.fromBlock = fromBlock;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * @dev Read every written entry of the circular buffer from logs
+   * @return The verified messages, oldest first
+   */
+  async getAllMessages(): Promise<StoredMessage[]> {
+    const { capacity } = await this.getConfig();
+    const blockNumber = await this.publicClient.getBlockNumber();
+    const entries = await this.readEntries(blockNumber);
+
+    const messages: StoredMessage[] = [];
+    for (let index = 0; index < capacity; index++) {
+      const message = await this.verifyEntry(
+        index,
+        entries.get(index),
+        blockNumber
+      );
+      if (message.sequence > 0) {
+        messages.push(message);
+      }
+    }
+    return messages.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * @dev Read one entry of the circular buffer from logs
+   * @param index The ring index
+   * @return The verified message; entries that were never written read as
+   * empty, as with MessageStorageClient.getMessage
+   */
+  async getMessage(index: number): Promise<StoredMessage> {
+    const { capacity } = await this.getConfig();
+    if (!Number.isInteger(index) || index < 0 || index >= capacity) {
+      throw new Error(
+        `Index ${index} is outside the board's ${capacity} entries`
+      );
+    }
+
+    const blockNumber = await this.publicClient.getBlockNumber();
+    const entries = await this.readEntries(blockNumber);
+    return this.verifyEntry(index, entries.get(index), blockNumber);
+  }
+
+  /**
+   * @dev Get the sequence number of the newest message
+   * @return The newest sequence number, 0 before the first message
+   */
+  async getLastSequence(): Promise<number> {
+    return Number(
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageEventLogAbi,
+        functionName: "getLastSequence",
+      })
+    );
+  }
+
+  /**
+   * @dev Get the ring index the next message will be stored at
+   * @return The current index
+   */
+  async getCurrentIndex(): Promise<number> {
+    return Number(
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageEventLogAbi,
+        functionName: "getCurrentIndex",
+      })
+    );
+  }
+
+  /**
+   * @dev Read the capacity and maximum message size, which are fixed at
+   * deployment, caching them after the first call
+   * @return The board's configuration
+   */
+  async getConfig(): Promise<BoardConfig> {
+    this.config ??= Promise.all(
+      (["getCapacity", "getMaxMessageSize"] as const).map((functionName) =>
+        this.publicClient.readContract({
+          address: this.address,
+          abi: messageStorageEventLogAbi,
+          functionName,
+        })
+      )
+    ).then(([capacity, maxMessageSize]) => ({
+      capacity: Number(capacity),
+      maxMessageSize: Number(maxMessageSize),
+    }));
+
+    // Don't cache failed reads
+    this.config.catch(() => {
+      this.config = undefined;
+    });
+    return this.config;
+  }
+
+  // Replay MessageStored logs up to a block, keeping the newest per index
+  private async readEntries(
+    toBlock: bigint
+  ): Promise<Map<number, LoggedEntry>> {
+    const entries = new Map<number, LoggedEntry>();
+    const head = Number(toBlock);
+
+    for (let from = this.fromBlock; from <= head; from += this.batchSize) {
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: messageStorageEventLogAbi,
+        eventName: "MessageStored",
+        fromBlock: BigInt(from),
+        toBlock: BigInt(Math.min(from + this.batchSize - 1, head)),
+        strict: true,
+      });
+
+      for (const { args } of logs) {
+        entries.set(Number(args.index), {
+          sequence: Number(args.sequence),
+          author: args.author,
+          timestamp: Number(args.timestamp),
+          message: args.message,
+        });
+      }
+    }
+    return entries;
+  }
+
+  // Check an entry read from logs against its commitment at the same block
+  private async verifyEntry(
+    index: number,
+    entry: LoggedEntry | undefined,
+    blockNumber: bigint
+  ): Promise<StoredMessage> {
+    const commitment = await this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageEventLogAbi,
+      functionName: "getCommitment",
+      args: [BigInt(index)],
+      blockNumber,
+    });
+
+    if (entry === undefined) {
+      if (BigInt(commitment) !== 0n) {
+        throw new Error(
+          `No MessageStored log found for index ${index} since block ${this.fromBlock}`
+        );
+      }
+      return {
+        sequence: 0,
+        index,
+        kind: "text",
+        text: "",
+        timestamp: new Date(0),
+        author: zeroAddress,
+      };
+    }
+
+    if (commitment !== commitEntry(entry)) {
+      throw new Error(
+        `MessageStored log for index ${index} does not match its on-chain commitment`
+      );
+    }
+    return {
+      sequence: entry.sequence,
+      index,
+      ...decodePayload(entry.message),
+      timestamp: new Date(entry.timestamp * 1000),
+      author: entry.author,
+    };
+  }
+}
+
+// The commitment MessageStorageEventLog stores for an entry
+function commitEntry({ sequence, author, timestamp, message }: LoggedEntry) {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "address" },
+        { type: "uint32" },
+        { type: "bytes32" },
+      ],
+      [BigInt(sequence), author, timestamp, keccak256(message)]
+    )
+  );
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import type { Hash, Hex } from "viem";
+import { decodePayload } from "./codec";
+import type { StoredMessage } from "./MessageStorageClient";
+
+// A message recovered from a MessageStored event, with its chain position
+export interface IndexedMessage extends StoredMessage {
+  payload: Hex;
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+// A block the indexer has processed, used to detect reorgs
+export interface BlockCheckpoint {
+  number: number;
+  hash: Hash;
+}
+
+export interface HistoryState {
+  // Next block to scan for events
+  nextBlock: number;
+  // Recent processed blocks, oldest first
+  checkpoints: BlockCheckpoint[];
+  // Every indexed message, in chain order
+  messages: IndexedMessage[];
+}
+
+export interface HistoryStore {
+  load(): Promise<HistoryState | undefined>;
+  save(state: HistoryState): Promise<void>;
+}
+
+// Bumped whenever the on-disk format changes incompatibly
+const FILE_FORMAT_VERSION = 3;
+
+// On-disk form of an IndexedMessage (Dates become unix seconds)
+type SerializedMessage = Omit<IndexedMessage, "timestamp"> & {
+  timestamp: number;
+};
+
+interface HistoryFile {
+  version: number;
+  nextBlock: number;
+  checkpoints: BlockCheckpoint[];
+  messages: SerializedMessage[];
+}
+
+/**
+ * @title FileHistoryStore
+ * @dev Persists indexer state as a single JSON file, replaced atomically on
+ * every save so a crash never leaves a half-written history behind
+ */
+export class FileHistoryStore implements HistoryStore {
+  constructor(public readonly filePath: string) {}
+
+  async load(): Promise<HistoryState | undefined> {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+
+    const file: HistoryFile = JSON.parse(
+      await fs.promises.readFile(this.filePath, "utf8")
+    );
+    if (file.version !== FILE_FORMAT_VERSION) {
+      throw new Error(
+        `Unsupported history file version ${file.version} in ${this.filePath}`
+      );
+    }
+
+    return {
+      nextBlock: file.nextBlock,
+      checkpoints: file.checkpoints,
+      // Kind and text are decoded again from the payload, so files written
+      // before direct message parts were told apart still load correctly
+      messages: file.messages.map((message) => ({
+        ...message,
+        ...decodePayload(message.payload),
+        timestamp: new Date(message.timestamp * 1000),
+      })),
+    };
+  }
+
+  async save(state: HistoryState): Promise<void> {
+    const file: HistoryFile = {
+      version: FILE_FORMAT_VERSION,
+      nextBlock: state.nextBlock,
+      checkpoints: state.checkpoints,
+      messages: state.messages.map((message) => ({
+        ...message,
+        timestamp: message.timestamp.getTime() / 1000,
+      })),
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write next to the target and rename over it
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(file, null, 2));
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * @title MemoryHistoryStore
+ * @dev Keeps indexer state in memory, for watching without a history file.
+ * State is copied in and out, so changes only land through save, as with a
+ * file
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  private state?: HistoryState;
+
+  async load(): Promise<HistoryState | undefined> {
+    return this.state && structuredClone(this.state);
+  }
+
+  async save(state: HistoryState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
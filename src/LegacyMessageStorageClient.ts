@@ -0,0 +1,310 @@
+import {
+  bytesToHex,
+  hexToBytes,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import { legacyMessageStorageAbi } from "./abi";
+import { BYTES_PER_SLOT, ringOrder } from "./codec";
+
+// Shape of an original board, fixed in the contract
+export const LEGACY_MAX_MESSAGES = 16;
+export const LEGACY_MESSAGE_SIZE_BYTES = 60;
+
+// storeMessage overwrites message bytes 32-35 with the timestamp, so only
+// the first word of a message survives intact
+export const LEGACY_INTACT_MESSAGE_BYTES = BYTES_PER_SLOT;
+const TIMESTAMP_SIZE_BYTES = 4;
+
+// Padding byte used to fill messages up to LEGACY_MESSAGE_SIZE_BYTES
+const PAD_BYTE = 0x20;
+
+// A message read from an original board, which keeps neither sequence
+// numbers nor authors
+export interface LegacyMessage {
+  index: number;
+  text: string;
+  timestamp: Date;
+}
+
+// Result of a confirmed storeMessage transaction on an original board
+export interface LegacyStoreMessageResult {
+  hash: Hash;
+  message: LegacyMessage;
+  receipt: TransactionReceipt;
+}
+
+export interface LegacyWatchMessagesOptions {
+  onMessage: (message: LegacyMessage) => void;
+  // Called for every failed poll; watching continues with the next one
+  onError?: (error: unknown) => void;
+  // First block to deliver messages from (defaults to the next block)
+  fromBlock?: number;
+  // Delay between polls, and before retrying a failed one, in milliseconds
+  pollingInterval?: number;
+}
+
+export interface LegacyMessageStorageClientConfig {
+  address: Address;
+  publicClient: PublicClient;
+  // Only required for write calls
+  walletClient?: WalletClient;
+}
+
+/**
+ * @title LegacyMessageStorageClient
+ * @dev Reads and writes the original MessageStorage (ABI version 1 in
+ * deployment manifests): a fixed ring of 16 space-padded 60-byte messages
+ * with no sequence numbers or authors. Messages are read one slot at a time
+ * through getMessage, since that board's getAllMessages doesn't return what
+ * is stored
+ */
+export class LegacyMessageStorageClient {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+  public readonly walletClient?: WalletClient;
+
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+  }: LegacyMessageStorageClientConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /**
+   * @dev Store a message and wait for it to be mined
+   * @param text The message to store (1 to 32 UTF-8 bytes, the part the
+   * board keeps intact)
+   * @return The transaction hash, receipt and the message as stored
+   */
+  async storeMessage(text: string): Promise<LegacyStoreMessageResult> {
+    const walletClient = this.requireWalletClient();
+    const payload = encodeLegacyMessage(text);
+
+    const hash = await walletClient.writeContract({
+      address: this.address,
+      abi: legacyMessageStorageAbi,
+      functionName: "storeMessage",
+      args: [payload],
+      account: walletClient.account ?? null,
+      chain: walletClient.chain,
+    });
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    const [stored] = parseEventLogs({
+      abi: legacyMessageStorageAbi,
+      eventName: "MessageStored",
+      logs: receipt.logs,
+    });
+    if (stored === undefined) {
+      throw new Error(`Transaction ${hash} did not emit MessageStored`);
+    }
+
+    return {
+      hash,
+      message: {
+        index: Number(stored.args.index),
+        text: decodeLegacyMessage(hexToBytes(payload)),
+        timestamp: toDate(stored.args.timestamp),
+      },
+      receipt,
+    };
+  }
+
+  /**
+   * @dev Read and decode the message stored at a ring index
+   * @param index The index in the circular buffer (0 to 15)
+   * @param blockNumber Read the slot as of this block (the latest by default)
+   * @return The decoded message; a never-written slot reads as empty text at
+   * the epoch
+   */
+  async getMessage(
+    index: number,
+    blockNumber?: number
+  ): Promise<LegacyMessage> {
+    if (!Number.isInteger(index) || index < 0 || index >= LEGACY_MAX_MESSAGES) {
+      throw new Error(
+        `Index ${index} is outside the board's ${LEGACY_MAX_MESSAGES} entries`
+      );
+    }
+
+    const [part1, part2, timestamp] = await this.publicClient.readContract({
+      address: this.address,
+      abi: legacyMessageStorageAbi,
+      functionName: "getMessage",
+      args: [BigInt(index)],
+      blockNumber: blockNumber === undefined ? undefined : BigInt(blockNumber),
+    });
+
+    return {
+      index,
+      text: decodeLegacyMessage(partsToBytes(part1, part2)),
+      timestamp: toDate(timestamp),
+    };
+  }
+
+  /**
+   * @dev Read and decode every written slot of the circular buffer
+   * @return The decoded messages, oldest first
+   */
+  async getAllMessages(): Promise<LegacyMessage[]> {
+    const blockNumber = Number(await this.publicClient.getBlockNumber());
+    const currentIndex = await this.getCurrentIndex(blockNumber);
+
+    const messages = await Promise.all(
+      ringOrder(currentIndex, LEGACY_MAX_MESSAGES).map((index) =>
+        this.getMessage(index, blockNumber)
+      )
+    );
+    // Every stored message has a nonzero timestamp
+    return messages.filter((message) => message.timestamp.getTime() > 0);
+  }
+
+  /**
+   * @dev Poll for new MessageStored events and deliver each message, read
+   * from its slot as of the block that stored it
+   * @param options Callbacks, the first block and the polling interval
+   * @return A function that stops watching
+   */
+  watchMessages({
+    onMessage,
+    onError,
+    fromBlock,
+    pollingInterval = 4000,
+  }: LegacyWatchMessagesOptions): () => void {
+    let watching = true;
+    let timer: NodeJS.Timeout | undefined;
+    let nextBlock = fromBlock;
+
+    const catchUp = async () => {
+      const head = Number(await this.publicClient.getBlockNumber());
+      nextBlock ??= head + 1;
+      if (head < nextBlock) {
+        return;
+      }
+
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: legacyMessageStorageAbi,
+        eventName: "MessageStored",
+        fromBlock: BigInt(nextBlock),
+        toBlock: BigInt(head),
+        strict: true,
+      });
+      // Read everything before delivering, so a failed read retries the
+      // whole range without repeating messages. A later write to the same
+      // slot in the same block would be read instead, which takes 16
+      // messages in one block
+      const messages = await Promise.all(
+        logs.map((log) =>
+          this.getMessage(Number(log.args.index), Number(log.blockNumber))
+        )
+      );
+      nextBlock = head + 1;
+      for (const message of messages) {
+        if (watching) {
+          onMessage(message);
+        }
+      }
+    };
+
+    const tick = async () => {
+      try {
+        await catchUp();
+      } catch (error) {
+        onError?.(error);
+      }
+      if (watching) {
+        timer = setTimeout(tick, pollingInterval);
+      }
+    };
+    void tick();
+
+    return () => {
+      watching = false;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * @dev Get the ring index the next message will be stored at
+   * @param blockNumber Read the index as of this block (the latest by default)
+   * @return The current index
+   */
+  async getCurrentIndex(blockNumber?: number): Promise<number> {
+    const currentIndex = await this.publicClient.readContract({
+      address: this.address,
+      abi: legacyMessageStorageAbi,
+      functionName: "getCurrentIndex",
+      blockNumber: blockNumber === undefined ? undefined : BigInt(blockNumber),
+    });
+
+    return Number(currentIndex);
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (this.walletClient === undefined) {
+      throw new Error("A walletClient is required to store messages");
+    }
+    return this.walletClient;
+  }
+}
+
+// Encode text into the fixed 60-byte format, padded with spaces
+function encodeLegacyMessage(text: string): Hex {
+  const messageBytes = new TextEncoder().encode(text);
+
+  if (messageBytes.length === 0) {
+    throw new RangeError("Message is empty");
+  }
+  if (messageBytes.length > LEGACY_INTACT_MESSAGE_BYTES) {
+    throw new RangeError(
+      `Message is ${messageBytes.length} bytes, maximum is ${LEGACY_INTACT_MESSAGE_BYTES} on a version 1 board`
+    );
+  }
+
+  const result = new Uint8Array(LEGACY_MESSAGE_SIZE_BYTES).fill(PAD_BYTE);
+  result.set(messageBytes);
+  return bytesToHex(result);
+}
+
+// Decode a 60-byte message, dropping padding and NUL bytes
+function decodeLegacyMessage(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8")
+    .decode(bytes)
+    .replace(/\u0000/g, "")
+    .trim();
+}
+
+// Reassemble the message bytes from the two words returned by getMessage,
+// with the unrecoverable bytes 32-35 zeroed
+function partsToBytes(part1: Hex, part2: Hex): Uint8Array {
+  const result = new Uint8Array(LEGACY_MESSAGE_SIZE_BYTES);
+
+  result.set(hexToBytes(part1, { size: BYTES_PER_SLOT }), 0);
+  result.set(
+    hexToBytes(part2, { size: BYTES_PER_SLOT }).subarray(
+      TIMESTAMP_SIZE_BYTES,
+      LEGACY_MESSAGE_SIZE_BYTES - BYTES_PER_SLOT
+    ),
+    BYTES_PER_SLOT + TIMESTAMP_SIZE_BYTES
+  );
+
+  return result;
+}
+
+// Contract timestamps are uint32 seconds since the epoch
+function toDate(timestamp: number | bigint): Date {
+  return new Date(Number(timestamp) * 1000);
+}
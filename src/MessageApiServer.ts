@@ -0,0 +1,439 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type { Address, PublicClient } from "viem";
+import type { MessageKind } from "./codec";
+import type { HistoryStore } from "./HistoryStore";
+import { getMessagePage } from "./messageQueries";
+import {
+  MessageStorageClient,
+  type MessagePage,
+  type MessagePageQuery,
+  type StoredMessage,
+} from "./MessageStorageClient";
+
+export interface MessageApiServerConfig {
+  address: Address;
+  publicClient: PublicClient;
+  // Indexed history (e.g. the file written by scripts/index-history.ts) to
+  // also serve messages the buffer has overwritten
+  history?: HistoryStore;
+  // Delay between polls for new messages to stream, in milliseconds
+  pollingInterval?: number;
+  // Delay between keep-alive comments on open streams, in milliseconds
+  heartbeatInterval?: number;
+  // Called with failures the server recovers from: board reads answered with
+  // a 500, replays that close a stream and polls for streamed messages
+  onError?: (error: unknown) => void;
+}
+
+// A message as served by the API
+export interface MessageJson {
+  sequence: number;
+  index: number;
+  // ISO 8601 block time
+  timestamp: string;
+  author: Address;
+  // "direct" for a part of an encrypted direct message, whose text is empty
+  kind: MessageKind;
+  text: string;
+}
+
+// The board's shape and write position, included in every response
+export interface RingMetadata {
+  contract: Address;
+  chainId: number;
+  capacity: number;
+  maxMessageSize: number;
+  // Ring index the next message will be stored at
+  currentIndex: number;
+  // Sequence number of the newest message, 0 before the first
+  lastSequence: number;
+}
+
+// What GET /messages answers with
+export interface MessagesResponse {
+  ring: RingMetadata;
+  messages: MessageJson[];
+  // The `after` of the next page; null on the last page
+  nextCursor: number | null;
+}
+
+// What GET /messages/:index answers with
+export interface MessageResponse {
+  ring: RingMetadata;
+  message: MessageJson;
+}
+
+// An open event stream and the newest message it has been sent
+interface Subscriber {
+  response: http.ServerResponse;
+  lastSequence: number;
+  // Messages that arrived while older ones were still being replayed
+  pending?: StoredMessage[];
+}
+
+// A request the server refuses, answered with its status instead of 500
+class RequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * @title MessageApiServer
+ * @dev Serves a board's decoded messages over a small read-only HTTP API:
+ * - GET /status answers with the RingMetadata
+ * - GET /messages answers with a page of messages, oldest first, filtered
+ *   by the since, until, after and limit query parameters
+ * - GET /messages/:index answers with the message at a ring index
+ * - GET /messages/stream streams new messages as Server-Sent Events, each
+ *   with its sequence number as the event ID so reconnects resume
+ */
+export class MessageApiServer {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+  public readonly history?: HistoryStore;
+
+  private readonly client: MessageStorageClient;
+  private readonly pollingInterval: number;
+  private readonly heartbeatInterval: number;
+  private readonly onError?: (error: unknown) => void;
+  private server?: http.Server;
+  private readonly subscribers = new Set<Subscriber>();
+  // Stops the shared watcher, running while anyone is subscribed
+  private unwatch?: () => void;
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor({
+    address,
+    publicClient,
+    history,
+    pollingInterval = 4000,
+    heartbeatInterval = 15000,
+    onError,
+  }: MessageApiServerConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.history = history;
+    this.pollingInterval = pollingInterval;
+    this.heartbeatInterval = heartbeatInterval;
+    this.onError = onError;
+    this.client = new MessageStorageClient({ address, publicClient });
+  }
+
+  /**
+   * @dev Describe the board and where it will write next
+   * @return The ring metadata
+   */
+  async getRing(): Promise<RingMetadata> {
+    const [{ capacity, maxMessageSize }, chainId, currentIndex, lastSequence] =
+      await Promise.all([
+        this.client.getConfig(),
+        this.publicClient.getChainId(),
+        this.client.getCurrentIndex(),
+        this.client.getLastSequence(),
+      ]);
+
+    return {
+      contract: this.address,
+      chainId,
+      capacity,
+      maxMessageSize,
+      currentIndex,
+      lastSequence,
+    };
+  }
+
+  /**
+   * @dev Start serving the HTTP API
+   * @param port The port to listen on (0 picks a free one)
+   * @param host The interface to bind, local only by default
+   * @return The URL the server is reachable at
+   */
+  async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    if (this.server !== undefined) {
+      throw new Error("The API server is already listening");
+    }
+
+    const server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * @dev Stop serving, ending open event streams
+   */
+  async close(): Promise<void> {
+    for (const subscriber of this.subscribers) {
+      subscriber.response.end();
+    }
+    this.subscribers.clear();
+    this.stopWatching();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server !== undefined) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+  }
+
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        // Read-only, so any dashboard may call it
+        "Access-Control-Allow-Origin": "*",
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const get = request.method === "GET";
+      const indexMatch = /^\/messages\/([^/]+)$/.exec(url.pathname);
+
+      if (get && url.pathname === "/status") {
+        reply(200, await this.getRing());
+      } else if (get && url.pathname === "/messages") {
+        reply(200, await this.getMessages(url.searchParams));
+      } else if (get && url.pathname === "/messages/stream") {
+        await this.stream(request, response);
+      } else if (get && indexMatch !== null) {
+        reply(200, await this.getMessage(indexMatch[1]));
+      } else {
+        reply(404, { error: `No route for ${request.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      if (error instanceof RequestError) {
+        reply(error.status, { error: error.message });
+      } else {
+        this.onError?.(error);
+        reply(500, { error: "Reading the board failed" });
+      }
+    }
+  }
+
+  private async getMessages(
+    params: URLSearchParams
+  ): Promise<MessagesResponse> {
+    const query: MessagePageQuery = {
+      after: parseCount(params, "after"),
+      from: parseTime(params, "since"),
+      to: parseTime(params, "until"),
+      limit: parseCount(params, "limit"),
+    };
+    if (query.limit === 0) {
+      throw new RequestError(400, "limit must be at least 1");
+    }
+    if (query.from && query.to && query.from > query.to) {
+      throw new RequestError(400, "since must not be after until");
+    }
+
+    const [ring, page] = await Promise.all([
+      this.getRing(),
+      this.readPage(query),
+    ]);
+    return {
+      ring,
+      messages: page.messages.map(toMessageJson),
+      nextCursor: page.nextCursor ?? null,
+    };
+  }
+
+  private async getMessage(rawIndex: string): Promise<MessageResponse> {
+    if (!/^\d+$/.test(rawIndex)) {
+      throw new RequestError(400, "index must be a non-negative integer");
+    }
+    const index = Number(rawIndex);
+
+    const ring = await this.getRing();
+    if (index >= ring.capacity) {
+      throw new RequestError(
+        404,
+        `Index ${index} is outside the ring (capacity ${ring.capacity})`
+      );
+    }
+    const message = await this.client.getMessage(index);
+    // Only never-written entries have a zero header; a written message can
+    // still decode to empty text
+    if (message.sequence === 0) {
+      throw new RequestError(404, `No message at index ${index}`);
+    }
+    return { ring, message: toMessageJson(message) };
+  }
+
+  // Open an event stream, first replaying what the client missed if it
+  // reconnects with a Last-Event-ID
+  private async stream(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const lastEventId = request.headers["last-event-id"];
+    const resumeFrom =
+      typeof lastEventId === "string" && /^\d+$/.test(lastEventId)
+        ? Number(lastEventId)
+        : undefined;
+
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    });
+    // Sends the headers, so clients know the stream is open
+    response.write(": connected\n\n");
+
+    const subscriber: Subscriber = {
+      response,
+      lastSequence: resumeFrom ?? 0,
+      pending: resumeFrom === undefined ? undefined : [],
+    };
+    this.subscribers.add(subscriber);
+    response.once("close", () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) {
+        this.stopWatching();
+      }
+    });
+    this.startWatching();
+
+    if (resumeFrom === undefined) {
+      return;
+    }
+    try {
+      let after: number | undefined = resumeFrom;
+      while (after !== undefined && this.subscribers.has(subscriber)) {
+        const page = await this.readPage({ after });
+        page.messages.forEach((message) => this.send(subscriber, message));
+        after = page.nextCursor;
+      }
+    } catch (error) {
+      this.onError?.(error);
+      response.end();
+      return;
+    }
+
+    const pending = subscriber.pending ?? [];
+    subscriber.pending = undefined;
+    pending.forEach((message) => this.send(subscriber, message));
+  }
+
+  private send(subscriber: Subscriber, message: StoredMessage): void {
+    if (subscriber.pending !== undefined) {
+      subscriber.pending.push(message);
+      return;
+    }
+    // Replayed pages and the watcher can both deliver a message
+    if (message.sequence <= subscriber.lastSequence) {
+      return;
+    }
+    subscriber.lastSequence = message.sequence;
+    subscriber.response.write(
+      `id: ${message.sequence}\nevent: message\ndata: ${JSON.stringify(
+        toMessageJson(message)
+      )}\n\n`
+    );
+  }
+
+  private startWatching(): void {
+    if (this.unwatch !== undefined) {
+      return;
+    }
+
+    this.unwatch = this.client.watchMessages({
+      replay: false,
+      pollingInterval: this.pollingInterval,
+      onMessage: (message) => {
+        for (const subscriber of this.subscribers) {
+          this.send(subscriber, message);
+        }
+      },
+      onError: this.onError,
+    });
+    this.heartbeat = setInterval(() => {
+      for (const { response } of this.subscribers) {
+        response.write(": keep-alive\n\n");
+      }
+    }, this.heartbeatInterval);
+    this.heartbeat.unref();
+  }
+
+  private stopWatching(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+
+  private async readPage(query: MessagePageQuery): Promise<MessagePage> {
+    const history = (await this.history?.load())?.messages;
+    return getMessagePage(this.client, { ...query, history });
+  }
+}
+
+/**
+ * Convert a message to the form served by the API
+ * @param message The decoded message
+ * @returns The JSON-safe message
+ */
+export function toMessageJson({
+  sequence,
+  index,
+  timestamp,
+  author,
+  kind,
+  text,
+}: StoredMessage): MessageJson {
+  return {
+    sequence,
+    index,
+    timestamp: timestamp.toISOString(),
+    author,
+    kind,
+    text,
+  };
+}
+
+// Read an optional non-negative integer query parameter
+function parseCount(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new RequestError(400, `${name} must be a non-negative integer`);
+  }
+  return Number(raw);
+}
+
+// Read an optional time query parameter, as unix seconds or ISO 8601
+function parseTime(params: URLSearchParams, name: string): Date | undefined {
+  const raw = params.get(name);
+  if (raw === null) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(raw) ? new Date(Number(raw) * 1000) : new Date(raw);
+  if (Number.isNaN(time.getTime())) {
+    throw new RequestError(
+      400,
+      `${name} must be unix seconds or an ISO 8601 time`
+    );
+  }
+  return time;
+}
@@ -0,0 +1,259 @@
+import { BlockNotFoundError, type Address, type PublicClient } from "viem";
+import { messageStorageAbi } from "./abi";
+import { decodePayload } from "./codec";
+import type {
+  BlockCheckpoint,
+  HistoryState,
+  HistoryStore,
+  IndexedMessage,
+} from "./HistoryStore";
+
+export interface MessageIndexerConfig {
+  address: Address;
+  publicClient: PublicClient;
+  store: HistoryStore;
+  // First block to backfill from when the store is empty
+  fromBlock?: number;
+  // Maximum number of blocks requested per getLogs call
+  batchSize?: number;
+  // Number of processed blocks remembered for reorg detection
+  reorgDepth?: number;
+  // Delay between syncs while following new blocks, in milliseconds
+  pollingInterval?: number;
+}
+
+// Outcome of a single sync pass
+export interface SyncResult {
+  added: IndexedMessage[];
+  // Messages dropped because their block was reorged out
+  removed: IndexedMessage[];
+}
+
+export interface WatchOptions {
+  onSync?: (result: SyncResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * @title MessageIndexer
+ * @dev Rebuilds the full message history from MessageStored events, so
+ * messages survive being overwritten in the on-chain circular buffer
+ */
+export class MessageIndexer {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+  public readonly store: HistoryStore;
+
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+  private readonly pollingInterval: number;
+
+  private syncing?: Promise<SyncResult>;
+  private timer?: NodeJS.Timeout;
+  private watching = false;
+
+  constructor({
+    address,
+    publicClient,
+    store,
+    fromBlock = 0,
+    batchSize = 1000,
+    reorgDepth = 64,
+    pollingInterval = 4000,
+  }: MessageIndexerConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.store = store;
+    this.fromBlock = fromBlock;
+    this.batchSize = batchSize;
+    this.reorgDepth = reorgDepth;
+    this.pollingInterval = pollingInterval;
+  }
+
+  /**
+   * @dev Bring the store up to the current chain head, undoing any blocks
+   * that were reorged out since the last sync
+   * @return The messages added and removed by this pass
+   */
+  async sync(): Promise<SyncResult> {
+    // Never run two passes over the same store concurrently
+    if (this.syncing === undefined) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * @dev Read the indexed history
+   * @return Every indexed message, in chain order
+   */
+  async getHistory(): Promise<IndexedMessage[]> {
+    return (await this.loadState()).messages;
+  }
+
+  /**
+   * @dev Keep syncing every pollingInterval until stop() is called
+   * @param options Callbacks for sync results and errors
+   */
+  start({ onSync, onError }: WatchOptions = {}): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+
+    const tick = async () => {
+      try {
+        const result = await this.sync();
+        if (result.added.length > 0 || result.removed.length > 0) {
+          onSync?.(result);
+        }
+      } catch (error) {
+        onError?.(error);
+      }
+
+      if (this.watching) {
+        this.timer = setTimeout(tick, this.pollingInterval);
+      }
+    };
+    void tick();
+  }
+
+  /**
+   * @dev Stop following new blocks, waiting for an in-flight sync to finish
+   */
+  async stop(): Promise<void> {
+    this.watching = false;
+    clearTimeout(this.timer);
+    await this.syncing?.catch(() => undefined);
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const state = await this.loadState();
+    const added: IndexedMessage[] = [];
+
+    const scannedUpTo = state.nextBlock;
+    const removed = await this.rewindReorgedBlocks(state);
+    const head = Number(await this.publicClient.getBlockNumber());
+
+    // A pass that drops messages is only saved once it completes, so a
+    // failure can't persist removals that were never reported
+    const saveEachBatch = removed.length === 0;
+    if (saveEachBatch && state.nextBlock !== scannedUpTo) {
+      await this.store.save(state);
+    }
+
+    while (state.nextBlock <= head) {
+      const fromBlock = state.nextBlock;
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+
+      const block = await this.publicClient.getBlock({
+        blockNumber: BigInt(toBlock),
+      });
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: messageStorageAbi,
+        eventName: "MessageStored",
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        strict: true,
+      });
+
+      for (const log of logs) {
+        const message: IndexedMessage = {
+          sequence: Number(log.args.sequence),
+          index: Number(log.args.index),
+          ...decodePayload(log.args.message),
+          timestamp: new Date(Number(log.args.timestamp) * 1000),
+          author: log.args.author,
+          payload: log.args.message,
+          blockNumber: Number(log.blockNumber),
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+        };
+        state.messages.push(message);
+        added.push(message);
+        this.addCheckpoint(state, {
+          number: message.blockNumber,
+          hash: message.blockHash,
+        });
+      }
+
+      this.addCheckpoint(state, { number: toBlock, hash: block.hash });
+      state.nextBlock = toBlock + 1;
+
+      // Persist after every batch so a long backfill can resume
+      if (saveEachBatch) {
+        await this.store.save(state);
+      }
+    }
+
+    if (!saveEachBatch) {
+      await this.store.save(state);
+    }
+    return { added, removed };
+  }
+
+  // Drop checkpoints (and their messages) that are no longer canonical
+  private async rewindReorgedBlocks(
+    state: HistoryState
+  ): Promise<IndexedMessage[]> {
+    while (state.checkpoints.length > 0) {
+      const latest = state.checkpoints[state.checkpoints.length - 1];
+      const canonicalHash = await this.publicClient
+        .getBlock({ blockNumber: BigInt(latest.number) })
+        .then((block) => block.hash)
+        .catch((error) => {
+          // A missing block was reorged out; any other failure (a timeout,
+          // a rate limit) says nothing about the chain, so give up the pass
+          if (error instanceof BlockNotFoundError) {
+            return undefined;
+          }
+          throw error;
+        });
+
+      if (canonicalHash === latest.hash) {
+        break;
+      }
+      state.checkpoints.pop();
+    }
+
+    // A reorg deeper than reorgDepth forces a full rebuild
+    const ancestor = state.checkpoints[state.checkpoints.length - 1];
+    const resumeBlock = ancestor ? ancestor.number + 1 : this.fromBlock;
+    if (resumeBlock >= state.nextBlock) {
+      return [];
+    }
+
+    const removed = state.messages.filter((m) => m.blockNumber >= resumeBlock);
+    state.messages = state.messages.filter((m) => m.blockNumber < resumeBlock);
+    state.nextBlock = resumeBlock;
+
+    return removed;
+  }
+
+  private addCheckpoint(state: HistoryState, checkpoint: BlockCheckpoint) {
+    const last = state.checkpoints[state.checkpoints.length - 1];
+    if (last?.number === checkpoint.number) {
+      return;
+    }
+
+    state.checkpoints.push(checkpoint);
+    if (state.checkpoints.length > this.reorgDepth) {
+      state.checkpoints.shift();
+    }
+  }
+
+  private async loadState(): Promise<HistoryState> {
+    return (
+      (await this.store.load()) ?? {
+        nextBlock: this.fromBlock,
+        checkpoints: [],
+        messages: [],
+      }
+    );
+  }
+}
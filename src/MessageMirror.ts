@@ -0,0 +1,307 @@
+import { size, type Hash, type Hex } from "viem";
+import { messageStorageAbi } from "./abi";
+import type { MessageStorageClient } from "./MessageStorageClient";
+import {
+  mirrorTargetKey,
+  type BoardLocation,
+  type MirrorProgress,
+  type MirrorProgressStore,
+} from "./MirrorProgressStore";
+
+export interface MessageMirrorConfig {
+  // The board to copy messages from
+  source: MessageStorageClient;
+  // The boards to copy them to; each needs a walletClient allowed to write
+  targets: MessageStorageClient[];
+  store: MirrorProgressStore;
+  // First source block to mirror from when the store is empty
+  fromBlock?: number;
+  // Only mirror messages this many blocks below the source's head, so
+  // reorged-out messages aren't copied
+  confirmations?: number;
+  // Maximum number of blocks requested per getLogs call
+  batchSize?: number;
+  // Delay between syncs while following new blocks, in milliseconds
+  pollingInterval?: number;
+}
+
+// What happened to one source message on one target
+export interface MirrorOutcome {
+  target: BoardLocation;
+  sourceSequence: number;
+  // mirrored: stored by this pass
+  // already-mirrored: the target had it, e.g. from a pass that crashed
+  //   before saving its progress
+  // too-long: over the target's maximum message size
+  // is-mirror: itself a copy from another chain, which isn't copied again
+  //   so boards that mirror each other don't loop
+  // unsequenced: logged without a sequence number, which targets can't
+  //   record a copy under
+  status:
+    | "mirrored"
+    | "already-mirrored"
+    | "too-long"
+    | "is-mirror"
+    | "unsequenced";
+  // Set when mirrored
+  hash?: Hash;
+  sequence?: number;
+}
+
+// A target a sync pass couldn't bring up to date
+export interface MirrorFailure {
+  target: BoardLocation;
+  error: unknown;
+}
+
+// Outcome of a single sync pass
+export interface MirrorSyncResult {
+  outcomes: MirrorOutcome[];
+  // Targets that failed; they are retried from their saved progress
+  failures: MirrorFailure[];
+}
+
+export interface MirrorWatchOptions {
+  onSync?: (result: MirrorSyncResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+// A MessageStored event of the source board
+interface SourceMessage {
+  sequence: number;
+  message: Hex;
+  // Stored by storeMirroredMessage
+  isMirror: boolean;
+}
+
+/**
+ * @title MessageMirror
+ * @dev Copies every message stored on a source board to boards on other
+ * chains with storeMirroredMessage. Targets record the source chain, board
+ * and sequence number of each copy and refuse a second one, and progress is
+ * saved per target after every batch, so restarts resume where they left
+ * off without mirroring anything twice
+ */
+export class MessageMirror {
+  public readonly source: MessageStorageClient;
+  public readonly targets: readonly MessageStorageClient[];
+  public readonly store: MirrorProgressStore;
+
+  private readonly fromBlock: number;
+  private readonly confirmations: number;
+  private readonly batchSize: number;
+  private readonly pollingInterval: number;
+
+  private syncing?: Promise<MirrorSyncResult>;
+  private timer?: NodeJS.Timeout;
+  private watching = false;
+
+  constructor({
+    source,
+    targets,
+    store,
+    fromBlock = 0,
+    confirmations = 2,
+    batchSize = 1000,
+    pollingInterval = 4000,
+  }: MessageMirrorConfig) {
+    if (targets.length === 0) {
+      throw new Error("The mirror needs at least one target");
+    }
+    this.source = source;
+    this.targets = targets;
+    this.store = store;
+    this.fromBlock = fromBlock;
+    this.confirmations = confirmations;
+    this.batchSize = batchSize;
+    this.pollingInterval = pollingInterval;
+  }
+
+  /**
+   * @dev Mirror every confirmed source message each target hasn't had yet
+   * @return What happened to each message, and the targets that failed
+   */
+  async sync(): Promise<MirrorSyncResult> {
+    // Never run two passes over the same store concurrently
+    if (this.syncing === undefined) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * @dev Keep syncing every pollingInterval until stop() is called
+   * @param options Callbacks for sync results and errors
+   */
+  start({ onSync, onError }: MirrorWatchOptions = {}): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+
+    const tick = async () => {
+      try {
+        const result = await this.sync();
+        if (result.outcomes.length > 0 || result.failures.length > 0) {
+          onSync?.(result);
+        }
+      } catch (error) {
+        onError?.(error);
+      }
+
+      if (this.watching) {
+        this.timer = setTimeout(tick, this.pollingInterval);
+      }
+    };
+    void tick();
+  }
+
+  /**
+   * @dev Stop following new blocks, waiting for an in-flight sync to finish
+   */
+  async stop(): Promise<void> {
+    this.watching = false;
+    clearTimeout(this.timer);
+    await this.syncing?.catch(() => undefined);
+  }
+
+  private async runSync(): Promise<MirrorSyncResult> {
+    const sourceChainId = await this.source.publicClient.getChainId();
+    const progress = await this.loadProgress({
+      chainId: sourceChainId,
+      address: this.source.address,
+    });
+    const head =
+      Number(await this.source.publicClient.getBlockNumber()) -
+      this.confirmations;
+
+    const result: MirrorSyncResult = { outcomes: [], failures: [] };
+    // Each target keeps its own progress, so one that fails (e.g. is
+    // unreachable) doesn't hold the others back
+    for (const client of this.targets) {
+      const target = {
+        chainId: await client.publicClient.getChainId(),
+        address: client.address,
+      };
+      if (target.chainId === sourceChainId) {
+        throw new Error(
+          `Target ${client.address} is on the source chain ${sourceChainId}`
+        );
+      }
+
+      try {
+        await this.syncTarget(
+          client,
+          target,
+          sourceChainId,
+          head,
+          progress,
+          result.outcomes
+        );
+      } catch (error) {
+        result.failures.push({ target, error });
+      }
+    }
+
+    return result;
+  }
+
+  private async syncTarget(
+    client: MessageStorageClient,
+    target: BoardLocation,
+    sourceChainId: number,
+    head: number,
+    progress: MirrorProgress,
+    outcomes: MirrorOutcome[]
+  ): Promise<void> {
+    const key = mirrorTargetKey(target);
+    const { maxMessageSize } = await client.getConfig();
+
+    let fromBlock = progress.targets[key] ?? this.fromBlock;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+
+      for (const message of await this.readSource(fromBlock, toBlock)) {
+        const outcome = { target, sourceSequence: message.sequence };
+
+        if (message.isMirror) {
+          outcomes.push({ ...outcome, status: "is-mirror" });
+        } else if (message.sequence === 0) {
+          // Targets revert on it, which would stall this target for good
+          outcomes.push({ ...outcome, status: "unsequenced" });
+        } else if (
+          await client.isMirrored(
+            sourceChainId,
+            this.source.address,
+            message.sequence
+          )
+        ) {
+          outcomes.push({ ...outcome, status: "already-mirrored" });
+        } else if (size(message.message) > maxMessageSize) {
+          outcomes.push({ ...outcome, status: "too-long" });
+        } else {
+          const { hash, sequence } = await client.storeMirroredMessage(
+            message.message,
+            sourceChainId,
+            this.source.address,
+            message.sequence
+          );
+          outcomes.push({ ...outcome, status: "mirrored", hash, sequence });
+        }
+      }
+
+      // Persist after every batch so a long backfill can resume
+      fromBlock = toBlock + 1;
+      progress.targets[key] = fromBlock;
+      await this.store.save(progress);
+    }
+  }
+
+  // Read the source's messages in a block range, in chain order
+  private async readSource(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<SourceMessage[]> {
+    const range = {
+      address: this.source.address,
+      abi: messageStorageAbi,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+      strict: true,
+    } as const;
+    const [stored, mirrored] = await Promise.all([
+      this.source.publicClient.getContractEvents({
+        ...range,
+        eventName: "MessageStored",
+      }),
+      this.source.publicClient.getContractEvents({
+        ...range,
+        eventName: "MessageMirrored",
+      }),
+    ]);
+
+    const mirrors = new Set(mirrored.map((log) => log.args.sequence));
+    return stored.map((log) => ({
+      sequence: Number(log.args.sequence),
+      message: log.args.message,
+      isMirror: mirrors.has(log.args.sequence),
+    }));
+  }
+
+  private async loadProgress(source: BoardLocation): Promise<MirrorProgress> {
+    const progress = await this.store.load();
+    if (progress === undefined) {
+      return { source, targets: {} };
+    }
+
+    if (mirrorTargetKey(progress.source) !== mirrorTargetKey(source)) {
+      throw new Error(
+        `Saved progress belongs to ${progress.source.address} on chain ` +
+          `${progress.source.chainId}, not ${source.address} on chain ${source.chainId}`
+      );
+    }
+    return progress;
+  }
+}
@@ -0,0 +1,314 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  getAddress,
+  isHex,
+  type Account,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { messageStorageAbi } from "./abi";
+import { MessageStorageClient } from "./MessageStorageClient";
+import {
+  parseSignedMessageJson,
+  toSignedMessageJson,
+  verifySignedMessage,
+  type SignedMessage,
+} from "./signedMessages";
+
+export interface MessageRelayerConfig {
+  address: Address;
+  publicClient: PublicClient;
+  // The funded account that pays for submitted messages
+  walletClient: WalletClient;
+  // Largest request body accepted, in bytes
+  maxBodySize?: number;
+  // Called with failures answered with a 500, such as a transaction that
+  // could not be sent or mined
+  onError?: (error: unknown) => void;
+}
+
+// A signed message the relayer got mined
+export interface RelayResult {
+  hash: Hash;
+  sequence: number;
+  index: number;
+  author: Address;
+}
+
+// What GET /status reports, so clients know what to sign for
+export interface RelayerStatus {
+  contract: Address;
+  chainId: number;
+  relayer: Address;
+}
+
+// A request the relayer refuses, answered with 400 instead of 500
+class RejectedRequestError extends Error {}
+
+/**
+ * @title MessageRelayer
+ * @dev Submits messages signed by writers through a funded wallet, so
+ * writers don't need gas. Serves a small HTTP API:
+ * - POST /messages with a SignedMessageJson body stores the message and
+ *   answers with its RelayResult
+ * - GET /status answers with the RelayerStatus
+ */
+export class MessageRelayer {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+  public readonly walletClient: WalletClient;
+
+  private readonly account: Account;
+  private readonly client: MessageStorageClient;
+  private readonly maxBodySize: number;
+  private readonly onError?: (error: unknown) => void;
+  private server?: http.Server;
+  // Submissions run one at a time so nonces are checked against mined state
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+    maxBodySize = 16 * 1024,
+    onError,
+  }: MessageRelayerConfig) {
+    if (walletClient.account === undefined) {
+      throw new Error("The relayer's walletClient needs an account");
+    }
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.account = walletClient.account;
+    this.maxBodySize = maxBodySize;
+    this.onError = onError;
+    this.client = new MessageStorageClient({
+      address,
+      publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * @dev Check a signed message and store it, paying the gas from the
+   * relayer's wallet; nothing is sent for messages the board would reject
+   * @param signed The signed message
+   * @return The transaction hash, sequence number and index of the message
+   */
+  async relay(signed: SignedMessage): Promise<RelayResult> {
+    const chainId = await this.publicClient.getChainId();
+    const valid = await verifySignedMessage(
+      signed,
+      chainId,
+      this.address
+    ).catch(() => false);
+    if (!valid) {
+      throw new RejectedRequestError("Invalid signature");
+    }
+
+    const submit = async (): Promise<RelayResult> => {
+      const nonce = await this.client.getNonce(signed.author);
+      if (signed.nonce !== nonce) {
+        throw new RejectedRequestError(
+          `Nonce ${signed.nonce} is not the author's next nonce (${nonce})`
+        );
+      }
+
+      await this.simulate(signed);
+      const { hash, sequence, index } = await this.client.storeSignedMessage(
+        signed
+      );
+      return { hash, sequence, index, author: getAddress(signed.author) };
+    };
+
+    const result = this.queue.then(submit, submit);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * @dev Describe the board and the paying account
+   * @return The relayer's status
+   */
+  async getStatus(): Promise<RelayerStatus> {
+    return {
+      contract: this.address,
+      chainId: await this.publicClient.getChainId(),
+      relayer: getAddress(this.account.address),
+    };
+  }
+
+  /**
+   * @dev Start serving the HTTP API
+   * @param port The port to listen on (0 picks a free one)
+   * @param host The interface to bind, local only by default
+   * @return The URL the relayer is reachable at
+   */
+  async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    if (this.server !== undefined) {
+      throw new Error("The relayer is already listening");
+    }
+
+    const server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * @dev Stop serving, waiting for open requests and submissions to finish
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server !== undefined) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+    await this.queue;
+  }
+
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    try {
+      if (request.url === "/status" && request.method === "GET") {
+        reply(200, await this.getStatus());
+      } else if (request.url === "/messages" && request.method === "POST") {
+        const body = await this.readBody(request);
+        let signed: SignedMessage;
+        try {
+          signed = parseSignedMessageJson(JSON.parse(body));
+        } catch (error) {
+          throw new RejectedRequestError(
+            error instanceof SyntaxError
+              ? "Request body is not valid JSON"
+              : (error as Error).message
+          );
+        }
+        reply(200, await this.relay(signed));
+      } else {
+        reply(404, { error: `No route for ${request.method} ${request.url}` });
+      }
+    } catch (error) {
+      if (error instanceof RejectedRequestError) {
+        reply(400, { error: error.message });
+      } else {
+        this.onError?.(error);
+        reply(500, { error: "Relaying failed" });
+      }
+    }
+  }
+
+  private async readBody(request: http.IncomingMessage): Promise<string> {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+      if (body.length > this.maxBodySize) {
+        throw new RejectedRequestError(
+          `Request body exceeds ${this.maxBodySize} bytes`
+        );
+      }
+    }
+    return body;
+  }
+
+  // Dry-run storeSignedMessage, turning the board's revert reason (expired,
+  // not a writer, paused, ...) into a rejection
+  private async simulate(signed: SignedMessage): Promise<void> {
+    try {
+      await this.publicClient.simulateContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "storeSignedMessage",
+        args: [
+          signed.message,
+          signed.author,
+          signed.deadline,
+          signed.signature,
+        ],
+        account: this.account,
+      });
+    } catch (error) {
+      const reason = findRevertReason(error);
+      if (reason !== undefined) {
+        throw new RejectedRequestError(reason);
+      }
+      throw error;
+    }
+  }
+}
+
+// Find a revert reason in an error's cause chain. Viem decodes it for most
+// nodes, but Hardhat's in-process network only attaches the raw revert data
+function findRevertReason(error: unknown): string | undefined {
+  for (
+    let cause = error;
+    cause instanceof Error;
+    cause = (cause as { cause?: unknown }).cause
+  ) {
+    if (cause instanceof ContractFunctionRevertedError) {
+      return cause.reason ?? cause.shortMessage;
+    }
+
+    const { data } = cause as { data?: unknown };
+    if (typeof data === "string" && isHex(data) && data.length > 2) {
+      try {
+        const { args } = decodeErrorResult({ abi: messageStorageAbi, data });
+        return String(args?.[0] ?? "storeSignedMessage would revert");
+      } catch {
+        // Not revert data
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Send a signed message to a relayer's HTTP API
+ * @param relayerUrl The relayer's base URL
+ * @param signed The signed message
+ * @returns The transaction hash, sequence number and index of the message
+ */
+export async function submitToRelayer(
+  relayerUrl: string,
+  signed: SignedMessage
+): Promise<RelayResult> {
+  const response = await fetch(new URL("/messages", relayerUrl), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(toSignedMessageJson(signed)),
+  });
+  const body = (await response.json()) as RelayResult | { error: string };
+
+  if (!response.ok || "error" in body) {
+    throw new Error(
+      `Relayer rejected the message (${response.status}): ${
+        "error" in body ? body.error : response.statusText
+      }`
+    );
+  }
+  return body;
+}
@@ -0,0 +1,924 @@
+import {
+  maxUint256,
+  parseEventLogs,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+  type WriteContractParameters,
+} from "viem";
+import { messageStorageAbi } from "./abi";
+import { privateKeyToAddress } from "viem/accounts";
+import { decodePayload, encodeMessage, type MessageKind } from "./codec";
+import {
+  decodeDirectMessagePart,
+  decryptDirectMessage,
+  directMessageHint,
+  encryptDirectMessage,
+  joinDirectMessageParts,
+  splitDirectMessage,
+  type DirectMessageEnvelope,
+  type DirectMessagePart,
+} from "./directMessages";
+import type { IndexedMessage } from "./HistoryStore";
+import {
+  getSignedMessageDomain,
+  signedMessageTypes,
+  SIGNED_MESSAGE_TTL_SECONDS,
+  type SignedMessage,
+} from "./signedMessages";
+
+// A message as read back from the contract
+export interface StoredMessage {
+  // The message's ID: counts up from 1 and, unlike the ring index, is never
+  // reused once the buffer wraps around
+  sequence: number;
+  index: number;
+  // "direct" entries hold part of an encrypted direct message and have no
+  // text; read them with getDirectMessages
+  kind: MessageKind;
+  text: string;
+  timestamp: Date;
+  author: Address;
+}
+
+// Buffer shape fixed when the contract was deployed
+export interface BoardConfig {
+  capacity: number;
+  maxMessageSize: number;
+}
+
+// Result of a confirmed storeMessage transaction
+export interface StoreMessageResult {
+  hash: Hash;
+  sequence: number;
+  index: number;
+  receipt: TransactionReceipt;
+}
+
+// Result of a confirmed storeMessages transaction
+export interface StoreMessagesResult {
+  hash: Hash;
+  sequences: number[];
+  indices: number[];
+  receipt: TransactionReceipt;
+}
+
+// Result of getMessageBySequence: the message, or where it was before
+// newer messages evicted it
+export type MessageLookup =
+  | { status: "stored"; message: StoredMessage }
+  | { status: "overwritten"; sequence: number; index: number };
+
+// A direct message read by getDirectMessages: decrypted, or addressed to
+// the key's holder but failing to decrypt (altered, or another recipient
+// whose address starts with the same bytes)
+export type DirectMessage =
+  | ({ status: "decrypted" } & StoredMessage)
+  | ({ status: "undecryptable"; error: string } & Omit<StoredMessage, "text">);
+
+// Cursor and filters of getMessagesPage
+export interface MessagePageQuery {
+  // Only return messages after this sequence number, e.g. the previous
+  // page's nextCursor
+  after?: number;
+  // Only return messages stored at or after this time
+  from?: Date;
+  // Only return messages stored before this time
+  to?: Date;
+  // Maximum number of messages (the board's capacity by default)
+  limit?: number;
+}
+
+// One page of messages, oldest first
+export interface MessagePage {
+  messages: StoredMessage[];
+  // The `after` of the next page; undefined on the last page
+  nextCursor?: number;
+}
+
+// A message delivered by watchMessages: first the buffer's contents, then
+// each MessageStored event with its position in the chain
+export type WatchedMessage =
+  | ({ source: "buffer" } & StoredMessage)
+  | ({ source: "event" } & IndexedMessage);
+
+export interface WatchMessagesOptions {
+  onMessage: (message: WatchedMessage) => void;
+  // Called for every failed poll; watching continues with the next one
+  onError?: (error: unknown) => void;
+  // Replay the messages already in the buffer first (default true)
+  replay?: boolean;
+  // Delay between polls, and before retrying a failed one, in milliseconds
+  pollingInterval?: number;
+  // Blocks scanned again on every poll, in case the node's logs lag behind
+  // its head (such as behind a load balancer)
+  overlapBlocks?: number;
+}
+
+export interface MessageStorageClientConfig {
+  address: Address;
+  publicClient: PublicClient;
+  // Only required for write calls
+  walletClient?: WalletClient;
+  // Write messages in the compact format when it is shorter, letting up to
+  // 78 characters fit a 60-byte entry (default false)
+  compact?: boolean;
+}
+
+/**
+ * @title MessageStorageClient
+ * @dev Typed wrapper around a deployed MessageStorage contract that handles
+ * encoding to and decoding from its entries: raw UTF-8 or, with the compact
+ * option, 6-bit packed text, up to the board's maxMessageSize bytes
+ */
+export class MessageStorageClient {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+  public readonly walletClient?: WalletClient;
+
+  private readonly compact: boolean;
+  private config?: Promise<BoardConfig>;
+
+  constructor({
+    address,
+    publicClient,
+    walletClient,
+    compact = false,
+  }: MessageStorageClientConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.compact = compact;
+  }
+
+  /**
+   * @dev Store a message and wait for it to be mined
+   * @param text The message to store (1 to the board's maximum size in UTF-8 bytes)
+   * @return The transaction hash, receipt and the index the message was stored at
+   */
+  async storeMessage(text: string): Promise<StoreMessageResult> {
+    const { maxMessageSize } = await this.getConfig();
+    const receipt = await this.send("storeMessage", [
+      encodeMessage(text, maxMessageSize, { compact: this.compact }),
+    ]);
+
+    return toStoreMessageResult(receipt);
+  }
+
+  /**
+   * @dev Sign a message with the wallet client's account, for anyone (such
+   * as a relayer) to submit with storeSignedMessage
+   * @param text The message to sign (1 to the board's maximum size in UTF-8 bytes)
+   * @param deadline Last block timestamp, in seconds, at which the signature
+   * is valid (an hour from now by default)
+   * @return The message, the author's current nonce and the signature
+   */
+  async signMessage(text: string, deadline?: bigint): Promise<SignedMessage> {
+    const walletClient = this.requireWalletClient();
+    if (walletClient.account === undefined) {
+      throw new Error("The walletClient has no account to sign with");
+    }
+    const author = walletClient.account.address;
+
+    const [{ maxMessageSize }, nonce, chainId] = await Promise.all([
+      this.getConfig(),
+      this.getNonce(author),
+      this.publicClient.getChainId(),
+    ]);
+    const message = encodeMessage(text, maxMessageSize, {
+      compact: this.compact,
+    });
+    deadline ??=
+      BigInt(Math.floor(Date.now() / 1000)) +
+      BigInt(SIGNED_MESSAGE_TTL_SECONDS);
+
+    const signature = await walletClient.signTypedData({
+      account: walletClient.account,
+      domain: getSignedMessageDomain(chainId, this.address),
+      types: signedMessageTypes,
+      primaryType: "Message",
+      message: { message, nonce, deadline },
+    });
+
+    return { message, author, nonce, deadline, signature };
+  }
+
+  /**
+   * @dev Submit a message signed by its author and wait for it to be mined;
+   * the wallet client only pays the gas
+   * @param signed The signed message
+   * @return The transaction hash, receipt and the index the message was stored at
+   */
+  async storeSignedMessage(signed: SignedMessage): Promise<StoreMessageResult> {
+    const receipt = await this.send("storeSignedMessage", [
+      signed.message,
+      signed.author,
+      signed.deadline,
+      signed.signature,
+    ]);
+
+    return toStoreMessageResult(receipt);
+  }
+
+  /**
+   * @dev Store a copy of a message from a board on another chain and wait
+   * for it to be mined; the board refuses to store it twice
+   * @param message The original message's raw bytes
+   * @param sourceChainId The chain the original message was stored on
+   * @param sourceBoard The board the original message was stored on
+   * @param sourceSequence The original message's sequence number
+   * @return The transaction hash, receipt and the index the message was stored at
+   */
+  async storeMirroredMessage(
+    message: Hex,
+    sourceChainId: number,
+    sourceBoard: Address,
+    sourceSequence: number
+  ): Promise<StoreMessageResult> {
+    const receipt = await this.send("storeMirroredMessage", [
+      message,
+      BigInt(sourceChainId),
+      sourceBoard,
+      BigInt(sourceSequence),
+    ]);
+
+    return toStoreMessageResult(receipt);
+  }
+
+  /**
+   * @dev Check whether a message from another chain has been mirrored here
+   * @param sourceChainId The chain the original message was stored on
+   * @param sourceBoard The board the original message was stored on
+   * @param sourceSequence The original message's sequence number
+   * @return True if storeMirroredMessage has stored it
+   */
+  async isMirrored(
+    sourceChainId: number,
+    sourceBoard: Address,
+    sourceSequence: number
+  ): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "isMirrored",
+      args: [BigInt(sourceChainId), sourceBoard, BigInt(sourceSequence)],
+    });
+  }
+
+  /**
+   * @dev Store several messages in one transaction and wait for it to be mined
+   * @param texts The messages to store, in order
+   * @return The transaction hash, receipt and the sequence number and
+   * index of each message
+   */
+  async storeMessages(texts: readonly string[]): Promise<StoreMessagesResult> {
+    if (texts.length === 0) {
+      throw new RangeError("No messages to store");
+    }
+
+    const { maxMessageSize } = await this.getConfig();
+    return this.storePayloads(
+      texts.map((text) =>
+        encodeMessage(text, maxMessageSize, { compact: this.compact })
+      )
+    );
+  }
+
+  /**
+   * @dev Encrypt a message to one recipient and store it, spread over as
+   * many entries as it needs, in one transaction
+   * @param text The message to encrypt
+   * @param recipientPublicKey The recipient's secp256k1 public key (a viem
+   * account's publicKey)
+   * @return The transaction hash, receipt and the sequence number and
+   * index of each part
+   */
+  async storeDirectMessage(
+    text: string,
+    recipientPublicKey: Hex
+  ): Promise<StoreMessagesResult> {
+    const { capacity, maxMessageSize } = await this.getConfig();
+    const parts = splitDirectMessage(
+      encryptDirectMessage(text, recipientPublicKey),
+      maxMessageSize
+    );
+
+    // A message longer than the ring would overwrite its own first parts
+    if (parts.length > capacity) {
+      throw new RangeError(
+        `Direct message needs ${parts.length} entries, the board keeps ${capacity}`
+      );
+    }
+    return this.storePayloads(parts);
+  }
+
+  /**
+   * @dev Read the direct messages in the buffer that are addressed to the
+   * holder of a private key, and decrypt them
+   * @param privateKey The recipient's secp256k1 private key
+   * @return The messages, oldest first, each with the sequence number, index
+   * and timestamp of its first part. Messages whose parts were partly
+   * overwritten are left out
+   */
+  async getDirectMessages(privateKey: Hex): Promise<DirectMessage[]> {
+    const hint = directMessageHint(privateKeyToAddress(privateKey));
+    const [indices, payloads, timestamps, authors, sequences] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "getAllMessages",
+      });
+
+    // Parts of one message share their author and envelope ID
+    const groups = new Map<
+      string,
+      { first: Omit<StoredMessage, "text">; parts: DirectMessagePart[] }
+    >();
+    payloads.forEach((payload, i) => {
+      const part = decodeDirectMessagePart(payload);
+      if (part === undefined) {
+        return;
+      }
+      const key = `${authors[i]}:${part.envelopeId}`;
+      const group = groups.get(key) ?? {
+        first: {
+          sequence: Number(sequences[i]),
+          index: Number(indices[i]),
+          kind: "direct",
+          timestamp: toDate(timestamps[i]),
+          author: authors[i],
+        },
+        parts: [],
+      };
+      group.parts.push(part);
+      groups.set(key, group);
+    });
+
+    const messages: DirectMessage[] = [];
+    for (const { first, parts } of groups.values()) {
+      if (parts.length !== parts[0].parts) {
+        continue;
+      }
+
+      let envelope: DirectMessageEnvelope;
+      try {
+        envelope = joinDirectMessageParts(parts);
+      } catch {
+        continue;
+      }
+      if (envelope.recipientHint !== hint) {
+        continue;
+      }
+
+      try {
+        const text = decryptDirectMessage(envelope, privateKey);
+        messages.push({ status: "decrypted", ...first, text });
+      } catch (error) {
+        messages.push({
+          status: "undecryptable",
+          ...first,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * @dev Read and decode the message stored at a ring index
+   * @param index The index in the circular buffer
+   * @return The decoded message
+   */
+  async getMessage(index: number): Promise<StoredMessage> {
+    const [message, timestamp, author, sequence] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "getMessage",
+        args: [BigInt(index)],
+      });
+
+    return {
+      sequence: Number(sequence),
+      index,
+      ...decodePayload(message),
+      timestamp: toDate(timestamp),
+      author,
+    };
+  }
+
+  /**
+   * @dev Look up a message by its sequence number
+   * @param sequence The sequence number (1 to getLastSequence())
+   * @return The decoded message, or "overwritten" with the index it was
+   * stored at if newer messages have evicted it
+   */
+  async getMessageBySequence(sequence: number): Promise<MessageLookup> {
+    const [overwritten, index, message, timestamp, author] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "getMessageBySequence",
+        args: [BigInt(sequence)],
+      });
+
+    if (overwritten) {
+      return { status: "overwritten", sequence, index: Number(index) };
+    }
+    return {
+      status: "stored",
+      message: {
+        sequence,
+        index: Number(index),
+        ...decodePayload(message),
+        timestamp: toDate(timestamp),
+        author,
+      },
+    };
+  }
+
+  /**
+   * @dev Get the sequence number of the newest message
+   * @return The newest sequence number, 0 before the first message
+   */
+  async getLastSequence(): Promise<number> {
+    const sequence = await this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getLastSequence",
+    });
+
+    return Number(sequence);
+  }
+
+  /**
+   * @dev Read and decode every written slot of the circular buffer
+   * @param blockNumber Read the buffer as of this block (the latest by default)
+   * @return The decoded messages, oldest first
+   */
+  async getAllMessages(blockNumber?: number): Promise<StoredMessage[]> {
+    const result = await this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getAllMessages",
+      blockNumber: blockNumber === undefined ? undefined : BigInt(blockNumber),
+    });
+
+    return decodeMessageList(result);
+  }
+
+  /**
+   * @dev Read and decode the latest messages stored by one author
+   * @param author The address whose messages to return
+   * @param limit Maximum number of messages to return
+   * @return The decoded messages, oldest first
+   */
+  async getMessagesByAuthor(
+    author: Address,
+    limit?: number
+  ): Promise<StoredMessage[]> {
+    limit ??= (await this.getConfig()).capacity;
+
+    const result = await this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getMessagesByAuthor",
+      args: [author, BigInt(limit)],
+    });
+
+    return decodeMessageList(result);
+  }
+
+  /**
+   * @dev Read one page of the messages in the buffer, oldest first
+   * @param query The cursor, time window and page size
+   * @return The page and the cursor of the next one
+   */
+  async getMessagesPage({
+    after = 0,
+    from,
+    to,
+    limit,
+  }: MessagePageQuery = {}): Promise<MessagePage> {
+    limit ??= (await this.getConfig()).capacity;
+
+    const [indices, messages, timestamps, authors, sequences, nextCursor] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "getMessagesPage",
+        args: [
+          BigInt(after),
+          from === undefined ? 0n : toSeconds(from),
+          to === undefined ? maxUint256 : toSeconds(to),
+          BigInt(limit),
+        ],
+      });
+
+    return {
+      messages: decodeMessageList([
+        indices,
+        messages,
+        timestamps,
+        authors,
+        sequences,
+      ]),
+      nextCursor: nextCursor === 0n ? undefined : Number(nextCursor),
+    };
+  }
+
+  /**
+   * @dev Replay the messages in the buffer, oldest first, then deliver each
+   * new MessageStored event in chain order. Events are polled with getLogs
+   * from the last block fully scanned, so a failed poll (such as a dropped
+   * connection) is retried from the same block and nothing is missed; events
+   * seen again are skipped by index, block and log index
+   * @param options The message callback and polling settings
+   * @return A function that stops watching
+   */
+  watchMessages({
+    onMessage,
+    onError,
+    replay = true,
+    pollingInterval = 4000,
+    overlapBlocks = 2,
+  }: WatchMessagesOptions): () => void {
+    let watching = true;
+    let timer: NodeJS.Timeout | undefined;
+    // Events are streamed from the block after the replayed buffer state
+    let firstBlock: number | undefined;
+    let nextBlock = 0;
+    // Delivered events by key, with their block, for skipping re-scans
+    const delivered = new Map<string, number>();
+
+    const deliver = (message: WatchedMessage) => {
+      if (watching) {
+        onMessage(message);
+      }
+    };
+
+    const catchUp = async () => {
+      const head = Number(await this.publicClient.getBlockNumber());
+
+      if (firstBlock === undefined) {
+        if (replay) {
+          const messages = await this.getAllMessages(head);
+          messages.forEach((message) =>
+            deliver({ source: "buffer", ...message })
+          );
+        }
+        firstBlock = nextBlock = head + 1;
+        return;
+      }
+      if (head < nextBlock) {
+        return;
+      }
+
+      const fromBlock = Math.max(firstBlock, nextBlock - overlapBlocks);
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: messageStorageAbi,
+        eventName: "MessageStored",
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(head),
+        strict: true,
+      });
+
+      for (const log of logs) {
+        const key = `${log.args.index}:${log.blockHash}:${log.logIndex}`;
+        if (delivered.has(key)) {
+          continue;
+        }
+        delivered.set(key, Number(log.blockNumber));
+        deliver({
+          source: "event",
+          sequence: Number(log.args.sequence),
+          index: Number(log.args.index),
+          ...decodePayload(log.args.message),
+          timestamp: toDate(log.args.timestamp),
+          author: log.args.author,
+          payload: log.args.message,
+          blockNumber: Number(log.blockNumber),
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+        });
+      }
+      nextBlock = head + 1;
+
+      // Only keys of blocks that will be scanned again are needed
+      for (const [key, blockNumber] of delivered) {
+        if (blockNumber < nextBlock - overlapBlocks) {
+          delivered.delete(key);
+        }
+      }
+    };
+
+    const tick = async () => {
+      try {
+        await catchUp();
+      } catch (error) {
+        onError?.(error);
+      }
+      if (watching) {
+        timer = setTimeout(tick, pollingInterval);
+      }
+    };
+    void tick();
+
+    return () => {
+      watching = false;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * @dev Read the buffer shape once and cache it, since it never changes
+   * @return The capacity and maximum message size
+   */
+  async getConfig(): Promise<BoardConfig> {
+    this.config ??= Promise.all(
+      (["getCapacity", "getMaxMessageSize"] as const).map((functionName) =>
+        this.publicClient.readContract({
+          address: this.address,
+          abi: messageStorageAbi,
+          functionName,
+        })
+      )
+    ).then(([capacity, maxMessageSize]) => ({
+      capacity: Number(capacity),
+      maxMessageSize: Number(maxMessageSize),
+    }));
+
+    // Don't cache failed reads
+    this.config.catch(() => {
+      this.config = undefined;
+    });
+    return this.config;
+  }
+
+  /**
+   * @dev Get the ring index the next message will be stored at
+   * @return The current index
+   */
+  async getCurrentIndex(): Promise<number> {
+    const currentIndex = await this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getCurrentIndex",
+    });
+
+    return Number(currentIndex);
+  }
+
+  /**
+   * @dev Get the nonce the next signed message of a signer must carry
+   * @param signer The signer's address
+   * @return The nonce
+   */
+  async getNonce(signer: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getNonce",
+      args: [signer],
+    });
+  }
+
+  /**
+   * @dev Get the EIP-712 domain separator signed messages are bound to
+   * @return The separator for this board and chain
+   */
+  async getDomainSeparator(): Promise<Hex> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getDomainSeparator",
+    });
+  }
+
+  /**
+   * @dev Allow an address to store messages (owner only)
+   * @param writer The address to add to the allowlist
+   * @return The transaction receipt
+   */
+  async addWriter(writer: Address): Promise<TransactionReceipt> {
+    return this.send("addWriter", [writer]);
+  }
+
+  /**
+   * @dev Revoke an address's permission to store messages (owner only)
+   * @param writer The address to remove from the allowlist
+   * @return The transaction receipt
+   */
+  async removeWriter(writer: Address): Promise<TransactionReceipt> {
+    return this.send("removeWriter", [writer]);
+  }
+
+  /**
+   * @dev Stop all writes (owner only)
+   * @return The transaction receipt
+   */
+  async pause(): Promise<TransactionReceipt> {
+    return this.send("pause", []);
+  }
+
+  /**
+   * @dev Resume writes after a pause (owner only)
+   * @return The transaction receipt
+   */
+  async unpause(): Promise<TransactionReceipt> {
+    return this.send("unpause", []);
+  }
+
+  /**
+   * @dev Hand ownership to a new address (owner only)
+   * @param newOwner The address of the new owner
+   * @return The transaction receipt
+   */
+  async transferOwnership(newOwner: Address): Promise<TransactionReceipt> {
+    return this.send("transferOwnership", [newOwner]);
+  }
+
+  /**
+   * @dev Check whether an address may store messages
+   * @param account The address to check
+   * @return True for the owner and allowlisted writers
+   */
+  async isWriter(account: Address): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "isWriter",
+      args: [account],
+    });
+  }
+
+  /**
+   * @dev Get the owner of the contract
+   * @return The owner address
+   */
+  async getOwner(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "getOwner",
+    });
+  }
+
+  /**
+   * @dev Check whether writes are paused
+   * @return True while paused
+   */
+  async isPaused(): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName: "isPaused",
+    });
+  }
+
+  // Send a state-changing call from the wallet client and wait for it to be
+  // mined, surfacing reverts as errors
+  private async send<
+    F extends ContractFunctionName<typeof messageStorageAbi, "nonpayable">
+  >(
+    functionName: F,
+    args: ContractFunctionArgs<typeof messageStorageAbi, "nonpayable", F>
+  ): Promise<TransactionReceipt> {
+    const walletClient = this.requireWalletClient();
+
+    const hash = await walletClient.writeContract({
+      address: this.address,
+      abi: messageStorageAbi,
+      functionName,
+      args,
+      account: walletClient.account ?? null,
+      chain: walletClient.chain,
+    } as WriteContractParameters<typeof messageStorageAbi, F>);
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  // Store raw payloads with storeMessages, reading the result from its
+  // events
+  private async storePayloads(
+    payloads: readonly Hex[]
+  ): Promise<StoreMessagesResult> {
+    const receipt = await this.send("storeMessages", [payloads]);
+    const hash = receipt.transactionHash;
+
+    const stored = parseEventLogs({
+      abi: messageStorageAbi,
+      eventName: "MessageStored",
+      logs: receipt.logs,
+    });
+    if (stored.length !== payloads.length) {
+      throw new Error(
+        `Transaction ${hash} emitted ${stored.length} MessageStored events for ${payloads.length} messages`
+      );
+    }
+
+    return {
+      hash,
+      sequences: stored.map((log) => Number(log.args.sequence)),
+      indices: stored.map((log) => Number(log.args.index)),
+      receipt,
+    };
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (this.walletClient === undefined) {
+      throw new Error("A walletClient is required to send transactions");
+    }
+    return this.walletClient;
+  }
+}
+
+/**
+ * Decode the messages a transaction stored from its MessageStored events, as
+ * they were written rather than as the ring holds them now
+ * @param receipt The transaction's receipt
+ * @returns The stored messages, in the order they were written
+ */
+export function parseStoredMessages(
+  receipt: TransactionReceipt
+): StoredMessage[] {
+  const logs = parseEventLogs({
+    abi: messageStorageAbi,
+    eventName: "MessageStored",
+    logs: receipt.logs,
+  });
+
+  return logs.map(({ args }) => ({
+    sequence: Number(args.sequence),
+    index: Number(args.index),
+    ...decodePayload(args.message),
+    timestamp: toDate(args.timestamp),
+    author: args.author,
+  }));
+}
+
+// Find the sequence number and index of the single message a transaction
+// stored
+function toStoreMessageResult(receipt: TransactionReceipt): StoreMessageResult {
+  const hash = receipt.transactionHash;
+  const [stored] = parseEventLogs({
+    abi: messageStorageAbi,
+    eventName: "MessageStored",
+    logs: receipt.logs,
+  });
+  if (stored === undefined) {
+    throw new Error(`Transaction ${hash} did not emit MessageStored`);
+  }
+
+  return {
+    hash,
+    sequence: Number(stored.args.sequence),
+    index: Number(stored.args.index),
+    receipt,
+  };
+}
+
+// Zip the parallel arrays returned by the bulk read functions
+function decodeMessageList([
+  indices,
+  messages,
+  timestamps,
+  authors,
+  sequences,
+]: readonly [
+  readonly bigint[],
+  readonly Hex[],
+  readonly number[],
+  readonly Address[],
+  readonly bigint[]
+]): StoredMessage[] {
+  return messages.map((message, i) => ({
+    sequence: Number(sequences[i]),
+    index: Number(indices[i]),
+    ...decodePayload(message),
+    timestamp: toDate(timestamps[i]),
+    author: authors[i],
+  }));
+}
+
+// Contract timestamps are uint32 seconds since the epoch
+function toDate(timestamp: number | bigint): Date {
+  return new Date(Number(timestamp) * 1000);
+}
+
+// Round up to whole seconds, so a bound between two block timestamps
+// compares the same way on-chain as it does against Dates
+function toSeconds(date: Date): bigint {
+  return BigInt(Math.ceil(date.getTime() / 1000));
+}
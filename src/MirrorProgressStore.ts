@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import type { Address } from "viem";
+
+// A board on a specific chain
+export interface BoardLocation {
+  chainId: number;
+  address: Address;
+}
+
+export interface MirrorProgress {
+  // The board being mirrored, so progress is never applied to another one
+  source: BoardLocation;
+  // Next source block to mirror to each target, keyed by mirrorTargetKey
+  targets: Record<string, number>;
+}
+
+export interface MirrorProgressStore {
+  load(): Promise<MirrorProgress | undefined>;
+  save(progress: MirrorProgress): Promise<void>;
+}
+
+// Bumped whenever the on-disk format changes incompatibly
+const FILE_FORMAT_VERSION = 1;
+
+interface ProgressFile extends MirrorProgress {
+  version: number;
+}
+
+/**
+ * Key a target board in MirrorProgress.targets
+ * @param target The target board
+ * @returns "<chainId>:<address>", with the address lowercased
+ */
+export function mirrorTargetKey({ chainId, address }: BoardLocation): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * @title FileMirrorProgressStore
+ * @dev Persists mirror progress as a single JSON file, replaced atomically
+ * on every save so a crash never leaves half-written progress behind
+ */
+export class FileMirrorProgressStore implements MirrorProgressStore {
+  constructor(public readonly filePath: string) {}
+
+  async load(): Promise<MirrorProgress | undefined> {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+
+    const file: ProgressFile = JSON.parse(
+      await fs.promises.readFile(this.filePath, "utf8")
+    );
+    if (file.version !== FILE_FORMAT_VERSION) {
+      throw new Error(
+        `Unsupported mirror progress version ${file.version} in ${this.filePath}`
+      );
+    }
+
+    return { source: file.source, targets: file.targets };
+  }
+
+  async save(progress: MirrorProgress): Promise<void> {
+    const file: ProgressFile = { version: FILE_FORMAT_VERSION, ...progress };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write next to the target and rename over it
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(file, null, 2));
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * @title MemoryMirrorProgressStore
+ * @dev Keeps mirror progress in memory, for mirroring without a progress file
+ */
+export class MemoryMirrorProgressStore implements MirrorProgressStore {
+  private progress?: MirrorProgress;
+
+  async load(): Promise<MirrorProgress | undefined> {
+    return this.progress;
+  }
+
+  async save(progress: MirrorProgress): Promise<void> {
+    this.progress = progress;
+  }
+}
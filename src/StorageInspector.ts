@@ -0,0 +1,222 @@
+import {
+  bytesToHex,
+  encodeAbiParameters,
+  hexToBigInt,
+  keccak256,
+  numberToHex,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { messageStorageAbi } from "./abi";
+import {
+  decodeEntryHeader,
+  entrySlotCount,
+  wordsToBytes,
+  BYTES_PER_SLOT,
+  type EntryHeader,
+} from "./codec";
+
+// Declaration-order slots of MessageStorage's state variables
+export const CURRENT_INDEX_SLOT = 0n;
+export const MESSAGES_SLOT = 1n;
+
+// An entry as read directly from contract storage
+export interface RawEntry {
+  index: number;
+  // The header slot; message words follow in the next slots
+  slot: bigint;
+  headerWord: Hex;
+  header: EntryHeader;
+  words: Hex[];
+  message: Hex;
+}
+
+// A raw entry next to what getMessage returns for the same index
+export interface EntryInspection {
+  raw: RawEntry;
+  expected: {
+    message: Hex;
+    timestamp: number;
+    author: Address;
+    sequence: number;
+  };
+  // Human-readable differences; empty when storage matches getMessage
+  mismatches: string[];
+}
+
+export interface StorageReport {
+  address: Address;
+  currentIndex: number;
+  capacity: number;
+  entries: EntryInspection[];
+  ok: boolean;
+}
+
+export interface StorageInspectorConfig {
+  address: Address;
+  publicClient: PublicClient;
+}
+
+/**
+ * Compute the storage slot of an entry's header, keccak256(index . slot)
+ * @param index The ring index
+ * @returns The header slot
+ */
+export function entrySlot(index: number | bigint): bigint {
+  return hexToBigInt(
+    keccak256(
+      encodeAbiParameters(
+        [{ type: "uint256" }, { type: "uint256" }],
+        [BigInt(index), MESSAGES_SLOT]
+      )
+    )
+  );
+}
+
+/**
+ * @title StorageInspector
+ * @dev Reads a MessageStorage contract's raw storage with getStorageAt,
+ * decodes it and checks it against the contract's own getters
+ */
+export class StorageInspector {
+  public readonly address: Address;
+  public readonly publicClient: PublicClient;
+
+  constructor({ address, publicClient }: StorageInspectorConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * @dev Read the currentIndex slot
+   * @return The ring index the next message will be stored at
+   */
+  async readCurrentIndex(): Promise<number> {
+    return Number(hexToBigInt(await this.readSlot(CURRENT_INDEX_SLOT)));
+  }
+
+  /**
+   * @dev Read and decode an entry's header and message words
+   * @param index The ring index
+   * @return The raw entry
+   */
+  async readEntry(index: number): Promise<RawEntry> {
+    const slot = entrySlot(index);
+    const headerWord = await this.readSlot(slot);
+    const header = decodeEntryHeader(headerWord);
+
+    const words = await Promise.all(
+      Array.from({ length: entrySlotCount(header.length) - 1 }, (_, i) =>
+        this.readSlot(slot + BigInt(i + 1))
+      )
+    );
+
+    return {
+      index,
+      slot,
+      headerWord,
+      header,
+      words,
+      message: bytesToHex(wordsToBytes(words, header.length)),
+    };
+  }
+
+  /**
+   * @dev Compare an entry's raw storage with getMessage
+   * @param index The ring index
+   * @return The raw entry, the getter's result and any differences
+   */
+  async inspectEntry(index: number): Promise<EntryInspection> {
+    const [raw, [message, timestamp, author, sequence]] = await Promise.all([
+      this.readEntry(index),
+      this.publicClient.readContract({
+        address: this.address,
+        abi: messageStorageAbi,
+        functionName: "getMessage",
+        args: [BigInt(index)],
+      }),
+    ]);
+
+    const mismatches: string[] = [];
+    if (raw.message !== message) {
+      mismatches.push(`message ${raw.message} != ${message}`);
+    }
+    if (raw.header.timestamp !== Number(timestamp)) {
+      mismatches.push(`timestamp ${raw.header.timestamp} != ${timestamp}`);
+    }
+    if (raw.header.author !== author) {
+      mismatches.push(`author ${raw.header.author} != ${author}`);
+    }
+    if (raw.header.sequence !== Number(sequence)) {
+      mismatches.push(`sequence ${raw.header.sequence} != ${sequence}`);
+    }
+
+    // Bytes past the length in the last word must be zero
+    const tail = raw.header.length % BYTES_PER_SLOT;
+    if (tail !== 0) {
+      const paddingBits = BigInt(8 * (BYTES_PER_SLOT - tail));
+      const lastWord = hexToBigInt(raw.words[raw.words.length - 1]);
+      if ((lastWord & ((1n << paddingBits) - 1n)) !== 0n) {
+        mismatches.push("nonzero bytes past the message length");
+      }
+    }
+
+    // An unwritten entry has an all-zero header
+    if (raw.header.length === 0 && raw.header.author !== zeroAddress) {
+      mismatches.push("header has an author but no length");
+    }
+
+    return {
+      raw,
+      expected: {
+        message,
+        timestamp: Number(timestamp),
+        author,
+        sequence: Number(sequence),
+      },
+      mismatches,
+    };
+  }
+
+  /**
+   * @dev Inspect every entry of the ring, or only the given indices
+   * @param indices Ring indices to inspect (every index by default)
+   * @return The report; ok is false if any entry mismatches
+   */
+  async inspect(indices?: readonly number[]): Promise<StorageReport> {
+    const [currentIndex, capacity] = await Promise.all([
+      this.readCurrentIndex(),
+      this.publicClient
+        .readContract({
+          address: this.address,
+          abi: messageStorageAbi,
+          functionName: "getCapacity",
+        })
+        .then(Number),
+    ]);
+
+    const entries: EntryInspection[] = [];
+    const targets = indices ?? Array.from({ length: capacity }, (_, i) => i);
+    for (const index of targets) {
+      entries.push(await this.inspectEntry(index));
+    }
+
+    return {
+      address: this.address,
+      currentIndex,
+      capacity,
+      entries,
+      ok: entries.every(({ mismatches }) => mismatches.length === 0),
+    };
+  }
+
+  private async readSlot(slot: bigint): Promise<Hex> {
+    const word = await this.publicClient.getStorageAt({
+      address: this.address,
+      slot: numberToHex(slot, { size: 32 }),
+    });
+    return word ?? numberToHex(0, { size: 32 });
+  }
+}
@@ -0,0 +1,275 @@
+import {
+  bytesToHex,
+  getAddress,
+  hexToBigInt,
+  hexToBytes,
+  numberToHex,
+  type Address,
+  type Hex,
+} from "viem";
+import { DIRECT_MESSAGE_MARKER } from "./directMessages";
+
+// Wire format constants, mirroring contracts/MessageStorage.sol
+export const BYTES_PER_SLOT = 32;
+
+// Shape of a default deployment: 16 messages of up to 60 bytes each
+export const MAX_MESSAGES = 16;
+export const MAX_MESSAGE_SIZE_BYTES = 60;
+
+// Bit positions of the fields packed into an entry's header slot
+const AUTHOR_SHIFT = 96n;
+const TIMESTAMP_SHIFT = 64n;
+const SEQUENCE_SHIFT = 16n;
+const SEQUENCE_MASK = 0xffffffffffffn;
+const LENGTH_MASK = 0xffffn;
+
+// Version of the header packing above. Storage layouts only describe whole
+// slots, so bump this with any change to how contracts/MessageStorage.sol
+// packs the header: upgrade:messages refuses to move a proxied board to a
+// build with a different format, whose reads would garble existing entries
+export const ENTRY_HEADER_FORMAT = 1;
+
+// First byte of a compact payload. It never starts UTF-8 text (and 0xff
+// marks direct message parts), so raw and compact payloads can't be confused
+export const COMPACT_MESSAGE_FLAG = 0xfe;
+
+// Characters packed into 6 bits each; symbol 63 escapes the next 8 bits as a
+// raw byte (capitals, other punctuation and every non-ASCII UTF-8 byte)
+export const COMPACT_ALPHABET =
+  " abcdefghijklmnopqrstuvwxyz0123456789.,:;!?-_/'\"()#@%+=&*<>[]$~";
+const COMPACT_ESCAPE = 63;
+const COMPACT_SYMBOLS = new Map(
+  [...COMPACT_ALPHABET].map((char, symbol) => [char.charCodeAt(0), symbol])
+);
+
+// Fields packed into the first storage slot of every entry
+export interface EntryHeader {
+  length: number;
+  sequence: number;
+  timestamp: number;
+  author: Address;
+}
+
+// What an entry holds: a plain message, or one part of an encrypted direct
+// message (see directMessages.ts)
+export type MessageKind = "text" | "direct";
+
+export interface DecodedPayload {
+  kind: MessageKind;
+  text: string;
+}
+
+export interface EncodeMessageOptions {
+  // Pack the text 6 bits per character when that is shorter than UTF-8,
+  // fitting 78 characters of COMPACT_ALPHABET into 60 bytes (default false)
+  compact?: boolean;
+}
+
+/**
+ * Encode a text message as UTF-8, without padding, or in the compact format
+ * when asked to and it is shorter
+ * @param text The message to encode
+ * @param maxSize The deployment's maximum message size (60 bytes by default)
+ * @param options Whether to try the compact format
+ * @returns The hex-encoded payload expected by storeMessage
+ */
+export function encodeMessage(
+  text: string,
+  maxSize: number = MAX_MESSAGE_SIZE_BYTES,
+  { compact = false }: EncodeMessageOptions = {}
+): Hex {
+  let messageBytes = new TextEncoder().encode(text);
+
+  if (messageBytes.length === 0) {
+    throw new RangeError("Message is empty");
+  }
+  if (compact) {
+    const packed = packCompact(messageBytes);
+    // Ties stay raw, which any UTF-8 reader can decode
+    if (packed.length < messageBytes.length) {
+      messageBytes = packed;
+    }
+  }
+  if (messageBytes.length > maxSize) {
+    throw new RangeError(
+      `Message is ${messageBytes.length} bytes, maximum is ${maxSize}`
+    );
+  }
+
+  return bytesToHex(messageBytes);
+}
+
+/**
+ * Decode a stored payload back into text, raw UTF-8 or compact. Invalid UTF-8
+ * (possible when a payload wasn't written by this codec) decodes to
+ * replacement characters.
+ * @param bytes The raw message bytes or their hex encoding
+ * @returns The decoded message text
+ */
+export function decodeMessage(bytes: Uint8Array | Hex): string {
+  const byteArray = typeof bytes === "string" ? hexToBytes(bytes) : bytes;
+
+  return new TextDecoder("utf-8").decode(
+    byteArray[0] === COMPACT_MESSAGE_FLAG ? unpackCompact(byteArray) : byteArray
+  );
+}
+
+/**
+ * Decode an entry's payload: text, or a part of an encrypted direct message,
+ * which is left for getDirectMessages rather than decoded as text
+ * @param bytes The raw payload bytes or their hex encoding
+ * @returns The payload's kind and its text, empty for direct message parts
+ */
+export function decodePayload(bytes: Uint8Array | Hex): DecodedPayload {
+  const byteArray = typeof bytes === "string" ? hexToBytes(bytes) : bytes;
+
+  return byteArray[0] === DIRECT_MESSAGE_MARKER
+    ? { kind: "direct", text: "" }
+    : { kind: "text", text: decodeMessage(byteArray) };
+}
+
+/**
+ * Shorten a text until its UTF-8 encoding fits, cutting only between code
+ * points so a multi-byte character is never split
+ * @param text The message to shorten
+ * @param maxSize The maximum encoded size in bytes
+ * @returns The longest prefix of text that fits in maxSize bytes
+ */
+export function truncateMessage(
+  text: string,
+  maxSize: number = MAX_MESSAGE_SIZE_BYTES
+): string {
+  const encoder = new TextEncoder();
+  let size = 0;
+  let result = "";
+
+  // Iterating a string yields whole code points, surrogate pairs included
+  for (const char of text) {
+    size += encoder.encode(char).length;
+    if (size > maxSize) {
+      break;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Count the storage slots an entry uses: the header plus the message words
+ * @param length The message length in bytes
+ * @returns The number of slots written by storeMessage
+ */
+export function entrySlotCount(length: number): number {
+  return 1 + Math.ceil(length / BYTES_PER_SLOT);
+}
+
+/**
+ * Unpack an entry's raw header slot
+ * @param word The header storage word
+ * @returns The message length, sequence number, timestamp and author
+ */
+export function decodeEntryHeader(word: Hex): EntryHeader {
+  const header = hexToBigInt(word);
+
+  return {
+    length: Number(header & LENGTH_MASK),
+    sequence: Number((header >> SEQUENCE_SHIFT) & SEQUENCE_MASK),
+    timestamp: Number((header >> TIMESTAMP_SHIFT) & 0xffffffffn),
+    author: getAddress(numberToHex(header >> AUTHOR_SHIFT, { size: 20 })),
+  };
+}
+
+/**
+ * Reassemble the message bytes from an entry's raw storage words
+ * @param words The message slots that follow the header, in order
+ * @param length The message length from the header
+ * @returns The message bytes
+ */
+export function wordsToBytes(
+  words: readonly Hex[],
+  length: number
+): Uint8Array {
+  const result = new Uint8Array(words.length * BYTES_PER_SLOT);
+
+  words.forEach((word, i) => {
+    result.set(hexToBytes(word, { size: BYTES_PER_SLOT }), i * BYTES_PER_SLOT);
+  });
+
+  return result.slice(0, length);
+}
+
+/**
+ * List ring indices from oldest to newest, matching getAllMessages ordering
+ * @param currentIndex The index the next message will be stored at
+ * @param capacity The number of slots in the ring
+ * @returns Every ring index, starting at currentIndex
+ */
+export function ringOrder(
+  currentIndex: number,
+  capacity: number = MAX_MESSAGES
+): number[] {
+  return Array.from(
+    { length: capacity },
+    (_, i) => (currentIndex + i) % capacity
+  );
+}
+
+// Pack UTF-8 bytes after the compact flag, most significant bit first, and
+// pad the last byte with ones
+function packCompact(utf8: Uint8Array): Uint8Array {
+  const packed = [COMPACT_MESSAGE_FLAG];
+  let buffer = 0;
+  let bits = 0;
+  const write = (value: number, width: number) => {
+    buffer = (buffer << width) | value;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      packed.push((buffer >> bits) & 0xff);
+    }
+    buffer &= (1 << bits) - 1;
+  };
+
+  for (const byte of utf8) {
+    const symbol = COMPACT_SYMBOLS.get(byte);
+    if (symbol === undefined) {
+      write(COMPACT_ESCAPE, 6);
+      write(byte, 8);
+    } else {
+      write(symbol, 6);
+    }
+  }
+  if (bits > 0) {
+    write((1 << (8 - bits)) - 1, 8 - bits);
+  }
+  return Uint8Array.from(packed);
+}
+
+// Unpack a compact payload back into UTF-8 bytes. The padding reads as
+// nothing, or as an escape without the 8 bits it needs
+function unpackCompact(payload: Uint8Array): Uint8Array {
+  const utf8: number[] = [];
+  const totalBits = (payload.length - 1) * 8;
+  let position = 0;
+  const read = (width: number) => {
+    let value = 0;
+    for (let i = 0; i < width; i++, position++) {
+      const bit = (payload[1 + (position >> 3)] >> (7 - (position & 7))) & 1;
+      value = (value << 1) | bit;
+    }
+    return value;
+  };
+
+  while (totalBits - position >= 6) {
+    const symbol = read(6);
+    if (symbol !== COMPACT_ESCAPE) {
+      utf8.push(COMPACT_ALPHABET.charCodeAt(symbol));
+    } else if (totalBits - position >= 8) {
+      utf8.push(read(8));
+    } else {
+      break;
+    }
+  }
+  return Uint8Array.from(utf8);
+}
@@ -0,0 +1,266 @@
+import fs from "fs";
+import path from "path";
+import {
+  isAddress,
+  isHash,
+  keccak256,
+  stringToHex,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import type { StorageLayout } from "./storageLayout";
+
+// Directory holding one <network>.json file per deployed instance
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+// Bumped whenever the manifest format changes; older files are upgraded
+// with `npx hardhat deployments:migrate`
+export const DEPLOYMENT_MANIFEST_VERSION = 2;
+
+// Interface generation of the boards this package talks to. Version 1 is the
+// original board: 16 fixed 60-byte entries, getMessage returning two words
+// and a timestamp, and no getCapacity, getMaxMessageSize or getLastSequence
+export const MESSAGE_STORAGE_ABI_VERSION = 2;
+
+export type CompilerName = "solc" | "zksolc";
+
+export interface CompilerInfo {
+  name: CompilerName;
+  version: string;
+  // The solc release behind the build (equal to version for solc)
+  solcVersion: string;
+}
+
+// Set when the board sits behind a MessageStorageProxy
+export interface ProxyInfo {
+  implementation: Address;
+  // Layout of the implementation, checked before every upgrade
+  storageLayout: StorageLayout;
+  // ENTRY_HEADER_FORMAT of the implementation, also checked before every
+  // upgrade. Missing from manifests recorded before it was tracked, which
+  // all use format 1
+  headerFormat?: number;
+}
+
+// Contents of deployments/<network>.json. The nullable fields are only null
+// in manifests migrated from older files that never recorded them.
+export interface DeploymentManifest {
+  version: typeof DEPLOYMENT_MANIFEST_VERSION;
+  network: string;
+  chainId: number;
+  contract: string;
+  // MESSAGE_STORAGE_ABI_VERSION of the deployed contract
+  abiVersion: number;
+  // The proxy's address for proxied boards
+  address: Address;
+  proxy?: ProxyInfo;
+  deployer: Address | null;
+  transactionHash: Hash | null;
+  blockNumber: number | null;
+  // keccak256 of the artifact's creation bytecode, without constructor args
+  bytecodeHash: Hash | null;
+  // keccak256 of the artifact's ABI serialized as JSON
+  abiHash: Hash | null;
+  compiler: CompilerInfo;
+  constructorArgs: Record<string, number>;
+  // ISO 8601 time the deployment was recorded
+  deployedAt: string | null;
+}
+
+/**
+ * Hash a contract's creation bytecode for a manifest
+ * @param bytecode The artifact bytecode
+ * @returns The bytecode hash
+ */
+export function hashBytecode(bytecode: Hex): Hash {
+  return keccak256(bytecode);
+}
+
+/**
+ * Hash a contract's ABI for a manifest
+ * @param abi The artifact ABI
+ * @returns The ABI hash
+ */
+export function hashAbi(abi: Abi): Hash {
+  return keccak256(stringToHex(JSON.stringify(abi)));
+}
+
+/**
+ * Get the path of a network's manifest
+ * @param network The Hardhat network name
+ * @param deploymentsDir Directory containing the deployment files
+ * @returns The manifest path
+ */
+export function deploymentPath(
+  network: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string {
+  return path.join(deploymentsDir, `${network}.json`);
+}
+
+/**
+ * Load and validate the manifest recorded for a network
+ * @param network The Hardhat network name
+ * @param deploymentsDir Directory containing the deployment files
+ * @returns The manifest
+ */
+export function loadDeployment(
+  network: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): DeploymentManifest {
+  const manifestPath = deploymentPath(network, deploymentsDir);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No deployment found for network ${network}`);
+  }
+
+  const manifest = parseDeploymentManifest(
+    JSON.parse(fs.readFileSync(manifestPath, "utf8")),
+    manifestPath
+  );
+  if (manifest.network !== network) {
+    throw new Error(
+      `Deployment file ${manifestPath} is for network ${manifest.network}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Read the MessageStorage address recorded for a network
+ * @param network The Hardhat network name
+ * @param deploymentsDir Directory containing the deployment files
+ * @returns The deployed contract address
+ */
+export function readDeploymentAddress(
+  network: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): Address {
+  return loadDeployment(network, deploymentsDir).address;
+}
+
+/**
+ * Record a deployment, replacing any earlier one for the same network
+ * @param manifest The deployment to save
+ * @param deploymentsDir Directory containing the deployment files
+ * @returns The path of the written file
+ */
+export function writeDeployment(
+  manifest: DeploymentManifest,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string {
+  const manifestPath = deploymentPath(manifest.network, deploymentsDir);
+
+  fs.mkdirSync(deploymentsDir, { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+
+  return manifestPath;
+}
+
+/**
+ * Check that a parsed JSON value is a current manifest
+ * @param value The parsed file contents
+ * @param source Where the value came from, used in error messages
+ * @returns The manifest
+ */
+export function parseDeploymentManifest(
+  value: unknown,
+  source: string
+): DeploymentManifest {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid deployment manifest ${source}: not an object`);
+  }
+
+  const version = value.version ?? 0;
+  if (version !== DEPLOYMENT_MANIFEST_VERSION) {
+    throw new Error(
+      `Deployment file ${source} uses manifest version ${version}, ` +
+        `expected ${DEPLOYMENT_MANIFEST_VERSION}; ` +
+        "run `npx hardhat deployments:migrate`"
+    );
+  }
+
+  const invalid = (field: string, expected: string) =>
+    new Error(
+      `Invalid deployment manifest ${source}: ${field} must be ${expected}`
+    );
+  const isCount = (v: unknown): v is number =>
+    typeof v === "number" && Number.isSafeInteger(v) && v >= 0;
+  const isNonEmpty = (v: unknown): v is string =>
+    typeof v === "string" && v.length > 0;
+  const isHashValue = (v: unknown) => typeof v === "string" && isHash(v);
+  const isAddressValue = (v: unknown) => typeof v === "string" && isAddress(v);
+
+  if (!isNonEmpty(value.network)) throw invalid("network", "a name");
+  if (!isCount(value.chainId) || value.chainId === 0) {
+    throw invalid("chainId", "a positive integer");
+  }
+  if (!isNonEmpty(value.contract)) throw invalid("contract", "a name");
+  if (
+    !isCount(value.abiVersion) ||
+    value.abiVersion === 0 ||
+    value.abiVersion > MESSAGE_STORAGE_ABI_VERSION
+  ) {
+    throw invalid("abiVersion", `1 to ${MESSAGE_STORAGE_ABI_VERSION}`);
+  }
+  if (!isAddressValue(value.address)) throw invalid("address", "an address");
+  if (
+    value.proxy !== undefined &&
+    (!isRecord(value.proxy) ||
+      !isAddressValue(value.proxy.implementation) ||
+      !isRecord(value.proxy.storageLayout) ||
+      !Array.isArray(value.proxy.storageLayout.storage) ||
+      (value.proxy.headerFormat !== undefined &&
+        (!isCount(value.proxy.headerFormat) || value.proxy.headerFormat === 0)))
+  ) {
+    throw invalid(
+      "proxy",
+      "{ implementation, storageLayout, headerFormat? } if present"
+    );
+  }
+  if (value.deployer !== null && !isAddressValue(value.deployer)) {
+    throw invalid("deployer", "an address or null");
+  }
+  if (value.transactionHash !== null && !isHashValue(value.transactionHash)) {
+    throw invalid("transactionHash", "a hash or null");
+  }
+  if (value.blockNumber !== null && !isCount(value.blockNumber)) {
+    throw invalid("blockNumber", "a block number or null");
+  }
+  if (value.bytecodeHash !== null && !isHashValue(value.bytecodeHash)) {
+    throw invalid("bytecodeHash", "a hash or null");
+  }
+  if (value.abiHash !== null && !isHashValue(value.abiHash)) {
+    throw invalid("abiHash", "a hash or null");
+  }
+
+  const compiler = value.compiler;
+  if (
+    !isRecord(compiler) ||
+    (compiler.name !== "solc" && compiler.name !== "zksolc") ||
+    !isNonEmpty(compiler.version) ||
+    !isNonEmpty(compiler.solcVersion)
+  ) {
+    throw invalid("compiler", "{ name: solc | zksolc, version, solcVersion }");
+  }
+
+  const args = value.constructorArgs;
+  if (!isRecord(args) || !Object.values(args).every(Number.isSafeInteger)) {
+    throw invalid("constructorArgs", "an object of integers");
+  }
+
+  if (
+    value.deployedAt !== null &&
+    (typeof value.deployedAt !== "string" ||
+      Number.isNaN(Date.parse(value.deployedAt)))
+  ) {
+    throw invalid("deployedAt", "an ISO 8601 time or null");
+  }
+
+  return value as unknown as DeploymentManifest;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
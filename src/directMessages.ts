@@ -0,0 +1,327 @@
+import crypto from "crypto";
+import {
+  bytesToHex,
+  concatHex,
+  getAddress,
+  hexToBytes,
+  keccak256,
+  size,
+  sliceHex,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+
+// Envelope format written by encryptDirectMessage
+export const DIRECT_MESSAGE_VERSION = 1;
+
+// First byte of every entry holding part of a direct message. It never
+// starts UTF-8 text, so parts can't be mistaken for plain messages
+export const DIRECT_MESSAGE_MARKER = 0xff;
+
+// A message can span at most this many entries
+export const MAX_DIRECT_MESSAGE_PARTS = 255;
+
+// Envelope layout: version, recipient hint, ephemeral public key
+// (compressed), AES-GCM nonce, then the ciphertext with its tag
+const HINT_SIZE = 4;
+const EPHEMERAL_KEY_SIZE = 33;
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+const ENVELOPE_HEADER_SIZE = 1 + HINT_SIZE + EPHEMERAL_KEY_SIZE + NONCE_SIZE;
+
+// Part layout: marker, envelope ID, part number, part count, then a slice
+// of the envelope
+const ENVELOPE_ID_SIZE = 4;
+const PART_HEADER_SIZE = 1 + ENVELOPE_ID_SIZE + 2;
+
+// Binds derived keys to this scheme and version
+const KDF_INFO = "MessageStorage direct message v1";
+
+// An encrypted message for one recipient (ECIES over secp256k1: ECDH with
+// an ephemeral key, HKDF-SHA256, AES-256-GCM)
+export interface DirectMessageEnvelope {
+  version: number;
+  // First bytes of the recipient's address, so recipients can skip
+  // messages for others without trying to decrypt them
+  recipientHint: Hex;
+  ephemeralPublicKey: Hex;
+  nonce: Hex;
+  // The encrypted UTF-8 text followed by the 16-byte authentication tag
+  ciphertext: Hex;
+}
+
+// One stored part of a direct message
+export interface DirectMessagePart {
+  // Identifies the parts of one envelope, together with their author
+  envelopeId: Hex;
+  part: number;
+  parts: number;
+  data: Hex;
+}
+
+/**
+ * Encrypt a text message so only the holder of a private key can read it
+ * @param text The message to encrypt
+ * @param recipientPublicKey The recipient's secp256k1 public key, compressed
+ * or not (a viem account's publicKey)
+ * @returns The envelope
+ */
+export function encryptDirectMessage(
+  text: string,
+  recipientPublicKey: Hex
+): DirectMessageEnvelope {
+  const recipientKey = toUncompressedKey(recipientPublicKey);
+  const ephemeral = crypto.createECDH("secp256k1");
+  ephemeral.generateKeys();
+
+  const envelope: DirectMessageEnvelope = {
+    version: DIRECT_MESSAGE_VERSION,
+    recipientHint: directMessageHint(publicKeyToAddress(recipientKey)),
+    ephemeralPublicKey: bytesToHex(
+      ephemeral.getPublicKey(undefined, "compressed")
+    ),
+    nonce: bytesToHex(crypto.randomBytes(NONCE_SIZE)),
+    ciphertext: "0x",
+  };
+
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    deriveKey(ephemeral.computeSecret(hexToBytes(recipientKey)), envelope),
+    hexToBytes(envelope.nonce)
+  );
+  cipher.setAAD(hexToBytes(envelopeHeader(envelope)));
+  const encrypted = Buffer.concat([
+    cipher.update(new TextEncoder().encode(text)),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return { ...envelope, ciphertext: bytesToHex(encrypted) };
+}
+
+/**
+ * Decrypt an envelope with the recipient's private key
+ * @param envelope The envelope
+ * @param privateKey The recipient's secp256k1 private key
+ * @returns The message text
+ */
+export function decryptDirectMessage(
+  envelope: DirectMessageEnvelope,
+  privateKey: Hex
+): string {
+  if (envelope.version !== DIRECT_MESSAGE_VERSION) {
+    throw new Error(`Unsupported direct message version ${envelope.version}`);
+  }
+
+  const recipient = crypto.createECDH("secp256k1");
+  recipient.setPrivateKey(hexToBytes(privateKey));
+  const address = publicKeyToAddress(bytesToHex(recipient.getPublicKey()));
+  if (envelope.recipientHint !== directMessageHint(address)) {
+    throw new Error("Direct message is for another recipient");
+  }
+
+  const ciphertext = hexToBytes(envelope.ciphertext);
+  if (ciphertext.length < TAG_SIZE) {
+    throw new Error("Direct message ciphertext is truncated");
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(
+        recipient.computeSecret(hexToBytes(envelope.ephemeralPublicKey)),
+        envelope
+      ),
+      hexToBytes(envelope.nonce)
+    );
+    decipher.setAAD(hexToBytes(envelopeHeader(envelope)));
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_SIZE));
+    const plaintext = Buffer.concat([
+      decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_SIZE)),
+      decipher.final(),
+    ]);
+    return new TextDecoder("utf-8", { fatal: true }).decode(plaintext);
+  } catch {
+    // Wrong key, altered envelope or invalid ephemeral key: GCM can't tell
+    // them apart, and neither should callers
+    throw new Error("Direct message failed to decrypt");
+  }
+}
+
+/**
+ * Compute the recipient hint of an address
+ * @param recipient The recipient's address
+ * @returns The hint stored in envelopes for that recipient
+ */
+export function directMessageHint(recipient: Address): Hex {
+  return bytesToHex(hexToBytes(recipient).subarray(0, HINT_SIZE));
+}
+
+/**
+ * Serialize an envelope
+ * @param envelope The envelope
+ * @returns The envelope's bytes
+ */
+export function encodeDirectMessageEnvelope(
+  envelope: DirectMessageEnvelope
+): Hex {
+  return concatHex([envelopeHeader(envelope), envelope.ciphertext]);
+}
+
+/**
+ * Parse serialized envelope bytes
+ * @param bytes The envelope's bytes
+ * @returns The envelope
+ */
+export function decodeDirectMessageEnvelope(bytes: Hex): DirectMessageEnvelope {
+  if (size(bytes) < ENVELOPE_HEADER_SIZE + TAG_SIZE) {
+    throw new Error("Direct message envelope is truncated");
+  }
+
+  const version = hexToBytes(bytes)[0];
+  if (version !== DIRECT_MESSAGE_VERSION) {
+    throw new Error(`Unsupported direct message version ${version}`);
+  }
+
+  let offset = 1;
+  const take = (length: number) => {
+    const field = sliceHex(bytes, offset, offset + length);
+    offset += length;
+    return field;
+  };
+  return {
+    version,
+    recipientHint: take(HINT_SIZE),
+    ephemeralPublicKey: take(EPHEMERAL_KEY_SIZE),
+    nonce: take(NONCE_SIZE),
+    ciphertext: sliceHex(bytes, offset),
+  };
+}
+
+/**
+ * Split an envelope into entry payloads, to be stored in order
+ * @param envelope The envelope
+ * @param maxMessageSize The board's maximum message size
+ * @returns One payload per entry
+ */
+export function splitDirectMessage(
+  envelope: DirectMessageEnvelope,
+  maxMessageSize: number
+): Hex[] {
+  const dataSize = maxMessageSize - PART_HEADER_SIZE;
+  if (dataSize < 1) {
+    throw new RangeError(
+      `Messages of ${maxMessageSize} bytes are too short for direct messages`
+    );
+  }
+
+  const bytes = hexToBytes(encodeDirectMessageEnvelope(envelope));
+  const parts = Math.ceil(bytes.length / dataSize);
+  if (parts > MAX_DIRECT_MESSAGE_PARTS) {
+    throw new RangeError(
+      `Direct message needs ${parts} entries, maximum is ${MAX_DIRECT_MESSAGE_PARTS}`
+    );
+  }
+
+  const envelopeId = bytesToHex(crypto.randomBytes(ENVELOPE_ID_SIZE));
+  return Array.from({ length: parts }, (_, part) =>
+    concatHex([
+      toHex(DIRECT_MESSAGE_MARKER, { size: 1 }),
+      envelopeId,
+      toHex(part, { size: 1 }),
+      toHex(parts, { size: 1 }),
+      bytesToHex(bytes.subarray(part * dataSize, (part + 1) * dataSize)),
+    ])
+  );
+}
+
+/**
+ * Parse an entry payload as part of a direct message
+ * @param payload The stored payload
+ * @returns The part, or undefined if the payload isn't one
+ */
+export function decodeDirectMessagePart(
+  payload: Hex
+): DirectMessagePart | undefined {
+  const bytes = hexToBytes(payload);
+  if (bytes.length <= PART_HEADER_SIZE || bytes[0] !== DIRECT_MESSAGE_MARKER) {
+    return undefined;
+  }
+
+  const part = bytes[1 + ENVELOPE_ID_SIZE];
+  const parts = bytes[2 + ENVELOPE_ID_SIZE];
+  if (part >= parts) {
+    return undefined;
+  }
+  return {
+    envelopeId: bytesToHex(bytes.subarray(1, 1 + ENVELOPE_ID_SIZE)),
+    part,
+    parts,
+    data: bytesToHex(bytes.subarray(PART_HEADER_SIZE)),
+  };
+}
+
+/**
+ * Reassemble an envelope from its parts
+ * @param parts Every part of one envelope, in any order
+ * @returns The envelope
+ */
+export function joinDirectMessageParts(
+  parts: readonly DirectMessagePart[]
+): DirectMessageEnvelope {
+  const ordered = [...parts].sort((a, b) => a.part - b.part);
+  const count = ordered[0]?.parts;
+  if (
+    count === undefined ||
+    ordered.length !== count ||
+    ordered.some((p, i) => p.part !== i || p.parts !== count)
+  ) {
+    throw new Error("Direct message parts are incomplete");
+  }
+  return decodeDirectMessageEnvelope(concatHex(ordered.map((p) => p.data)));
+}
+
+// The envelope fields before the ciphertext, authenticated along with it
+function envelopeHeader(envelope: DirectMessageEnvelope): Hex {
+  return concatHex([
+    toHex(envelope.version, { size: 1 }),
+    envelope.recipientHint,
+    envelope.ephemeralPublicKey,
+    envelope.nonce,
+  ]);
+}
+
+// HKDF-SHA256 over the ECDH secret, salted with the ephemeral key
+function deriveKey(
+  sharedSecret: Uint8Array,
+  envelope: DirectMessageEnvelope
+): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync(
+      "sha256",
+      sharedSecret,
+      hexToBytes(envelope.ephemeralPublicKey),
+      KDF_INFO,
+      32
+    )
+  );
+}
+
+function toUncompressedKey(publicKey: Hex): Hex {
+  return bytesToHex(
+    crypto.ECDH.convertKey(
+      hexToBytes(publicKey),
+      "secp256k1",
+      undefined,
+      undefined,
+      "uncompressed"
+    ) as Buffer
+  );
+}
+
+// An Ethereum address is the last 20 bytes of the hash of the uncompressed
+// key without its 0x04 prefix
+function publicKeyToAddress(uncompressedKey: Hex): Address {
+  return getAddress(sliceHex(keccak256(sliceHex(uncompressedKey, 1)), 12));
+}
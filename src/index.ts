@@ -0,0 +1,17 @@
+export * from "./abi";
+export * from "./codec";
+export * from "./MessageStorageClient";
+export * from "./HistoryStore";
+export * from "./MessageIndexer";
+export * from "./messageQueries";
+export * from "./deployments";
+export * from "./StorageInspector";
+export * from "./storageLayout";
+export * from "./signedMessages";
+export * from "./directMessages";
+export * from "./MessageRelayer";
+export * from "./MessageApiServer";
+export * from "./MirrorProgressStore";
+export * from "./MessageMirror";
+export * from "./EventLogMessageReader";
+export * from "./LegacyMessageStorageClient";
@@ -0,0 +1,101 @@
+import type {
+  MessagePage,
+  MessagePageQuery,
+  MessageStorageClient,
+  StoredMessage,
+} from "./MessageStorageClient";
+
+// A page query that also searches indexed history, such as
+// MessageIndexer.getHistory(), for messages the buffer no longer holds
+export interface HistoryPageQuery extends MessagePageQuery {
+  history?: readonly StoredMessage[];
+}
+
+// A time window to collect every message of
+export interface TimeRangeQuery {
+  // Only return messages stored at or after this time
+  from?: Date;
+  // Only return messages stored before this time
+  to?: Date;
+  history?: readonly StoredMessage[];
+  // Messages read per call
+  pageSize?: number;
+}
+
+/**
+ * Read one page of messages from the buffer and from indexed history,
+ * oldest first. Messages that were overwritten on-chain come from the
+ * history; messages the history hasn't synced yet come from the buffer.
+ * Messages that neither holds are skipped
+ * @param client The board's client
+ * @param query The cursor, time window, page size and history
+ * @returns The page and the cursor of the next one
+ */
+export async function getMessagePage(
+  client: MessageStorageClient,
+  { history = [], ...query }: HistoryPageQuery = {}
+): Promise<MessagePage> {
+  const limit = query.limit ?? (await client.getConfig()).capacity;
+  const page = await client.getMessagesPage({ ...query, limit });
+
+  const onChain = new Set(page.messages.map((message) => message.sequence));
+  const indexed = history.filter(
+    (message) => !onChain.has(message.sequence) && matches(message, query)
+  );
+  // Stored messages are numbered in chain order, so this keeps both
+  // sources oldest first
+  const merged = [...indexed, ...page.messages].sort(
+    (a, b) => a.sequence - b.sequence
+  );
+
+  // The buffer's page holds its first matches, so every later buffer
+  // message sorts after it and the first limit merged messages are complete
+  const messages = merged.slice(0, limit);
+  const more = merged.length > limit || page.nextCursor !== undefined;
+  return {
+    messages,
+    nextCursor: more ? messages[messages.length - 1].sequence : undefined,
+  };
+}
+
+/**
+ * Collect every message stored within a time window, from the buffer and
+ * from indexed history, by reading page after page
+ * @param client The board's client
+ * @param query The time window, history and page size
+ * @returns The messages, oldest first
+ */
+export async function getMessagesInRange(
+  client: MessageStorageClient,
+  { from, to, history, pageSize }: TimeRangeQuery = {}
+): Promise<StoredMessage[]> {
+  const messages: StoredMessage[] = [];
+  let after: number | undefined;
+
+  do {
+    const page = await getMessagePage(client, {
+      after,
+      from,
+      to,
+      history,
+      limit: pageSize,
+    });
+    messages.push(...page.messages);
+    after = page.nextCursor;
+  } while (after !== undefined);
+
+  return messages;
+}
+
+// Apply a page query's cursor and time window to an indexed message, the
+// same way getMessagesPage does on-chain
+function matches(
+  { sequence, timestamp }: StoredMessage,
+  { after = 0, from, to }: MessagePageQuery
+): boolean {
+  return (
+    sequence > after &&
+    (from === undefined || timestamp >= from) &&
+    (to === undefined || timestamp < to)
+  );
+}
@@ -0,0 +1,127 @@
+import {
+  isAddress,
+  isHex,
+  verifyTypedData,
+  type Address,
+  type Hex,
+  type TypedDataDomain,
+} from "viem";
+
+// How long a signature stays valid when no deadline is given, in seconds
+export const SIGNED_MESSAGE_TTL_SECONDS = 60 * 60;
+
+// EIP-712 types of MessageStorage.storeSignedMessage
+export const signedMessageTypes = {
+  Message: [
+    { name: "message", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+// A message signed off-chain by its author, ready to be submitted by anyone
+export interface SignedMessage {
+  message: Hex;
+  author: Address;
+  nonce: bigint;
+  // Last block timestamp (seconds) at which the signature is valid
+  deadline: bigint;
+  signature: Hex;
+}
+
+// SignedMessage as sent over HTTP, with the integers as decimal strings
+export interface SignedMessageJson {
+  message: Hex;
+  author: Address;
+  nonce: string;
+  deadline: string;
+  signature: Hex;
+}
+
+/**
+ * Build the EIP-712 domain signed messages are bound to
+ * @param chainId The chain the board is deployed on
+ * @param verifyingContract The board's address (the proxy, if proxied)
+ * @returns The domain
+ */
+export function getSignedMessageDomain(
+  chainId: number,
+  verifyingContract: Address
+): TypedDataDomain {
+  return { name: "MessageStorage", version: "1", chainId, verifyingContract };
+}
+
+/**
+ * Check a signed message's signature off-chain, without the board's nonce,
+ * deadline or writer checks
+ * @param signed The signed message
+ * @param chainId The chain the board is deployed on
+ * @param verifyingContract The board's address
+ * @returns True if the author signed the message, nonce and deadline
+ */
+export async function verifySignedMessage(
+  { message, author, nonce, deadline, signature }: SignedMessage,
+  chainId: number,
+  verifyingContract: Address
+): Promise<boolean> {
+  return verifyTypedData({
+    address: author,
+    domain: getSignedMessageDomain(chainId, verifyingContract),
+    types: signedMessageTypes,
+    primaryType: "Message",
+    message: { message, nonce, deadline },
+    signature,
+  });
+}
+
+/**
+ * Convert a signed message to the form sent over HTTP
+ * @param signed The signed message
+ * @returns The JSON-safe message
+ */
+export function toSignedMessageJson(signed: SignedMessage): SignedMessageJson {
+  return {
+    ...signed,
+    nonce: signed.nonce.toString(),
+    deadline: signed.deadline.toString(),
+  };
+}
+
+/**
+ * Validate a signed message received as JSON
+ * @param value The parsed JSON
+ * @returns The signed message
+ */
+export function parseSignedMessageJson(value: unknown): SignedMessage {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid signed message: ${reason}`);
+  };
+  if (typeof value !== "object" || value === null) {
+    return fail("expected an object");
+  }
+
+  const json = value as Partial<Record<keyof SignedMessageJson, unknown>>;
+  const hex = (field: "message" | "signature"): Hex => {
+    const raw = json[field];
+    return typeof raw === "string" && isHex(raw) && raw.length > 2
+      ? raw
+      : fail(`${field} must be a non-empty hex string`);
+  };
+  const uint = (field: "nonce" | "deadline"): bigint => {
+    const raw = json[field];
+    return typeof raw === "string" && /^\d+$/.test(raw)
+      ? BigInt(raw)
+      : fail(`${field} must be a decimal string`);
+  };
+
+  return {
+    message: hex("message"),
+    author:
+      typeof json.author === "string" && isAddress(json.author)
+        ? json.author
+        : fail("author must be an address"),
+    nonce: uint("nonce"),
+    deadline: uint("deadline"),
+    signature: hex("signature"),
+  };
+}
@@ -0,0 +1,140 @@
+// Storage layout as emitted by solc under outputSelection "storageLayout"
+export interface StorageLayoutVariable {
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  label: string;
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  numberOfBytes: string;
+  // Mappings
+  key?: string;
+  value?: string;
+  // Dynamic arrays
+  base?: string;
+  // Structs
+  members?: StorageLayoutVariable[];
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutVariable[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * Strip a layout down to what identifies it: solc's output also carries AST
+ * ids and contract names, which change between unrelated builds
+ * @param layout The layout from the build info
+ * @returns The layout as recorded in deployment manifests
+ */
+export function normalizeStorageLayout(layout: StorageLayout): StorageLayout {
+  const variable = ({ label, offset, slot, type }: StorageLayoutVariable) => ({
+    label,
+    offset,
+    slot,
+    type,
+  });
+
+  return {
+    storage: layout.storage.map(variable),
+    types: Object.fromEntries(
+      Object.entries(layout.types ?? {}).map(([id, type]) => [
+        id,
+        type.members ? { ...type, members: type.members.map(variable) } : type,
+      ])
+    ),
+  };
+}
+
+/**
+ * Check whether a new implementation can take over the storage of an old one.
+ * Every existing variable must keep its name, slot, offset and type; new
+ * variables may only be added after the last slot in use.
+ * @param previous The layout the proxy's storage was written with
+ * @param next The layout of the new implementation
+ * @returns One message per incompatibility (empty when compatible)
+ */
+export function compareStorageLayouts(
+  previous: StorageLayout,
+  next: StorageLayout
+): string[] {
+  const problems: string[] = [];
+  const position = ({ slot, offset }: StorageLayoutVariable) =>
+    `${slot}:${offset}`;
+  const nextByPosition = new Map(next.storage.map((v) => [position(v), v]));
+
+  let endSlot = -1n;
+  for (const variable of previous.storage) {
+    const size = BigInt(previous.types?.[variable.type]?.numberOfBytes ?? 32);
+    const lastSlot =
+      BigInt(variable.slot) + (BigInt(variable.offset) + size - 1n) / 32n;
+    if (lastSlot > endSlot) {
+      endSlot = lastSlot;
+    }
+
+    const where = `slot ${variable.slot}, offset ${variable.offset}`;
+    const replacement = nextByPosition.get(position(variable));
+    if (replacement === undefined) {
+      problems.push(`${variable.label} (${where}) was removed or moved`);
+      continue;
+    }
+    if (replacement.label !== variable.label) {
+      problems.push(
+        `${variable.label} (${where}) was replaced by ${replacement.label}`
+      );
+    }
+
+    const previousType = describeType(previous, variable.type);
+    const nextType = describeType(next, replacement.type);
+    if (previousType !== nextType) {
+      problems.push(
+        `${variable.label} (${where}) changed type from ` +
+          `${typeLabel(previous, variable.type)} to ` +
+          `${typeLabel(next, replacement.type)}`
+      );
+    }
+  }
+
+  const previousPositions = new Set(previous.storage.map(position));
+  for (const variable of next.storage) {
+    if (
+      !previousPositions.has(position(variable)) &&
+      BigInt(variable.slot) <= endSlot
+    ) {
+      problems.push(
+        `${variable.label} (slot ${variable.slot}, offset ${variable.offset}) ` +
+          "was inserted into existing storage"
+      );
+    }
+  }
+
+  return problems;
+}
+
+// A type's structure as a string, independent of the AST ids in its name
+function describeType(layout: StorageLayout, id: string): string {
+  const type = layout.types?.[id];
+  if (type === undefined) {
+    return id;
+  }
+
+  const parts = [type.label, type.encoding, type.numberOfBytes];
+  if (type.key !== undefined) parts.push(describeType(layout, type.key));
+  if (type.value !== undefined) parts.push(describeType(layout, type.value));
+  if (type.base !== undefined) parts.push(describeType(layout, type.base));
+  for (const member of type.members ?? []) {
+    parts.push(
+      `${member.label}@${member.slot}:${member.offset}=` +
+        describeType(layout, member.type)
+    );
+  }
+
+  return `(${parts.join(",")})`;
+}
+
+function typeLabel(layout: StorageLayout, id: string): string {
+  return layout.types?.[id]?.label ?? id;
+}
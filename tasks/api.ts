@@ -0,0 +1,49 @@
+import { task, types } from "hardhat/config";
+import { FileHistoryStore, MessageApiServer } from "../src";
+import { getMessageStorageClient } from "./utils";
+
+// Serve a board's decoded messages over a local read-only HTTP API:
+//
+//   npx hardhat api:start --network sepolia
+//   npx hardhat api:start --history history/sepolia.json --network sepolia
+//   curl "http://127.0.0.1:8788/messages?since=2025-01-01T00:00:00Z"
+
+task("api:start", "Serve the board's messages over HTTP until interrupted")
+  .addOptionalParam(
+    "contract",
+    "MessageStorage address (defaults to deployments/<network>.json)"
+  )
+  .addOptionalParam("port", "Port to listen on", 8788, types.int)
+  .addOptionalParam("host", "Interface to bind", "127.0.0.1")
+  .addOptionalParam(
+    "history",
+    "History file written by scripts/index-history.ts, to also serve overwritten messages"
+  )
+  .addOptionalParam(
+    "pollingInterval",
+    "Delay between polls for streamed messages in milliseconds",
+    4000,
+    types.int
+  )
+  .setAction(
+    async (
+      { contract, port, host, history, pollingInterval },
+      hre
+    ): Promise<void> => {
+      const client = await getMessageStorageClient(hre, contract);
+      const server = new MessageApiServer({
+        address: client.address,
+        publicClient: client.publicClient,
+        history:
+          history === undefined ? undefined : new FileHistoryStore(history),
+        pollingInterval,
+        onError: (error) => console.error("Reading the board failed:", error),
+      });
+
+      const url = await server.listen(port, host);
+      console.log(`Serving ${client.address} on ${hre.network.name} at ${url}`);
+
+      await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+      await server.close();
+    }
+  );
@@ -0,0 +1,190 @@
+import { task, types } from "hardhat/config";
+import { encodeFunctionData, type Address } from "viem";
+import {
+  messageStorageAbi,
+  writeDeployment,
+  DEPLOYMENT_MANIFEST_VERSION,
+  DEPLOYMENTS_DIR,
+  ENTRY_HEADER_FORMAT,
+  MESSAGE_STORAGE_ABI_VERSION,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+  type DeploymentManifest,
+} from "../src";
+import {
+  deployContract,
+  getDeploymentTarget,
+  readStorageLayout,
+  type DeploymentTarget,
+  type DeployResult,
+} from "./deployers";
+import { getCompilerInfo } from "./utils";
+
+// Deploy a board or the board factory to the selected network. Networks with
+// `zksync: true` in hardhat.config.ts go through the zkSync deployer, every
+// other network through viem. RPC URLs and accounts come from the config:
+//
+//   npx hardhat deploy:messages --network sepolia
+//   npx hardhat deploy:messages --network zksync --capacity 64
+//   npx hardhat deploy:messages --network mantle --contract MessageStorageFactory
+//   npx hardhat deploy:messages --network sepolia --proxy
+//   npx hardhat deploy:messages --network localhost --dry-run
+
+const DEPLOYABLE_CONTRACTS = ["MessageStorage", "MessageStorageFactory"];
+
+interface DeployArgs {
+  contract: string;
+  capacity: number;
+  maxMessageSize: number;
+  proxy: boolean;
+  dryRun: boolean;
+  deploymentsDir: string;
+}
+
+// What a deployment would do, reported by --dry-run instead of sending it
+export interface DeploymentPlan {
+  network: string;
+  chainId: number;
+  target: DeploymentTarget;
+  contract: string;
+  constructorArgs: Record<string, number>;
+  deployer: Address;
+  estimatedGas: number;
+  // Only known up front on the EVM path
+  predictedAddress?: Address;
+}
+
+task("deploy:messages", "Deploy MessageStorage to the selected network")
+  .addOptionalParam(
+    "contract",
+    `Contract to deploy (${DEPLOYABLE_CONTRACTS.join(" or ")})`,
+    "MessageStorage"
+  )
+  .addOptionalParam(
+    "capacity",
+    "Messages kept before the oldest is overwritten",
+    MAX_MESSAGES,
+    types.int
+  )
+  .addOptionalParam(
+    "maxMessageSize",
+    "Maximum message length in bytes",
+    MAX_MESSAGE_SIZE_BYTES,
+    types.int
+  )
+  .addFlag(
+    "proxy",
+    "Deploy the board behind a MessageStorageProxy so it can be upgraded"
+  )
+  .addFlag("dryRun", "Estimate the deployment without sending or saving it")
+  .addOptionalParam(
+    "deploymentsDir",
+    "Directory for <network>.json",
+    DEPLOYMENTS_DIR
+  )
+  .setAction(async (args: DeployArgs, hre) => {
+    if (!DEPLOYABLE_CONTRACTS.includes(args.contract)) {
+      throw new Error(
+        `Invalid contract: ${
+          args.contract
+        } (expected ${DEPLOYABLE_CONTRACTS.join(" or ")})`
+      );
+    }
+    if (args.proxy && args.contract !== "MessageStorage") {
+      throw new Error("Only MessageStorage can be deployed behind a proxy");
+    }
+    if (args.proxy && args.dryRun) {
+      // The proxy's constructor calls into an implementation that a dry run
+      // never deploys, so there is nothing to estimate it against
+      throw new Error("--dry-run can't plan a proxy deployment");
+    }
+
+    // Boards are sized per call to createBoard, so the factory takes no args
+    const constructorArgs: Record<string, number> =
+      args.contract === "MessageStorage"
+        ? { capacity: args.capacity, maxMessageSize: args.maxMessageSize }
+        : {};
+
+    const target = getDeploymentTarget(hre);
+    console.log(
+      `Deploying ${args.contract} to ${hre.network.name} (${target})` +
+        (args.proxy ? " behind a proxy" : "") +
+        (args.dryRun ? " [dry run]" : "")
+    );
+
+    const result = await deployContract(
+      hre,
+      args.contract,
+      Object.values(constructorArgs).map(BigInt),
+      args.dryRun
+    );
+
+    if ("estimatedGas" in result) {
+      const plan: DeploymentPlan = {
+        network: hre.network.name,
+        target,
+        contract: args.contract,
+        constructorArgs,
+        ...result,
+      };
+      console.log(JSON.stringify(plan, null, 2));
+      return plan;
+    }
+
+    // The board's state lives in the proxy; the manifest's hashes describe
+    // the implementation it delegates to
+    let deployment: DeployResult = result;
+    let proxy: DeploymentManifest["proxy"];
+    if (args.proxy) {
+      console.log(`Implementation deployed to: ${result.address}`);
+      const proxyResult = await deployContract(
+        hre,
+        "MessageStorageProxy",
+        [
+          result.address,
+          encodeFunctionData({
+            abi: messageStorageAbi,
+            functionName: "initialize",
+            args: [result.deployer],
+          }),
+        ],
+        false
+      );
+      if ("estimatedGas" in proxyResult) {
+        throw new Error("Proxy deployment was not sent");
+      }
+
+      deployment = {
+        ...proxyResult,
+        bytecodeHash: result.bytecodeHash,
+        abiHash: result.abiHash,
+      };
+      proxy = {
+        implementation: result.address,
+        storageLayout: await readStorageLayout(hre, args.contract),
+        headerFormat: ENTRY_HEADER_FORMAT,
+      };
+    }
+
+    const manifest: DeploymentManifest = {
+      version: DEPLOYMENT_MANIFEST_VERSION,
+      network: hre.network.name,
+      chainId: deployment.chainId,
+      contract: args.contract,
+      abiVersion: MESSAGE_STORAGE_ABI_VERSION,
+      address: deployment.address,
+      ...(proxy && { proxy }),
+      deployer: deployment.deployer,
+      transactionHash: deployment.transactionHash,
+      blockNumber: deployment.blockNumber,
+      bytecodeHash: deployment.bytecodeHash,
+      abiHash: deployment.abiHash,
+      compiler: getCompilerInfo(hre, target === "zksync"),
+      constructorArgs,
+      deployedAt: new Date().toISOString(),
+    };
+    const deploymentPath = writeDeployment(manifest, args.deploymentsDir);
+    console.log(`${args.contract} deployed to: ${manifest.address}`);
+    console.log(`Deployment saved to ${deploymentPath}`);
+    return manifest;
+  });
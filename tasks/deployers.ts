@@ -0,0 +1,249 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  encodeDeployData,
+  getAddress,
+  getContractAddress,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import {
+  hashAbi,
+  hashBytecode,
+  normalizeStorageLayout,
+  type StorageLayout,
+} from "../src";
+
+// Deployment and transaction helpers shared by deploy:messages and
+// upgrade:messages. Networks with `zksync: true` go through the zkSync
+// deployer, every other network through viem.
+
+export type DeploymentTarget = "evm" | "zksync";
+
+// What a dry run learns about a deployment without sending it
+export interface PlanResult {
+  chainId: number;
+  deployer: Address;
+  estimatedGas: number;
+  // Only known up front on the EVM path
+  predictedAddress?: Address;
+}
+
+export interface DeployResult {
+  chainId: number;
+  address: Address;
+  deployer: Address;
+  transactionHash: Hash;
+  blockNumber: number;
+  bytecodeHash: Hash;
+  abiHash: Hash;
+}
+
+// A mined, successful transaction
+export interface CallResult {
+  transactionHash: Hash;
+  blockNumber: number;
+}
+
+/**
+ * Get the deployment path of the selected network
+ * @param hre The Hardhat runtime environment
+ * @returns "zksync" for networks marked zksync in the config
+ */
+export function getDeploymentTarget(
+  hre: HardhatRuntimeEnvironment
+): DeploymentTarget {
+  return hre.network.zksync ? "zksync" : "evm";
+}
+
+/**
+ * Deploy a contract, or only plan it, from the network's first account
+ * @param hre The Hardhat runtime environment
+ * @param contract The artifact name
+ * @param args The constructor arguments
+ * @param dryRun Estimate the deployment instead of sending it
+ * @returns The plan for a dry run, otherwise the deployment
+ */
+export async function deployContract(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  args: readonly unknown[],
+  dryRun: boolean
+): Promise<PlanResult | DeployResult> {
+  const deploy =
+    getDeploymentTarget(hre) === "zksync" ? deployZkSync : deployEvm;
+  return deploy(hre, contract, args, dryRun);
+}
+
+/**
+ * Send a call from the network's first account and wait for it to be mined
+ * @param hre The Hardhat runtime environment
+ * @param to The contract to call
+ * @param data The encoded call
+ * @returns The transaction hash and block
+ */
+export async function sendCall(
+  hre: HardhatRuntimeEnvironment,
+  to: Address,
+  data: Hex
+): Promise<CallResult> {
+  if (getDeploymentTarget(hre) === "zksync") {
+    const wallet = await hre.deployer.getWallet();
+    const transaction = await wallet.sendTransaction({ to, data });
+    const receipt = await transaction.wait();
+    if (receipt === null || receipt.status !== 1) {
+      throw new Error(`Transaction ${transaction.hash} reverted`);
+    }
+    return {
+      transactionHash: transaction.hash as Hash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  const publicClient = await hre.viem.getPublicClient();
+  const [walletClient] = await hre.viem.getWalletClients();
+  const hash = await walletClient.sendTransaction({ to, data });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+  return { transactionHash: hash, blockNumber: Number(receipt.blockNumber) };
+}
+
+/**
+ * Read a contract's storage layout from its build info
+ * @param hre The Hardhat runtime environment
+ * @param contract The artifact name
+ * @returns The normalized layout
+ */
+export async function readStorageLayout(
+  hre: HardhatRuntimeEnvironment,
+  contract: string
+): Promise<StorageLayout> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(
+    contract
+  );
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${sourceName}:${contractName}`
+  );
+  // Hardhat's compiler output type leaves out the optional storageLayout
+  const output = buildInfo?.output.contracts[sourceName]?.[contractName] as
+    | { storageLayout?: StorageLayout }
+    | undefined;
+  const layout = output?.storageLayout;
+
+  if (layout === undefined) {
+    throw new Error(
+      `No storage layout for ${contract} in the build info; ` +
+        "storageLayout must be in the compiler's outputSelection"
+    );
+  }
+  return normalizeStorageLayout(layout);
+}
+
+/**
+ * Deploy through viem with the network's first configured account
+ */
+async function deployEvm(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  args: readonly unknown[],
+  dryRun: boolean
+): Promise<PlanResult | DeployResult> {
+  const publicClient = await hre.viem.getPublicClient();
+  const [walletClient] = await hre.viem.getWalletClients();
+  const deployer = getAddress(walletClient.account.address);
+  const chainId = await publicClient.getChainId();
+  const { abi, bytecode } = await hre.artifacts.readArtifact(contract);
+
+  if (dryRun) {
+    const data = encodeDeployData({
+      abi: abi as Abi,
+      bytecode: bytecode as Hex,
+      args,
+    });
+    const nonce = await publicClient.getTransactionCount({ address: deployer });
+
+    return {
+      chainId,
+      deployer,
+      estimatedGas: Number(
+        await publicClient.estimateGas({ account: deployer, data })
+      ),
+      predictedAddress: getContractAddress({
+        from: deployer,
+        nonce: BigInt(nonce),
+      }),
+    };
+  }
+
+  const { contract: deployed, deploymentTransaction } =
+    await hre.viem.sendDeploymentTransaction(contract, [...args]);
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: deploymentTransaction.hash,
+  });
+  if (receipt.status !== "success") {
+    throw new Error(
+      `Deployment transaction ${receipt.transactionHash} reverted`
+    );
+  }
+
+  return {
+    chainId,
+    address: deployed.address,
+    deployer,
+    transactionHash: receipt.transactionHash,
+    blockNumber: Number(receipt.blockNumber),
+    bytecodeHash: hashBytecode(bytecode as Hex),
+    abiHash: hashAbi(abi as Abi),
+  };
+}
+
+/**
+ * Deploy through the zkSync deployer, which builds its wallet and providers
+ * from the network's url, ethNetwork and accounts
+ */
+async function deployZkSync(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  args: readonly unknown[],
+  dryRun: boolean
+): Promise<PlanResult | DeployResult> {
+  const wallet = await hre.deployer.getWallet();
+  const deployer = getAddress(wallet.address);
+  const { chainId } = await wallet.provider.getNetwork();
+  const artifact = await hre.deployer.loadArtifact(contract);
+
+  if (dryRun) {
+    return {
+      chainId: Number(chainId),
+      deployer,
+      estimatedGas: Number(
+        await hre.deployer.estimateDeployGas(artifact, [...args])
+      ),
+    };
+  }
+
+  const deployed = await hre.deployer.deploy(artifact, [...args]);
+  const transaction = deployed.deploymentTransaction();
+  if (transaction === null) {
+    throw new Error(`No deployment transaction for ${contract}`);
+  }
+  const receipt = await transaction.wait();
+  if (receipt === null) {
+    throw new Error(
+      `No receipt for deployment transaction ${transaction.hash}`
+    );
+  }
+
+  return {
+    chainId: Number(chainId),
+    address: getAddress(await deployed.getAddress()),
+    deployer,
+    transactionHash: transaction.hash as Hash,
+    blockNumber: receipt.blockNumber,
+    bytecodeHash: hashBytecode(artifact.bytecode as Hex),
+    abiHash: hashAbi(artifact.abi as Abi),
+  };
+}
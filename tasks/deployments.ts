@@ -0,0 +1,362 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  isAddress,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import {
+  hashAbi,
+  hashBytecode,
+  parseDeploymentManifest,
+  writeDeployment,
+  DEPLOYMENT_MANIFEST_VERSION,
+  DEPLOYMENTS_DIR,
+  MESSAGE_STORAGE_ABI_VERSION,
+  type DeploymentManifest,
+} from "../src";
+import { getCompilerInfo } from "./utils";
+
+// Upgrade deployments/<network>.json files written before the manifest was
+// versioned, or with an older manifest version. Fields the old files lack
+// are filled from the network config, the zkSync deployer's records in
+// deployments-zk/ and, unless --offline is given, the chain itself:
+//
+//   npx hardhat deployments:migrate
+//   npx hardhat deployments:migrate --offline
+
+interface MigrateArgs {
+  deploymentsDir: string;
+  zkDeploymentsDir?: string;
+  offline: boolean;
+}
+
+// Fields found in deployment files older than manifest version 1
+interface LegacyDeployment {
+  version?: number;
+  network?: string;
+  chainId?: number;
+  contract?: string;
+  address?: string;
+  constructorArgs?: Record<string, number>;
+  deployer?: string;
+  transactionHash?: Hash;
+  deploymentTime?: string;
+  timestamp?: string;
+}
+
+// Manifest version 1, which didn't record the board's ABI version
+type ManifestV1 = Omit<DeploymentManifest, "version" | "abiVersion"> & {
+  version: 1;
+};
+
+// A contract's entry in deployments-zk/<network>/contracts/
+interface ZkDeploymentRecord {
+  abi: Abi;
+  bytecode: Hex;
+  entries: { address: string; txHash: Hash }[];
+}
+
+task(
+  "deployments:migrate",
+  "Upgrade deployment files to the current manifest version"
+)
+  .addOptionalParam(
+    "deploymentsDir",
+    "Directory for <network>.json",
+    DEPLOYMENTS_DIR
+  )
+  .addOptionalParam(
+    "zkDeploymentsDir",
+    "Directory of the zkSync deployer's records (default: deployments-zk)"
+  )
+  .addFlag("offline", "Only use the files and config, never query a chain")
+  .setAction(async (args: MigrateArgs, hre) => {
+    const files = fs
+      .readdirSync(args.deploymentsDir)
+      .filter((file) => file.endsWith(".json"))
+      .sort();
+
+    const migrated: DeploymentManifest[] = [];
+    for (const file of files) {
+      const filePath = path.join(args.deploymentsDir, file);
+      const legacy: LegacyDeployment = JSON.parse(
+        fs.readFileSync(filePath, "utf8")
+      );
+
+      if (legacy.version === DEPLOYMENT_MANIFEST_VERSION) {
+        // Already current, but still make sure it loads
+        parseDeploymentManifest(legacy, filePath);
+        continue;
+      }
+      let manifest: DeploymentManifest;
+      if (legacy.version === 1) {
+        manifest = migrateManifestV1(legacy as unknown as ManifestV1);
+      } else if (legacy.version === undefined) {
+        manifest = await migrateDeployment(
+          hre,
+          path.basename(file, ".json"),
+          legacy,
+          args
+        );
+      } else {
+        throw new Error(
+          `Unknown manifest version ${legacy.version} in ${filePath}`
+        );
+      }
+      parseDeploymentManifest(manifest, filePath);
+      writeDeployment(manifest, args.deploymentsDir);
+      console.log(
+        `Migrated ${filePath} to manifest version ${DEPLOYMENT_MANIFEST_VERSION}`
+      );
+      migrated.push(manifest);
+    }
+
+    if (migrated.length === 0) {
+      console.log("All deployment files are up to date");
+    }
+    return migrated;
+  });
+
+/**
+ * Build a current manifest from a legacy deployment file
+ * @param hre The Hardhat runtime environment
+ * @param network The network the file is named after
+ * @param legacy The file contents
+ * @param args The task arguments
+ * @returns The upgraded manifest
+ */
+async function migrateDeployment(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  legacy: LegacyDeployment,
+  args: MigrateArgs
+): Promise<DeploymentManifest> {
+  const networkConfig = hre.config.networks[network];
+  const zksync = networkConfig?.zksync === true;
+  // Every deployment before manifests was a MessageStorage board
+  const contract = legacy.contract ?? "MessageStorage";
+
+  // The zkSync deployer keeps its own record, including the address that
+  // older zkSync deployment files left out
+  const zkRecord = zksync
+    ? readZkDeployment(
+        args.zkDeploymentsDir ??
+          path.join(hre.config.paths.root, "deployments-zk"),
+        network,
+        contract
+      )
+    : undefined;
+  const zkEntry = zkRecord?.entries
+    .filter(
+      ({ address }) =>
+        legacy.address === undefined ||
+        address.toLowerCase() === legacy.address.toLowerCase()
+    )
+    .pop();
+
+  const address = legacy.address ?? zkEntry?.address;
+  if (address === undefined || !isAddress(address)) {
+    throw new Error(`No contract address recorded for network ${network}`);
+  }
+
+  const client = args.offline
+    ? undefined
+    : await getPublicClientFor(hre, network);
+  const chainId =
+    legacy.chainId ?? networkConfig?.chainId ?? (await client?.getChainId());
+  if (chainId === undefined) {
+    throw new Error(
+      `Unknown chain id for network ${network}; ` +
+        "set chainId in hardhat.config.ts or run without --offline"
+    );
+  }
+
+  let transactionHash = legacy.transactionHash ?? zkEntry?.txHash ?? null;
+  let blockNumber: number | null = null;
+  if (client !== undefined) {
+    const found = await findDeployment(
+      client,
+      getAddress(address),
+      transactionHash
+    );
+    transactionHash = found?.transactionHash ?? transactionHash;
+    blockNumber = found?.blockNumber ?? null;
+  }
+
+  const constructorArgs = legacy.constructorArgs ?? {};
+  return {
+    version: DEPLOYMENT_MANIFEST_VERSION,
+    network,
+    chainId,
+    contract,
+    abiVersion: inferAbiVersion(contract, constructorArgs),
+    address: getAddress(address),
+    deployer:
+      legacy.deployer === undefined ? null : getAddress(legacy.deployer),
+    transactionHash,
+    blockNumber,
+    // Only the zkSync deployer kept the build that was deployed
+    bytecodeHash: zkRecord && zkEntry ? hashBytecode(zkRecord.bytecode) : null,
+    abiHash: zkRecord && zkEntry ? hashAbi(zkRecord.abi) : null,
+    compiler: getCompilerInfo(hre, zksync),
+    constructorArgs,
+    deployedAt: legacy.deploymentTime ?? legacy.timestamp ?? null,
+  };
+}
+
+/**
+ * Add the fields manifest version 2 introduced to a version 1 manifest
+ * @param manifest The version 1 manifest
+ * @returns The upgraded manifest
+ */
+function migrateManifestV1({
+  version,
+  network,
+  chainId,
+  contract,
+  ...rest
+}: ManifestV1): DeploymentManifest {
+  return {
+    version: DEPLOYMENT_MANIFEST_VERSION,
+    network,
+    chainId,
+    contract,
+    abiVersion: inferAbiVersion(contract, rest.constructorArgs),
+    ...rest,
+  };
+}
+
+/**
+ * Tell the original boards apart from current ones in files that didn't
+ * record an ABI version
+ * @param contract The deployed contract's name
+ * @param constructorArgs The recorded constructor arguments
+ * @returns The contract's MESSAGE_STORAGE_ABI_VERSION
+ */
+function inferAbiVersion(
+  contract: string,
+  constructorArgs: Record<string, number>
+): number {
+  // Boards took no constructor arguments before the ring was configurable,
+  // and only those boards have the original ABI
+  return contract === "MessageStorage" &&
+    Object.keys(constructorArgs).length === 0
+    ? 1
+    : MESSAGE_STORAGE_ABI_VERSION;
+}
+
+/**
+ * Read the zkSync deployer's record of a contract
+ * @param zkDeploymentsDir The deployer's output directory
+ * @param network The network name
+ * @param contract The contract name
+ * @returns The record, or undefined if there is none
+ */
+function readZkDeployment(
+  zkDeploymentsDir: string,
+  network: string,
+  contract: string
+): ZkDeploymentRecord | undefined {
+  const recordPath = path.join(
+    zkDeploymentsDir,
+    network,
+    "contracts",
+    `${contract}.sol`,
+    `${contract}.json`
+  );
+  if (!fs.existsSync(recordPath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(recordPath, "utf8"));
+}
+
+/**
+ * Connect to a network other than the selected one through its configured url
+ * @param hre The Hardhat runtime environment
+ * @param network The network name
+ * @returns A public client, or undefined if the network has no url
+ */
+async function getPublicClientFor(
+  hre: HardhatRuntimeEnvironment,
+  network: string
+): Promise<PublicClient | undefined> {
+  if (network === hre.network.name) {
+    return hre.viem.getPublicClient();
+  }
+
+  const networkConfig = hre.config.networks[network];
+  if (networkConfig === undefined || !("url" in networkConfig)) {
+    return undefined;
+  }
+  return createPublicClient({ transport: http(networkConfig.url) });
+}
+
+/**
+ * Find the transaction and block that deployed a contract. Without a known
+ * transaction this binary-searches for the first block with code at the
+ * address, which needs an archive node.
+ * @param client A client for the contract's chain
+ * @param address The contract address
+ * @param transactionHash The deployment transaction, if already known
+ * @returns The deployment, or undefined if the address has no code
+ */
+async function findDeployment(
+  client: PublicClient,
+  address: Address,
+  transactionHash: Hash | null
+): Promise<{ transactionHash: Hash | null; blockNumber: number } | undefined> {
+  if (transactionHash !== null) {
+    const receipt = await client.getTransactionReceipt({
+      hash: transactionHash,
+    });
+    return { transactionHash, blockNumber: Number(receipt.blockNumber) };
+  }
+
+  const hasCode = async (blockNumber: bigint) =>
+    ((await client.getCode({ address, blockNumber })) ?? "0x") !== "0x";
+
+  let low = 0n;
+  let high = await client.getBlockNumber();
+  if (!(await hasCode(high))) {
+    return undefined;
+  }
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (await hasCode(middle)) {
+      high = middle;
+    } else {
+      low = middle + 1n;
+    }
+  }
+
+  const block = await client.getBlock({
+    blockNumber: low,
+    includeTransactions: true,
+  });
+  for (const transaction of block.transactions) {
+    if (transaction.to !== null) {
+      continue;
+    }
+    const receipt = await client.getTransactionReceipt({
+      hash: transaction.hash,
+    });
+    if (
+      receipt.contractAddress &&
+      getAddress(receipt.contractAddress) === address
+    ) {
+      return { transactionHash: transaction.hash, blockNumber: Number(low) };
+    }
+  }
+
+  // Created by another contract, so there is no transaction of its own
+  return { transactionHash: null, blockNumber: Number(low) };
+}
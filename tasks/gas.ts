@@ -0,0 +1,112 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import {
+  compareGasReports,
+  measureBackends,
+  measureGas,
+  readGasReport,
+  renderBackendMarkdown,
+  renderGasMarkdown,
+  writeGasReport,
+} from "./gasBenchmark";
+
+// Measure gas on the local Hardhat network and compare it to the committed
+// baseline, failing when any case costs more than the tolerance allows:
+//
+//   npx hardhat gas:benchmark
+//   npx hardhat gas:benchmark --update-baseline
+//
+// Or measure the same cases on every storage backend side by side:
+//
+//   npx hardhat gas:compare
+
+const DEFAULT_BASELINE = "benchmarks/gas-baseline.json";
+const DEFAULT_REPORT_DIR = "benchmarks/report";
+
+task("gas:benchmark", "Measure gas use and compare it to the baseline")
+  .addOptionalParam("baseline", "Baseline JSON file", DEFAULT_BASELINE)
+  .addOptionalParam(
+    "out",
+    "Directory for gas.json and gas.md",
+    DEFAULT_REPORT_DIR
+  )
+  .addOptionalParam(
+    "tolerance",
+    "Allowed increase over the baseline, in percent",
+    2,
+    types.float
+  )
+  .addFlag("updateBaseline", "Replace the baseline with this run's results")
+  .setAction(async ({ baseline, out, tolerance, updateBaseline }, hre) => {
+    // Every case deploys fresh boards, which only makes sense locally
+    if (hre.network.name !== "hardhat") {
+      throw new Error(
+        `gas:benchmark only runs on the hardhat network, not ${hre.network.name}`
+      );
+    }
+
+    const root = hre.config.paths.root;
+    const baselinePath = path.resolve(root, baseline);
+    const reportDir = path.resolve(root, out);
+    const allowed = tolerance / 100;
+
+    const report = await measureGas(hre);
+
+    if (updateBaseline) {
+      writeGasReport(baselinePath, report);
+      console.log(`Wrote gas baseline to ${baselinePath}`);
+    }
+
+    const previous = readGasReport(baselinePath);
+    if (previous === undefined) {
+      throw new Error(
+        `No gas baseline at ${baselinePath}; run with --update-baseline to create it`
+      );
+    }
+
+    const comparisons = compareGasReports(report, previous, allowed);
+    const markdown = renderGasMarkdown(report, comparisons, allowed);
+    writeGasReport(path.join(reportDir, "gas.json"), report);
+    fs.writeFileSync(path.join(reportDir, "gas.md"), markdown);
+    console.log(markdown);
+
+    const regressions = comparisons.filter((c) => c.regressed);
+    if (regressions.length > 0) {
+      throw new Error(
+        `Gas regression above ${tolerance}% in: ${regressions
+          .map((c) => `${c.name} (${c.baseline} -> ${c.gas})`)
+          .join(", ")}`
+      );
+    }
+
+    return report;
+  });
+
+task("gas:compare", "Measure gas use of every storage backend side by side")
+  .addOptionalParam(
+    "out",
+    "Directory for backends.json and backends.md",
+    DEFAULT_REPORT_DIR
+  )
+  .setAction(async ({ out }, hre) => {
+    if (hre.network.name !== "hardhat") {
+      throw new Error(
+        `gas:compare only runs on the hardhat network, not ${hre.network.name}`
+      );
+    }
+
+    const reportDir = path.resolve(hre.config.paths.root, out);
+    const report = await measureBackends(hre);
+    const markdown = renderBackendMarkdown(report);
+
+    fs.mkdirSync(reportDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(reportDir, "backends.json"),
+      JSON.stringify(report, null, 2) + "\n"
+    );
+    fs.writeFileSync(path.join(reportDir, "backends.md"), markdown);
+    console.log(markdown);
+
+    return report;
+  });
@@ -0,0 +1,426 @@
+import fs from "fs";
+import path from "path";
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  MessageStorageClient,
+  messageStorageAbi,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
+
+// Bumped whenever the report format changes incompatibly
+export const GAS_REPORT_VERSION = 1;
+
+// Number of messages in the batch case
+const BATCH_SIZE = 8;
+
+// Every case runs on default boards with full-length messages
+const BENCHMARK_CONFIG: GasReport["config"] = {
+  capacity: MAX_MESSAGES,
+  maxMessageSize: MAX_MESSAGE_SIZE_BYTES,
+  messageBytes: MAX_MESSAGE_SIZE_BYTES,
+};
+
+// Contracts implementing IMessageBuffer that gas:compare measures
+export const STORAGE_BACKENDS = [
+  {
+    contract: "MessageStorage",
+    description: "Packed header slot plus one slot per 32 message bytes",
+    reads: true,
+  },
+  {
+    contract: "MessageStorageAssembly",
+    description: "MessageStorage's layout behind an inline assembly dispatcher",
+    reads: true,
+  },
+  {
+    contract: "MessageStorageSSTORE2",
+    description: "One slot per entry pointing at a data contract's bytecode",
+    reads: true,
+  },
+  {
+    contract: "MessageStorageEventLog",
+    description: "One commitment slot per entry; messages only in event logs",
+    // Read from logs off-chain with EventLogMessageReader
+    reads: false,
+  },
+] as const;
+
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number]["contract"];
+
+// One measured operation
+export interface GasCase {
+  name: string;
+  description: string;
+  // Messages written by the operation (0 for reads)
+  messages: number;
+  gas: number;
+}
+
+export interface GasReport {
+  version: number;
+  // Board the cases were measured on
+  config: {
+    capacity: number;
+    maxMessageSize: number;
+    messageBytes: number;
+  };
+  cases: GasCase[];
+}
+
+// A case's result next to its baseline
+export interface GasComparison {
+  name: string;
+  gas: number;
+  // Undefined when the baseline has no such case
+  baseline?: number;
+  // Relative change from the baseline (0.01 is 1% more gas)
+  change?: number;
+  regressed: boolean;
+}
+
+// The same cases measured on every backend
+export interface BackendGasReport {
+  version: number;
+  config: GasReport["config"];
+  backends: {
+    contract: StorageBackendName;
+    description: string;
+    // Gas used by the deployment transaction
+    deployment: number;
+    cases: GasCase[];
+  }[];
+}
+
+/**
+ * Build a full-length message whose every word differs between writes, so
+ * overwrites are never no-op SSTOREs
+ * @param i The write number
+ */
+function benchmarkMessage(i: number): string {
+  return String.fromCharCode(65 + (i % 26)).repeat(MAX_MESSAGE_SIZE_BYTES);
+}
+
+/**
+ * Measure storeMessage, storeMessages and the bulk reads on fresh default
+ * boards of the local Hardhat network
+ * @param hre The Hardhat runtime environment
+ * @param backend The contract to measure; backends without on-chain reads
+ * only get the write cases
+ * @return The measured cases
+ */
+export async function measureGas(
+  hre: HardhatRuntimeEnvironment,
+  backend: StorageBackendName = "MessageStorage"
+): Promise<GasReport> {
+  const [walletClient] = await hre.viem.getWalletClients();
+  const publicClient = await hre.viem.getPublicClient();
+  const { reads } = getBackend(backend);
+
+  const deployBoard = async () => {
+    // Typed artifact names don't accept a union of them
+    const board = await hre.viem.deployContract(backend as string, [
+      BigInt(MAX_MESSAGES),
+      BigInt(MAX_MESSAGE_SIZE_BYTES),
+    ]);
+    return new MessageStorageClient({
+      address: board.address,
+      publicClient,
+      walletClient,
+    });
+  };
+  const storeGas = async (client: MessageStorageClient, i: number) =>
+    Number((await client.storeMessage(benchmarkMessage(i))).receipt.gasUsed);
+  const account = walletClient.account;
+  const estimateRead = async (address: Address, data: Hex) =>
+    Number(await publicClient.estimateGas({ account, to: address, data }));
+
+  const cases: GasCase[] = [];
+
+  // Single writes: index 0 starts from an all-zero board, index 1 only
+  // writes fresh entry slots, and a write after wraparound replaces an entry
+  const singles = await deployBoard();
+  cases.push({
+    name: "storeMessage (cold)",
+    description:
+      "First message on a fresh board; entry and currentIndex start at zero",
+    messages: 1,
+    gas: await storeGas(singles, 0),
+  });
+  cases.push({
+    name: "storeMessage (warm)",
+    description: "Message into an unused entry once currentIndex is set",
+    messages: 1,
+    gas: await storeGas(singles, 1),
+  });
+  for (let i = 2; i <= MAX_MESSAGES; i++) {
+    await storeGas(singles, i);
+  }
+  cases.push({
+    name: "storeMessage (overwrite)",
+    description: "Message replacing an old entry after wraparound",
+    messages: 1,
+    gas: await storeGas(singles, MAX_MESSAGES + 1),
+  });
+
+  // A batch into unused entries, after the first write set currentIndex
+  const batched = await deployBoard();
+  await storeGas(batched, 0);
+  const { receipt } = await batched.storeMessages(
+    Array.from({ length: BATCH_SIZE }, (_, i) => benchmarkMessage(i + 1))
+  );
+  cases.push({
+    name: `storeMessages (${BATCH_SIZE} messages)`,
+    description: "Batch into unused entries once currentIndex is set",
+    messages: BATCH_SIZE,
+    gas: Number(receipt.gasUsed),
+  });
+
+  if (!reads) {
+    return {
+      version: GAS_REPORT_VERSION,
+      config: BENCHMARK_CONFIG,
+      cases,
+    };
+  }
+
+  // Reads run against the full, wrapped ring left by the single writes
+  cases.push({
+    name: "getAllMessages",
+    description: `Every entry of a full ring (${MAX_MESSAGES} messages)`,
+    messages: 0,
+    gas: await estimateRead(
+      singles.address,
+      encodeFunctionData({
+        abi: messageStorageAbi,
+        functionName: "getAllMessages",
+      })
+    ),
+  });
+  cases.push({
+    name: "getMessagesByAuthor",
+    description: "Every entry of a full ring by one author",
+    messages: 0,
+    gas: await estimateRead(
+      singles.address,
+      encodeFunctionData({
+        abi: messageStorageAbi,
+        functionName: "getMessagesByAuthor",
+        args: [account.address, BigInt(MAX_MESSAGES)],
+      })
+    ),
+  });
+  cases.push({
+    name: "getMessage",
+    description: "One full-length entry",
+    messages: 0,
+    gas: await estimateRead(
+      singles.address,
+      encodeFunctionData({
+        abi: messageStorageAbi,
+        functionName: "getMessage",
+        args: [0n],
+      })
+    ),
+  });
+
+  return {
+    version: GAS_REPORT_VERSION,
+    config: BENCHMARK_CONFIG,
+    cases,
+  };
+}
+
+/**
+ * Measure every storage backend with the same cases, plus its deployment
+ * @param hre The Hardhat runtime environment
+ * @return One set of cases per backend, MessageStorage first
+ */
+export async function measureBackends(
+  hre: HardhatRuntimeEnvironment
+): Promise<BackendGasReport> {
+  const publicClient = await hre.viem.getPublicClient();
+  const backends: BackendGasReport["backends"] = [];
+
+  for (const { contract, description } of STORAGE_BACKENDS) {
+    const { deploymentTransaction } = await hre.viem.sendDeploymentTransaction(
+      contract as string,
+      [BigInt(MAX_MESSAGES), BigInt(MAX_MESSAGE_SIZE_BYTES)]
+    );
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: deploymentTransaction.hash,
+    });
+
+    const { cases } = await measureGas(hre, contract);
+    backends.push({
+      contract,
+      description,
+      deployment: Number(receipt.gasUsed),
+      cases,
+    });
+  }
+
+  return { version: GAS_REPORT_VERSION, config: BENCHMARK_CONFIG, backends };
+}
+
+/**
+ * Render a backend comparison as a markdown table, one column per backend
+ * with its change relative to the first
+ * @param report The measurements of every backend
+ * @return The markdown document
+ */
+export function renderBackendMarkdown(report: BackendGasReport): string {
+  const { capacity, maxMessageSize, messageBytes } = report.config;
+  const [reference] = report.backends;
+  const rowNames = ["deployment", ...reference.cases.map(({ name }) => name)];
+  const gasOf = (backend: BackendGasReport["backends"][number], name: string) =>
+    name === "deployment"
+      ? backend.deployment
+      : backend.cases.find((c) => c.name === name)?.gas;
+
+  const rows = rowNames.map((name) => {
+    const base = gasOf(reference, name);
+    const cells = report.backends.map((backend) => {
+      const gas = gasOf(backend, name);
+      if (gas === undefined) {
+        return "-";
+      }
+      if (backend === reference || base === undefined) {
+        return `${gas}`;
+      }
+      const change = (gas - base) / base;
+      return `${gas} (${change >= 0 ? "+" : ""}${(change * 100).toFixed(1)}%)`;
+    });
+    return `| ${name} | ${cells.join(" | ")} |`;
+  });
+
+  return [
+    "# Storage backend comparison",
+    "",
+    `Board: capacity ${capacity}, max message size ${maxMessageSize} bytes. ` +
+      `Messages are ${messageBytes} bytes. Reads are measured with estimateGas; ` +
+      `"-" means the backend has no on-chain read. Changes are relative to ` +
+      `${reference.contract}.`,
+    "",
+    `| Case | ${report.backends.map((b) => b.contract).join(" | ")} |`,
+    `| ---- |${report.backends.map(() => " --- |").join("")}`,
+    ...rows,
+    "",
+    ...report.backends.map(
+      ({ contract, description }) => `- ${contract}: ${description}`
+    ),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Compare every case with the baseline's case of the same name
+ * @param report The current measurements
+ * @param baseline The committed baseline
+ * @param tolerance Allowed relative increase (0.02 is 2%)
+ * @return One comparison per case in the report
+ */
+export function compareGasReports(
+  report: GasReport,
+  baseline: GasReport,
+  tolerance: number
+): GasComparison[] {
+  const baselineGas = new Map(baseline.cases.map((c) => [c.name, c.gas]));
+
+  return report.cases.map(({ name, gas }) => {
+    const previous = baselineGas.get(name);
+    if (previous === undefined) {
+      return { name, gas, regressed: false };
+    }
+
+    const change = (gas - previous) / previous;
+    return {
+      name,
+      gas,
+      baseline: previous,
+      change,
+      regressed: change > tolerance,
+    };
+  });
+}
+
+/**
+ * Render a report and its comparison as a markdown table
+ * @param report The current measurements
+ * @param comparisons The comparison against the baseline
+ * @param tolerance Allowed relative increase (0.02 is 2%)
+ * @return The markdown document
+ */
+export function renderGasMarkdown(
+  report: GasReport,
+  comparisons: GasComparison[],
+  tolerance: number
+): string {
+  const { capacity, maxMessageSize, messageBytes } = report.config;
+  const byName = new Map(comparisons.map((c) => [c.name, c]));
+  const formatChange = (change?: number) =>
+    change === undefined
+      ? "new"
+      : `${change >= 0 ? "+" : ""}${(change * 100).toFixed(2)}%`;
+
+  const rows = report.cases.map(({ name, description, messages, gas }) => {
+    const comparison = byName.get(name);
+    const perMessage = messages > 0 ? Math.round(gas / messages) : "-";
+    const flag = comparison?.regressed ? " **regressed**" : "";
+    return `| ${name} | ${gas} | ${perMessage} | ${
+      comparison?.baseline ?? "-"
+    } | ${formatChange(comparison?.change)}${flag} | ${description} |`;
+  });
+
+  return [
+    "# Gas report",
+    "",
+    `Board: capacity ${capacity}, max message size ${maxMessageSize} bytes. ` +
+      `Messages are ${messageBytes} bytes. Reads are measured with estimateGas. ` +
+      `Tolerance: +${(tolerance * 100).toFixed(2)}%.`,
+    "",
+    "| Case | Gas | Gas per message | Baseline | Change | Description |",
+    "| ---- | --- | --------------- | -------- | ------ | ----------- |",
+    ...rows,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Read a report or baseline file
+ * @param filePath The JSON file
+ * @return The report, or undefined if the file doesn't exist
+ */
+export function readGasReport(filePath: string): GasReport | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const report: GasReport = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (report.version !== GAS_REPORT_VERSION) {
+    throw new Error(
+      `Unsupported gas report version ${report.version} in ${filePath}`
+    );
+  }
+  return report;
+}
+
+/**
+ * Write a report or baseline file, creating its directory if needed
+ * @param filePath The JSON file
+ * @param report The report to write
+ */
+export function writeGasReport(filePath: string, report: GasReport): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + "\n");
+}
+
+// Look up a backend by contract name
+function getBackend(contract: StorageBackendName) {
+  const backend = STORAGE_BACKENDS.find((b) => b.contract === contract);
+  if (backend === undefined) {
+    throw new Error(`Unknown storage backend ${contract}`);
+  }
+  return backend;
+}
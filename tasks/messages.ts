@@ -0,0 +1,308 @@
+import { task, types } from "hardhat/config";
+import {
+  DEPLOYMENTS_DIR,
+  MemoryHistoryStore,
+  MessageIndexer,
+  parseStoredMessages,
+  submitToRelayer,
+  toMessageJson,
+  type IndexedMessage,
+  type LegacyMessageStorageClient,
+  type LegacyMessage,
+  type StoredMessage,
+} from "../src";
+import { getBoardClient } from "./utils";
+
+// Post to and read from a deployed MessageStorage instance:
+//
+//   npx hardhat messages:post "gm" --network sepolia
+//   npx hardhat messages:post "gm" --relayer http://127.0.0.1:8787 --network sepolia
+//   npx hardhat messages:list --network mantle
+//   npx hardhat messages:list --json --network zksync
+//   npx hardhat messages:watch --network sepolia
+//
+// Boards whose manifest records ABI version 1 (the original 16 x 60-byte
+// contract) are read and posted to through LegacyMessageStorageClient.
+
+const CONTRACT_PARAM_DESCRIPTION =
+  "Address of a board with the current ABI (defaults to deployments/<network>.json)";
+const DEPLOYMENTS_DIR_PARAM_DESCRIPTION = "Directory for <network>.json";
+
+task("messages:post", "Store a message")
+  .addPositionalParam("text", "The message (UTF-8, up to the board's limit)")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .addOptionalParam(
+    "relayer",
+    "Sign the message and submit it through the relayer at this URL"
+  )
+  .addOptionalParam(
+    "deploymentsDir",
+    DEPLOYMENTS_DIR_PARAM_DESCRIPTION,
+    DEPLOYMENTS_DIR
+  )
+  .setAction(
+    async (
+      { text, contract, relayer, deploymentsDir },
+      hre
+    ): Promise<StoredMessage | LegacyMessage> => {
+      const board = await getBoardClient(hre, contract, deploymentsDir);
+
+      if (board.abiVersion === 1) {
+        if (relayer !== undefined) {
+          throw new Error(
+            "Boards with ABI version 1 don't take relayed messages"
+          );
+        }
+        const { hash, message } = await board.client.storeMessage(text);
+        console.log(`${formatLegacyMessage(message)} (tx ${hash})`);
+        return message;
+      }
+
+      const { client } = board;
+      const receipt =
+        relayer === undefined
+          ? (await client.storeMessage(text)).receipt
+          : await client.publicClient.waitForTransactionReceipt({
+              hash: (
+                await submitToRelayer(relayer, await client.signMessage(text))
+              ).hash,
+            });
+
+      // Decoded from the transaction's own event rather than read back from
+      // the ring, where a later writer may already have reused the slot
+      const [message] = parseStoredMessages(receipt);
+      if (message === undefined) {
+        throw new Error(
+          `Transaction ${receipt.transactionHash} did not emit MessageStored`
+        );
+      }
+      console.log(`${formatMessage(message)} (tx ${receipt.transactionHash})`);
+      return message;
+    }
+  );
+
+task("messages:list", "Print the messages in the buffer, oldest first")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .addFlag("json", "Print the messages as a JSON array")
+  .addOptionalParam(
+    "deploymentsDir",
+    DEPLOYMENTS_DIR_PARAM_DESCRIPTION,
+    DEPLOYMENTS_DIR
+  )
+  .setAction(
+    async (
+      { contract, json, deploymentsDir },
+      hre
+    ): Promise<StoredMessage[] | LegacyMessage[]> => {
+      const board = await getBoardClient(hre, contract, deploymentsDir);
+
+      if (board.abiVersion === 1) {
+        const messages = await board.client.getAllMessages();
+        printMessages(
+          json,
+          messages.map(({ index, timestamp, text }) => ({
+            index,
+            timestamp: timestamp.toISOString(),
+            text,
+          })),
+          messages.map(formatLegacyMessage)
+        );
+        return messages;
+      }
+
+      const messages = await board.client.getAllMessages();
+      printMessages(
+        json,
+        messages.map(toMessageJson),
+        messages.map(formatMessage)
+      );
+      return messages;
+    }
+  );
+
+task("messages:watch", "Print new messages as they are stored")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to print messages from (defaults to the next block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "limit",
+    "Stop after this many messages (runs until interrupted by default)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "pollingInterval",
+    "Delay between polls in milliseconds",
+    4000,
+    types.int
+  )
+  .addOptionalParam(
+    "deploymentsDir",
+    DEPLOYMENTS_DIR_PARAM_DESCRIPTION,
+    DEPLOYMENTS_DIR
+  )
+  .setAction(
+    async (
+      { contract, fromBlock, limit, pollingInterval, deploymentsDir },
+      hre
+    ): Promise<IndexedMessage[] | LegacyMessage[]> => {
+      const board = await getBoardClient(hre, contract, deploymentsDir);
+      if (board.abiVersion === 1) {
+        return watchLegacyBoard(board.client, {
+          network: hre.network.name,
+          fromBlock,
+          limit,
+          pollingInterval,
+        });
+      }
+
+      const { client } = board;
+      fromBlock ??= Number(await client.publicClient.getBlockNumber()) + 1;
+
+      const indexer = new MessageIndexer({
+        address: client.address,
+        publicClient: client.publicClient,
+        store: new MemoryHistoryStore(),
+        fromBlock,
+        pollingInterval,
+      });
+
+      console.log(
+        `Watching ${client.address} on ${hre.network.name} from block ${fromBlock}`
+      );
+
+      const seen: IndexedMessage[] = [];
+      await new Promise<void>((resolve) => {
+        const stop = () => {
+          process.off("SIGINT", stop);
+          indexer.stop().then(resolve);
+        };
+        process.once("SIGINT", stop);
+
+        indexer.start({
+          onSync: ({ added, removed }) => {
+            for (const message of removed) {
+              console.log(`${formatMessage(message)} (reorged out)`);
+            }
+            for (const message of added) {
+              if (limit !== undefined && seen.length >= limit) {
+                break;
+              }
+              seen.push(message);
+              console.log(formatMessage(message));
+            }
+            if (limit !== undefined && seen.length >= limit) {
+              stop();
+            }
+          },
+          onError: (error) => console.error("Sync failed:", error),
+        });
+      });
+
+      return seen;
+    }
+  );
+
+/**
+ * Format a message as one line: sequence number, index, timestamp and text,
+ * or a placeholder for a part of an encrypted direct message
+ * @param message The decoded message
+ * @returns The printed line
+ */
+function formatMessage(message: StoredMessage): string {
+  return `#${message.sequence} [${
+    message.index
+  }] ${message.timestamp.toISOString()} ${
+    message.kind === "direct" ? "(direct message part)" : message.text
+  }`;
+}
+
+/**
+ * Format a message from a version 1 board, which has no sequence number
+ * @param message The decoded message
+ * @returns The printed line
+ */
+function formatLegacyMessage(message: LegacyMessage): string {
+  return `[${message.index}] ${message.timestamp.toISOString()} ${
+    message.text
+  }`;
+}
+
+/**
+ * Print a listing as JSON or one line per message
+ * @param json Whether to print a JSON array
+ * @param entries The JSON-safe messages
+ * @param lines The formatted messages
+ */
+function printMessages(
+  json: boolean,
+  entries: readonly object[],
+  lines: readonly string[]
+): void {
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (lines.length === 0) {
+    console.log("No messages");
+  } else {
+    lines.forEach((line) => console.log(line));
+  }
+}
+
+/**
+ * Print new messages from a version 1 board until interrupted or the limit
+ * is reached
+ * @param client The board's client
+ * @param options The network name, first block, limit and polling interval
+ * @returns The printed messages
+ */
+async function watchLegacyBoard(
+  client: LegacyMessageStorageClient,
+  {
+    network,
+    fromBlock,
+    limit,
+    pollingInterval,
+  }: {
+    network: string;
+    fromBlock?: number;
+    limit?: number;
+    pollingInterval: number;
+  }
+): Promise<LegacyMessage[]> {
+  fromBlock ??= Number(await client.publicClient.getBlockNumber()) + 1;
+  console.log(
+    `Watching ${client.address} on ${network} from block ${fromBlock}`
+  );
+
+  const seen: LegacyMessage[] = [];
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      unwatch();
+      resolve();
+    };
+    process.once("SIGINT", stop);
+
+    const unwatch = client.watchMessages({
+      fromBlock,
+      pollingInterval,
+      onMessage: (message) => {
+        if (limit !== undefined && seen.length >= limit) {
+          return;
+        }
+        seen.push(message);
+        console.log(formatLegacyMessage(message));
+        if (limit !== undefined && seen.length >= limit) {
+          stop();
+        }
+      },
+      onError: (error) => console.error("Poll failed:", error),
+    });
+  });
+
+  return seen;
+}
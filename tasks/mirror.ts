@@ -0,0 +1,131 @@
+import { task, types } from "hardhat/config";
+import path from "path";
+import {
+  FileMirrorProgressStore,
+  MessageMirror,
+  readDeploymentAddress,
+  DEPLOYMENTS_DIR,
+  type MessageStorageClient,
+  type MirrorSyncResult,
+} from "../src";
+import {
+  getMessageStorageClient,
+  getNetworkMessageStorageClient,
+  parseAddress,
+} from "./utils";
+
+// Copy every message posted on one deployment to the boards on other
+// networks. The account of each target network must be an allowed writer:
+//
+//   npx hardhat mirror:start --targets mantle,zksync --network sepolia
+//   npx hardhat mirror:start --targets mantle:0x1234... --once --network sepolia
+
+task("mirror:start", "Mirror the board's messages to other networks")
+  .addParam(
+    "targets",
+    "Comma-separated target networks, each optionally <network>:<address> (addresses default to deployments/<network>.json)"
+  )
+  .addOptionalParam(
+    "contract",
+    "Source MessageStorage address (defaults to deployments/<network>.json)"
+  )
+  .addOptionalParam(
+    "progress",
+    "Progress file (defaults to mirror/<network>.json)"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First source block to mirror when there is no saved progress",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks a message must be buried under before it is mirrored",
+    2,
+    types.int
+  )
+  .addOptionalParam(
+    "pollingInterval",
+    "Delay between syncs in milliseconds",
+    4000,
+    types.int
+  )
+  .addOptionalParam(
+    "deploymentsDir",
+    "Directory for <network>.json",
+    DEPLOYMENTS_DIR
+  )
+  .addFlag("once", "Sync once and exit instead of following new blocks")
+  .setAction(
+    async (
+      {
+        targets,
+        contract,
+        progress,
+        fromBlock,
+        confirmations,
+        pollingInterval,
+        deploymentsDir,
+        once,
+      },
+      hre
+    ): Promise<MirrorSyncResult | void> => {
+      const source = await getMessageStorageClient(hre, contract);
+      const targetClients = (targets as string)
+        .split(",")
+        .map((target): MessageStorageClient => {
+          const [network, address] = target.trim().split(":");
+          return getNetworkMessageStorageClient(
+            hre,
+            network,
+            address === undefined
+              ? readDeploymentAddress(network, deploymentsDir)
+              : parseAddress(address, "target")
+          );
+        });
+
+      const progressPath =
+        progress ??
+        path.join(hre.config.paths.root, "mirror", `${hre.network.name}.json`);
+      const mirror = new MessageMirror({
+        source,
+        targets: targetClients,
+        store: new FileMirrorProgressStore(progressPath),
+        fromBlock,
+        confirmations,
+        pollingInterval,
+      });
+
+      const report = ({ outcomes, failures }: MirrorSyncResult) => {
+        for (const { target, sourceSequence, status, sequence } of outcomes) {
+          const copy = status === "mirrored" ? ` as #${sequence}` : "";
+          console.log(
+            `#${sourceSequence} -> ${target.address} on chain ${target.chainId}: ${status}${copy}`
+          );
+        }
+        for (const { target, error } of failures) {
+          console.error(
+            `Mirroring to ${target.address} on chain ${target.chainId} failed:`,
+            error
+          );
+        }
+      };
+
+      if (once) {
+        const result = await mirror.sync();
+        report(result);
+        return result;
+      }
+
+      console.log(
+        `Mirroring ${source.address} on ${hre.network.name} to ${targetClients.length} target(s); progress in ${progressPath}`
+      );
+      mirror.start({
+        onSync: report,
+        onError: (error) => console.error("Sync failed:", error),
+      });
+      await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+      await mirror.stop();
+    }
+  );
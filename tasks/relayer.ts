@@ -0,0 +1,41 @@
+import { task, types } from "hardhat/config";
+import { MessageRelayer } from "../src";
+import { getMessageStorageClient } from "./utils";
+
+// Serve a local relayer that stores messages signed by writers and pays the
+// gas from the network's first account:
+//
+//   npx hardhat relayer:start --network sepolia
+//   npx hardhat messages:post "gm" --relayer http://127.0.0.1:8787 --network sepolia
+
+task("relayer:start", "Relay signed messages over HTTP until interrupted")
+  .addOptionalParam(
+    "contract",
+    "MessageStorage address (defaults to deployments/<network>.json)"
+  )
+  .addOptionalParam("port", "Port to listen on", 8787, types.int)
+  .addOptionalParam("host", "Interface to bind", "127.0.0.1")
+  .setAction(async ({ contract, port, host }, hre): Promise<void> => {
+    const client = await getMessageStorageClient(hre, contract);
+    if (client.walletClient === undefined) {
+      throw new Error(
+        `Network ${hre.network.name} has no account to pay for relayed messages`
+      );
+    }
+    const relayer = new MessageRelayer({
+      address: client.address,
+      publicClient: client.publicClient,
+      walletClient: client.walletClient,
+      onError: (error) => console.error("Relaying failed:", error),
+    });
+
+    const url = await relayer.listen(port, host);
+    const { relayer: account } = await relayer.getStatus();
+    console.log(
+      `Relaying to ${client.address} on ${hre.network.name} at ${url}, ` +
+        `paid by ${account}`
+    );
+
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await relayer.close();
+  });
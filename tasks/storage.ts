@@ -0,0 +1,85 @@
+import { task, types } from "hardhat/config";
+import { StorageInspector, type EntryInspection } from "../src";
+import { getMessageStorageClient } from "./utils";
+
+// Decode a MessageStorage instance's raw storage and check it against
+// getMessage, failing if any entry differs:
+//
+//   npx hardhat storage:inspect --network sepolia
+//   npx hardhat storage:inspect --index 3 --contract 0x1234... --network mantle
+//   npx hardhat storage:inspect --fill 17 --network localhost
+
+task("storage:inspect", "Compare raw storage slots with getMessage")
+  .addOptionalParam(
+    "contract",
+    "MessageStorage address (defaults to deployments/<network>.json)"
+  )
+  .addOptionalParam(
+    "index",
+    "Only inspect this ring index (every index by default)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "fill",
+    "Store this many sample messages first, waiting for each receipt",
+    0,
+    types.int
+  )
+  .setAction(async ({ contract, index, fill }, hre) => {
+    const client = await getMessageStorageClient(hre, contract);
+
+    for (let i = 0; i < fill; i++) {
+      const { hash, index: stored } = await client.storeMessage(
+        `Message #${i} - storage inspection sample`
+      );
+      console.log(`Stored message #${i} at index ${stored} (tx ${hash})`);
+    }
+
+    const inspector = new StorageInspector({
+      address: client.address,
+      publicClient: client.publicClient,
+    });
+    const report = await inspector.inspect(
+      index === undefined ? undefined : [index]
+    );
+
+    console.log(
+      `MessageStorage at ${report.address}: capacity ${report.capacity}, ` +
+        `currentIndex ${report.currentIndex}`
+    );
+    report.entries.forEach((entry) => console.log(formatEntry(entry)));
+
+    const failed = report.entries.filter(
+      ({ mismatches }) => mismatches.length > 0
+    );
+    if (failed.length > 0) {
+      throw new Error(
+        `Storage does not match getMessage at ${failed.length} ` +
+          `entr${failed.length === 1 ? "y" : "ies"}: ` +
+          failed.map(({ raw }) => raw.index).join(", ")
+      );
+    }
+    return report;
+  });
+
+/**
+ * Format an inspected entry: its slot, decoded header and any mismatches
+ * @param entry The inspection result
+ * @returns The printed lines
+ */
+function formatEntry({ raw, mismatches }: EntryInspection): string {
+  const { length, sequence, timestamp, author } = raw.header;
+  const lines = [
+    `[${raw.index}] slot 0x${raw.slot.toString(16)}` +
+      (length === 0
+        ? " (empty)"
+        : `: ${length} bytes, sequence ${sequence}, timestamp ${timestamp}, ` +
+          `author ${author}`),
+  ];
+
+  raw.words.forEach((word, i) => lines.push(`    +${i + 1} ${word}`));
+  mismatches.forEach((mismatch) => lines.push(`    MISMATCH ${mismatch}`));
+
+  return lines.join("\n");
+}
@@ -0,0 +1,147 @@
+import { task } from "hardhat/config";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { encodeFunctionData, type Address, type Hash } from "viem";
+import {
+  compareStorageLayouts,
+  loadDeployment,
+  messageStorageAbi,
+  writeDeployment,
+  DEPLOYMENTS_DIR,
+  ENTRY_HEADER_FORMAT,
+  MESSAGE_STORAGE_ABI_VERSION,
+  type DeploymentManifest,
+} from "../src";
+import {
+  deployContract,
+  getDeploymentTarget,
+  readStorageLayout,
+  sendCall,
+} from "./deployers";
+import { getCompilerInfo } from "./utils";
+
+// Point a board deployed with `deploy:messages --proxy` at a freshly compiled
+// implementation. The new storage layout and entry header format
+// (ENTRY_HEADER_FORMAT) are checked against the ones recorded in
+// deployments/<network>.json first, and incompatible changes are refused.
+// The header format is declared by hand alongside the contract, so a change
+// to the header packing is only caught if ENTRY_HEADER_FORMAT was bumped:
+//
+//   npx hardhat upgrade:messages --network sepolia --dry-run
+//   npx hardhat upgrade:messages --network sepolia
+
+interface UpgradeArgs {
+  contract: string;
+  dryRun: boolean;
+  deploymentsDir: string;
+}
+
+export interface UpgradeResult {
+  previousImplementation: Address;
+  // Undefined for a dry run
+  implementation?: Address;
+  transactionHash?: Hash;
+  manifest: DeploymentManifest;
+}
+
+task("upgrade:messages", "Upgrade a proxied board to the current build")
+  .addOptionalParam(
+    "contract",
+    "Artifact of the new implementation",
+    "MessageStorage"
+  )
+  .addFlag(
+    "dryRun",
+    "Only check the storage layout and header format, without deploying"
+  )
+  .addOptionalParam(
+    "deploymentsDir",
+    "Directory for <network>.json",
+    DEPLOYMENTS_DIR
+  )
+  .setAction(async (args: UpgradeArgs, hre): Promise<UpgradeResult> => {
+    const manifest = loadDeployment(hre.network.name, args.deploymentsDir);
+    if (manifest.proxy === undefined) {
+      throw new Error(
+        `The deployment on ${hre.network.name} is not behind a proxy`
+      );
+    }
+    const previousImplementation = manifest.proxy.implementation;
+
+    await hre.run(TASK_COMPILE, { quiet: true });
+    const storageLayout = await readStorageLayout(hre, args.contract);
+    const problems = compareStorageLayouts(
+      manifest.proxy.storageLayout,
+      storageLayout
+    );
+    if (problems.length > 0) {
+      throw new Error(
+        `Refusing to upgrade to ${args.contract}, its storage layout is ` +
+          `incompatible:\n${problems.map((p) => `  - ${p}`).join("\n")}`
+      );
+    }
+    // Entries written in another format would be misread after the upgrade
+    const headerFormat = manifest.proxy.headerFormat ?? 1;
+    if (headerFormat !== ENTRY_HEADER_FORMAT) {
+      throw new Error(
+        `Refusing to upgrade to ${args.contract}, it packs entry headers in ` +
+          `format ${ENTRY_HEADER_FORMAT} but the board's entries use format ${headerFormat}`
+      );
+    }
+    console.log(
+      `Storage layout and header format of ${args.contract} are compatible`
+    );
+
+    if (args.dryRun) {
+      return { previousImplementation, manifest };
+    }
+
+    // Capacity and message size are immutables, so the new implementation
+    // must be built with the values the ring was created with
+    const implementation = await deployContract(
+      hre,
+      args.contract,
+      Object.values(manifest.constructorArgs).map(BigInt),
+      false
+    );
+    if ("estimatedGas" in implementation) {
+      throw new Error("Implementation deployment was not sent");
+    }
+    console.log(`Implementation deployed to: ${implementation.address}`);
+
+    const { transactionHash } = await sendCall(
+      hre,
+      manifest.address,
+      encodeFunctionData({
+        abi: messageStorageAbi,
+        functionName: "upgradeTo",
+        args: [implementation.address],
+      })
+    );
+
+    const upgraded: DeploymentManifest = {
+      ...manifest,
+      contract: args.contract,
+      abiVersion: MESSAGE_STORAGE_ABI_VERSION,
+      proxy: {
+        implementation: implementation.address,
+        storageLayout,
+        headerFormat: ENTRY_HEADER_FORMAT,
+      },
+      bytecodeHash: implementation.bytecodeHash,
+      abiHash: implementation.abiHash,
+      compiler: getCompilerInfo(hre, getDeploymentTarget(hre) === "zksync"),
+    };
+    const deploymentPath = writeDeployment(upgraded, args.deploymentsDir);
+    console.log(
+      `Upgraded ${manifest.address} from ${previousImplementation} to ` +
+        `${implementation.address} (tx ${transactionHash})`
+    );
+    console.log(`Deployment saved to ${deploymentPath}`);
+
+    return {
+      previousImplementation,
+      implementation: implementation.address,
+      transactionHash,
+      manifest: upgraded,
+    };
+  });
@@ -0,0 +1,161 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  isAddress,
+  isHex,
+  type Address,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  DEPLOYMENTS_DIR,
+  LegacyMessageStorageClient,
+  loadDeployment,
+  MessageStorageClient,
+  MESSAGE_STORAGE_ABI_VERSION,
+  type CompilerInfo,
+} from "../src";
+
+// A board's client, picked by the ABI version it was deployed with
+export type BoardClient =
+  | { abiVersion: 1; client: LegacyMessageStorageClient }
+  | {
+      abiVersion: typeof MESSAGE_STORAGE_ABI_VERSION;
+      client: MessageStorageClient;
+    };
+
+/**
+ * Build a client for the MessageStorage instance on the selected network
+ * @param hre The Hardhat runtime environment
+ * @param contract Explicit contract address, overriding deployments/<network>.json
+ * @param deploymentsDir Directory containing <network>.json
+ * @returns A client whose wallet is the network's first configured account
+ */
+export async function getMessageStorageClient(
+  hre: HardhatRuntimeEnvironment,
+  contract?: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<MessageStorageClient> {
+  const board = await getBoardClient(hre, contract, deploymentsDir);
+  if (board.abiVersion === 1) {
+    throw new Error(
+      `The board on ${hre.network.name} runs ABI version 1, which only the messages tasks support`
+    );
+  }
+  return board.client;
+}
+
+/**
+ * Build a client for the board on the selected network that matches the ABI
+ * version recorded in its manifest, so boards deployed before the current
+ * interface can still be read and posted to
+ * @param hre The Hardhat runtime environment
+ * @param contract Explicit address of a board with the current ABI,
+ * overriding deployments/<network>.json
+ * @param deploymentsDir Directory containing <network>.json
+ * @returns The ABI version and a client whose wallet is the network's first
+ * configured account
+ */
+export async function getBoardClient(
+  hre: HardhatRuntimeEnvironment,
+  contract?: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<BoardClient> {
+  const { address, abiVersion } =
+    contract === undefined
+      ? loadDeployment(hre.network.name, deploymentsDir)
+      : {
+          address: parseAddress(contract, "contract"),
+          abiVersion: MESSAGE_STORAGE_ABI_VERSION,
+        };
+
+  const [walletClient] = await hre.viem.getWalletClients();
+  const config = {
+    address,
+    publicClient: await hre.viem.getPublicClient(),
+    walletClient,
+  };
+
+  return abiVersion === 1
+    ? { abiVersion, client: new LegacyMessageStorageClient(config) }
+    : {
+        abiVersion: MESSAGE_STORAGE_ABI_VERSION,
+        client: new MessageStorageClient(config),
+      };
+}
+
+/**
+ * Build a client for a MessageStorage instance on another network from
+ * hardhat.config.ts, e.g. a mirror target
+ * @param hre The Hardhat runtime environment
+ * @param network The network name
+ * @param address The contract address on that network
+ * @returns A client whose wallet is the network's first private key
+ */
+export function getNetworkMessageStorageClient(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  address: Address
+): MessageStorageClient {
+  const config = hre.config.networks[network];
+  if (config === undefined || !("url" in config)) {
+    throw new Error(`Network ${network} is not a JSON-RPC network`);
+  }
+  if (config.chainId === undefined) {
+    throw new Error(`Network ${network} has no chainId`);
+  }
+  const [privateKey] = Array.isArray(config.accounts) ? config.accounts : [];
+  if (privateKey === undefined || !isHex(privateKey)) {
+    throw new Error(`Network ${network} has no private key account`);
+  }
+
+  const chain = defineChain({
+    id: config.chainId,
+    name: network,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [config.url] } },
+  });
+  const transport = http(config.url);
+
+  return new MessageStorageClient({
+    address,
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: createWalletClient({
+      account: privateKeyToAccount(privateKey),
+      chain,
+      transport,
+    }),
+  });
+}
+
+/**
+ * Validate an address passed on the command line
+ * @param value The raw parameter value
+ * @param name The parameter name, used in the error message
+ * @returns The address
+ */
+export function parseAddress(value: string, name: string): Address {
+  if (!isAddress(value)) {
+    throw new Error(`Invalid ${name} address: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Describe the compiler the project builds with for the given target
+ * @param hre The Hardhat runtime environment
+ * @param zksync Whether the build targets zkSync (zksolc) or the EVM (solc)
+ * @returns The compiler recorded in deployment manifests
+ */
+export function getCompilerInfo(
+  hre: HardhatRuntimeEnvironment,
+  zksync: boolean
+): CompilerInfo {
+  const solcVersion = hre.config.solidity.compilers[0].version;
+
+  return zksync
+    ? { name: "zksolc", version: hre.config.zksolc.version, solcVersion }
+    : { name: "solc", version: solcVersion, solcVersion };
+}
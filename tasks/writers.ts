@@ -0,0 +1,49 @@
+import { task } from "hardhat/config";
+import { getMessageStorageClient, parseAddress } from "./utils";
+
+// Manage the writer allowlist of a deployed MessageStorage instance:
+//
+//   npx hardhat writers:add 0x1234... --network sepolia
+//   npx hardhat writers:remove 0x1234... --network sepolia
+//   npx hardhat writers:check 0x1234... --network sepolia
+
+const CONTRACT_PARAM_DESCRIPTION =
+  "MessageStorage address (defaults to deployments/<network>.json)";
+
+task("writers:add", "Allow an address to store messages")
+  .addPositionalParam("writer", "The address to allow")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .setAction(async ({ writer, contract }, hre) => {
+    const client = await getMessageStorageClient(hre, contract);
+    const address = parseAddress(writer, "writer");
+
+    const receipt = await client.addWriter(address);
+    console.log(`Added writer ${address} (tx ${receipt.transactionHash})`);
+  });
+
+task("writers:remove", "Revoke an address's permission to store messages")
+  .addPositionalParam("writer", "The address to remove")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .setAction(async ({ writer, contract }, hre) => {
+    const client = await getMessageStorageClient(hre, contract);
+    const address = parseAddress(writer, "writer");
+
+    const receipt = await client.removeWriter(address);
+    console.log(`Removed writer ${address} (tx ${receipt.transactionHash})`);
+  });
+
+task("writers:check", "Check whether an address may store messages")
+  .addPositionalParam("writer", "The address to check")
+  .addOptionalParam("contract", CONTRACT_PARAM_DESCRIPTION)
+  .setAction(async ({ writer, contract }, hre) => {
+    const client = await getMessageStorageClient(hre, contract);
+    const address = parseAddress(writer, "writer");
+
+    const allowed = await client.isWriter(address);
+    const paused = await client.isPaused();
+    console.log(
+      `${address} ${allowed ? "can" : "cannot"} store messages` +
+        (paused ? " (contract is paused)" : "")
+    );
+    return allowed;
+  });
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { stringToHex } from "viem";
+import {
+  LegacyMessageStorageClient,
+  LEGACY_MAX_MESSAGES,
+  type LegacyMessage,
+} from "../src";
+
+describe("LegacyMessageStorageClient", function () {
+  async function deployLegacyFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const board = await hre.viem.deployContract("MessageStorageV1");
+    const client = new LegacyMessageStorageClient({
+      address: board.address,
+      publicClient,
+      walletClient: owner,
+    });
+
+    return { board, client, publicClient };
+  }
+
+  it("Should store a message and read it back", async function () {
+    const { client } = await deployLegacyFixture();
+
+    const { message } = await client.storeMessage("Hello, version 1 ✓");
+    expect(message).to.include({ index: 0, text: "Hello, version 1 ✓" });
+
+    const stored = await client.getMessage(0);
+    expect(stored).to.deep.equal(message);
+  });
+
+  it("Should list written slots oldest first after wrapping", async function () {
+    const { client } = await deployLegacyFixture();
+    expect(await client.getAllMessages()).to.deep.equal([]);
+
+    for (let i = 0; i < LEGACY_MAX_MESSAGES + 2; i++) {
+      await client.storeMessage(`Message ${i}`);
+    }
+
+    const messages = await client.getAllMessages();
+    expect(messages).to.have.lengthOf(LEGACY_MAX_MESSAGES);
+    expect(messages[0]).to.include({ index: 2, text: "Message 2" });
+    expect(messages[LEGACY_MAX_MESSAGES - 1]).to.include({
+      index: 1,
+      text: `Message ${LEGACY_MAX_MESSAGES + 1}`,
+    });
+  });
+
+  it("Should reject messages the board can't keep intact", async function () {
+    const { client } = await deployLegacyFixture();
+
+    await expect(client.storeMessage("")).to.be.rejectedWith(
+      RangeError,
+      "Message is empty"
+    );
+    await expect(client.storeMessage("x".repeat(33))).to.be.rejectedWith(
+      RangeError,
+      "Message is 33 bytes, maximum is 32 on a version 1 board"
+    );
+  });
+
+  it("Should read 60-byte messages written by other clients", async function () {
+    const { board, client } = await deployLegacyFixture();
+
+    // Bytes 32-35 are overwritten by the timestamp on-chain
+    const text = `${"a".repeat(32)}LOST${"b".repeat(24)}`;
+    await board.write.storeMessage([stringToHex(text)]);
+
+    expect((await client.getMessage(0)).text).to.equal(
+      `${"a".repeat(32)}${"b".repeat(24)}`
+    );
+    await expect(client.getMessage(LEGACY_MAX_MESSAGES)).to.be.rejectedWith(
+      "Index 16 is outside the board's 16 entries"
+    );
+  });
+
+  it("Should watch for new messages", async function () {
+    const { client, publicClient } = await deployLegacyFixture();
+    await client.storeMessage("Before the watch");
+
+    const seen: LegacyMessage[] = [];
+    const stop = client.watchMessages({
+      fromBlock: Number(await publicClient.getBlockNumber()) + 1,
+      pollingInterval: 10,
+      onMessage: (message) => seen.push(message),
+    });
+    try {
+      await client.storeMessage("First");
+      await client.storeMessage("Second");
+      while (seen.length < 2) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    } finally {
+      stop();
+    }
+
+    expect(seen.map((m) => [m.index, m.text])).to.deep.equal([
+      [1, "First"],
+      [2, "Second"],
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { getAddress, numberToHex } from "viem";
+import {
+  COMPACT_MESSAGE_FLAG,
+  MemoryHistoryStore,
+  MessageApiServer,
+  MessageIndexer,
+  MessageStorageClient,
+  type MessageJson,
+} from "../src";
+
+describe("MessageApiServer", function () {
+  const servers: MessageApiServer[] = [];
+  const streams: AbortController[] = [];
+
+  afterEach(async function () {
+    streams.splice(0).forEach((stream) => stream.abort());
+    await Promise.all(servers.splice(0).map((server) => server.close()));
+  });
+
+  // A four-entry board, so a few messages wrap the ring
+  async function deployApiFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      4n,
+      60n,
+    ]);
+    const deployedAt = Number(await publicClient.getBlockNumber());
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+
+    const startServer = async (history?: MemoryHistoryStore) => {
+      const server = new MessageApiServer({
+        address: messageStorage.address,
+        publicClient,
+        history,
+        pollingInterval: 10,
+      });
+      servers.push(server);
+      return server.listen();
+    };
+
+    // Store messages ten seconds apart, returning the time of each
+    const storeSpaced = async (texts: string[]) => {
+      const start = (await time.latest()) + 10;
+      for (const [i, text] of texts.entries()) {
+        await time.setNextBlockTimestamp(start + i * 10);
+        await client.storeMessage(text);
+      }
+      return texts.map((_, i) => start + i * 10);
+    };
+
+    return {
+      messageStorage,
+      client,
+      owner,
+      publicClient,
+      deployedAt,
+      startServer,
+      storeSpaced,
+    };
+  }
+
+  async function get(url: string, path: string) {
+    const response = await fetch(new URL(path, url));
+    return { status: response.status, body: await response.json() };
+  }
+
+  // Open the event stream and collect the messages it delivers
+  async function openStream(url: string, lastEventId?: string) {
+    const controller = new AbortController();
+    streams.push(controller);
+    const response = await fetch(new URL("/messages/stream", url), {
+      headers:
+        lastEventId === undefined ? {} : { "Last-Event-ID": lastEventId },
+      signal: controller.signal,
+    });
+    expect(response.headers.get("content-type")).to.equal("text/event-stream");
+
+    const events: { id: string; message: MessageJson }[] = [];
+    const reader = response
+      .body!.pipeThrough(new TextDecoderStream())
+      .getReader();
+    void (async () => {
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read().catch(() => ({
+          value: undefined,
+          done: true,
+        }));
+        if (done) {
+          return;
+        }
+        buffer += value;
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop()!;
+        for (const block of blocks) {
+          const fields = Object.fromEntries(
+            block
+              .split("\n")
+              .filter((line) => !line.startsWith(":"))
+              .map((line) => [
+                line.slice(0, line.indexOf(":")),
+                line.slice(line.indexOf(":") + 2),
+              ])
+          );
+          if (fields.event === "message") {
+            events.push({ id: fields.id, message: JSON.parse(fields.data) });
+          }
+        }
+      }
+    })();
+
+    return { events, close: () => controller.abort() };
+  }
+
+  async function waitFor(condition: () => boolean, timeout = 5000) {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error("Timed out waiting for events");
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  it("Should serve decoded messages with ring metadata", async function () {
+    const { client, owner, startServer, storeSpaced } =
+      await deployApiFixture();
+    const times = await storeSpaced(["One", "Two", "Three", "Four", "Five"]);
+    const url = await startServer();
+
+    const ring = {
+      contract: client.address,
+      chainId: hre.network.config.chainId,
+      capacity: 4,
+      maxMessageSize: 60,
+      currentIndex: 1,
+      lastSequence: 5,
+    };
+    expect(await get(url, "/status")).to.deep.equal({
+      status: 200,
+      body: ring,
+    });
+
+    const { status, body } = await get(url, "/messages");
+    expect(status).to.equal(200);
+    expect(body.ring).to.deep.equal(ring);
+    expect(body.nextCursor).to.equal(null);
+    expect(body.messages[0]).to.deep.equal({
+      sequence: 2,
+      index: 1,
+      timestamp: new Date(times[1] * 1000).toISOString(),
+      author: getAddress(owner.account.address),
+      kind: "text",
+      text: "Two",
+    });
+    expect(body.messages.map((m: MessageJson) => m.text)).to.deep.equal([
+      "Two",
+      "Three",
+      "Four",
+      "Five",
+    ]);
+  });
+
+  it("Should filter by time and page with a cursor", async function () {
+    const { startServer, storeSpaced } = await deployApiFixture();
+    const times = await storeSpaced(["One", "Two", "Three", "Four"]);
+    const url = await startServer();
+    const texts = (body: { messages: MessageJson[] }) =>
+      body.messages.map((m) => m.text);
+
+    // Unix seconds and ISO 8601 both work
+    const since = await get(url, `/messages?since=${times[2]}`);
+    expect(texts(since.body)).to.deep.equal(["Three", "Four"]);
+    const iso = new Date(times[1] * 1000).toISOString();
+    const window = await get(url, `/messages?since=${iso}&until=${times[3]}`);
+    expect(texts(window.body)).to.deep.equal(["Two", "Three"]);
+
+    const first = await get(url, "/messages?limit=3");
+    expect(texts(first.body)).to.deep.equal(["One", "Two", "Three"]);
+    expect(first.body.nextCursor).to.equal(3);
+    const next = await get(url, "/messages?limit=3&after=3");
+    expect(texts(next.body)).to.deep.equal(["Four"]);
+    expect(next.body.nextCursor).to.equal(null);
+  });
+
+  it("Should serve single entries by index", async function () {
+    const { client, startServer } = await deployApiFixture();
+    await client.storeMessage("Only message");
+    const url = await startServer();
+
+    const { status, body } = await get(url, "/messages/0");
+    expect(status).to.equal(200);
+    expect(body.ring.currentIndex).to.equal(1);
+    expect(body.message).to.include({ sequence: 1, text: "Only message" });
+
+    expect(await get(url, "/messages/1")).to.deep.equal({
+      status: 404,
+      body: { error: "No message at index 1" },
+    });
+    expect(await get(url, "/messages/4")).to.deep.equal({
+      status: 404,
+      body: { error: "Index 4 is outside the ring (capacity 4)" },
+    });
+    expect(await get(url, "/messages/first")).to.deep.equal({
+      status: 400,
+      body: { error: "index must be a non-negative integer" },
+    });
+  });
+
+  it("Should tell written entries from empty ones by their header", async function () {
+    const { messageStorage, startServer } = await deployApiFixture();
+    // A bare compact flag is a written message that decodes to no text
+    await messageStorage.write.storeMessage([
+      numberToHex(COMPACT_MESSAGE_FLAG),
+    ]);
+    const url = await startServer();
+
+    const { status, body } = await get(url, "/messages/0");
+    expect(status).to.equal(200);
+    expect(body.message).to.include({ sequence: 1, text: "" });
+    expect((await get(url, "/messages/1")).status).to.equal(404);
+  });
+
+  it("Should report failed board reads through onError", async function () {
+    const { owner, publicClient } = await deployApiFixture();
+    const errors: unknown[] = [];
+    // No contract at this address, so every read fails
+    const server = new MessageApiServer({
+      address: owner.account.address,
+      publicClient,
+      onError: (error) => errors.push(error),
+    });
+    servers.push(server);
+    const url = await server.listen();
+
+    expect(await get(url, "/status")).to.deep.equal({
+      status: 500,
+      body: { error: "Reading the board failed" },
+    });
+    expect(errors).to.have.lengthOf(1);
+  });
+
+  it("Should refuse invalid queries and unknown routes", async function () {
+    const { startServer } = await deployApiFixture();
+    const url = await startServer();
+
+    expect(await get(url, "/messages?since=yesterday")).to.deep.equal({
+      status: 400,
+      body: { error: "since must be unix seconds or an ISO 8601 time" },
+    });
+    expect(await get(url, "/messages?limit=0")).to.deep.equal({
+      status: 400,
+      body: { error: "limit must be at least 1" },
+    });
+    expect(await get(url, "/messages?after=-1")).to.deep.equal({
+      status: 400,
+      body: { error: "after must be a non-negative integer" },
+    });
+    expect(await get(url, "/messages?since=200&until=100")).to.deep.equal({
+      status: 400,
+      body: { error: "since must not be after until" },
+    });
+
+    expect((await get(url, "/nowhere")).status).to.equal(404);
+    const post = await fetch(new URL("/messages", url), { method: "POST" });
+    expect(post.status).to.equal(404);
+  });
+
+  it("Should serve overwritten messages from indexed history", async function () {
+    const { client, publicClient, deployedAt, startServer } =
+      await deployApiFixture();
+    const store = new MemoryHistoryStore();
+    const indexer = new MessageIndexer({
+      address: client.address,
+      publicClient,
+      store,
+      fromBlock: deployedAt,
+    });
+    await client.storeMessages(["1", "2", "3", "4", "5", "6"]);
+    await indexer.sync();
+    const url = await startServer(store);
+
+    const sequences = (body: { messages: MessageJson[] }) =>
+      body.messages.map((m) => m.sequence);
+
+    // Pages hold up to the board's capacity by default
+    const first = await get(url, "/messages");
+    expect(sequences(first.body)).to.deep.equal([1, 2, 3, 4]);
+    expect(first.body.nextCursor).to.equal(4);
+    const next = await get(url, "/messages?after=4");
+    expect(sequences(next.body)).to.deep.equal([5, 6]);
+    expect(next.body.nextCursor).to.equal(null);
+  });
+
+  it("Should stream new messages as Server-Sent Events", async function () {
+    const { client, startServer } = await deployApiFixture();
+    await client.storeMessage("Before the stream");
+    const url = await startServer();
+
+    const stream = await openStream(url);
+    await client.storeMessage("First streamed");
+    await client.storeMessages(["Second streamed", "Third streamed"]);
+    await waitFor(() => stream.events.length === 3);
+
+    expect(stream.events.map((e) => e.id)).to.deep.equal(["2", "3", "4"]);
+    expect(stream.events.map((e) => e.message.text)).to.deep.equal([
+      "First streamed",
+      "Second streamed",
+      "Third streamed",
+    ]);
+  });
+
+  it("Should replay missed messages after Last-Event-ID", async function () {
+    const { client, startServer } = await deployApiFixture();
+    const url = await startServer();
+
+    const stream = await openStream(url);
+    await client.storeMessage("Seen");
+    await waitFor(() => stream.events.length === 1);
+    stream.close();
+
+    await client.storeMessages(["Missed 1", "Missed 2"]);
+    const resumed = await openStream(url, stream.events[0].id);
+    await client.storeMessage("Live");
+    await waitFor(() => resumed.events.length === 3);
+    // Let the watcher poll again in case it repeats anything
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(resumed.events.map((e) => [e.id, e.message.text])).to.deep.equal([
+      ["2", "Missed 1"],
+      ["3", "Missed 2"],
+      ["4", "Live"],
+    ]);
+  });
+});
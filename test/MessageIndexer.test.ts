@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createPublicClient,
+  custom,
+  getAddress,
+  type EIP1193Parameters,
+  type PublicClient,
+} from "viem";
+import { hardhat } from "viem/chains";
+import {
+  FileHistoryStore,
+  MemoryHistoryStore,
+  MessageIndexer,
+  MessageStorageClient,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
+
+describe("MessageIndexer", function () {
+  let tmpDir: string;
+
+  beforeEach(function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "message-history-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function deployIndexerFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const testClient = await hre.viem.getTestClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      BigInt(MAX_MESSAGES),
+      BigInt(MAX_MESSAGE_SIZE_BYTES),
+    ]);
+    const deployedAt = Number(await publicClient.getBlockNumber());
+
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+
+    const historyPath = path.join(tmpDir, "history.json");
+    const createIndexer = () =>
+      new MessageIndexer({
+        address: messageStorage.address,
+        publicClient,
+        store: new FileHistoryStore(historyPath),
+        fromBlock: deployedAt,
+        // Small batches so backfills span several getLogs calls
+        batchSize: 2,
+        pollingInterval: 10,
+      });
+
+    return {
+      messageStorage,
+      deployedAt,
+      client,
+      owner,
+      publicClient,
+      testClient,
+      historyPath,
+      indexer: createIndexer(),
+      createIndexer,
+    };
+  }
+
+  it("Should keep messages that were overwritten in the ring", async function () {
+    const { client, owner, indexer } = await deployIndexerFixture();
+
+    const texts: string[] = [];
+    for (let i = 0; i < MAX_MESSAGES + 4; i++) {
+      texts.push(`History message ${i + 1}`);
+      await client.storeMessage(texts[i]);
+    }
+
+    const { added, removed } = await indexer.sync();
+    expect(added.map((m) => m.text)).to.deep.equal(texts);
+    expect(removed).to.deep.equal([]);
+
+    // The ring only holds the newest 16, the history holds all 20
+    expect(await client.getAllMessages()).to.have.lengthOf(MAX_MESSAGES);
+    const history = await indexer.getHistory();
+    expect(history.map((m) => m.text)).to.deep.equal(texts);
+    expect(history.map((m) => m.index)).to.deep.equal(
+      texts.map((_, i) => i % MAX_MESSAGES)
+    );
+    expect(new Set(history.map((m) => m.author))).to.deep.equal(
+      new Set([getAddress(owner.account.address)])
+    );
+  });
+
+  it("Should backfill in batches and resume from the saved file", async function () {
+    const { client, historyPath, createIndexer } = await deployIndexerFixture();
+
+    await client.storeMessage("Before the first sync");
+    await createIndexer().sync();
+    expect(fs.existsSync(historyPath)).to.equal(true);
+
+    await client.storeMessage("After the first sync");
+    const { added } = await createIndexer().sync();
+
+    // A fresh indexer only picks up what the file doesn't already have
+    expect(added.map((m) => m.text)).to.deep.equal(["After the first sync"]);
+    const history = await createIndexer().getHistory();
+    expect(history.map((m) => m.text)).to.deep.equal([
+      "Before the first sync",
+      "After the first sync",
+    ]);
+    expect(history[0].timestamp).to.be.an.instanceOf(Date);
+  });
+
+  it("Should follow new blocks until stopped", async function () {
+    const { client, indexer } = await deployIndexerFixture();
+
+    const synced: string[] = [];
+    const firstMessage = new Promise<void>((resolve, reject) => {
+      indexer.start({
+        onSync: ({ added }) => {
+          synced.push(...added.map((m) => m.text));
+          resolve();
+        },
+        onError: reject,
+      });
+    });
+
+    await client.storeMessage("Followed message");
+    await firstMessage;
+    await indexer.stop();
+
+    expect(synced).to.deep.equal(["Followed message"]);
+  });
+
+  it("Should drop messages from reorged blocks", async function () {
+    const { client, testClient, indexer } = await deployIndexerFixture();
+
+    await client.storeMessage("Canonical message");
+    const snapshot = await testClient.snapshot();
+
+    await client.storeMessage("Orphaned message 1");
+    await client.storeMessage("Orphaned message 2");
+    await indexer.sync();
+
+    // Replace the last two blocks with a longer, different branch
+    await testClient.revert({ id: snapshot });
+    await client.storeMessage("Replacement message");
+    await testClient.mine({ blocks: 3 });
+
+    const { added, removed } = await indexer.sync();
+    expect(removed.map((m) => m.text)).to.deep.equal([
+      "Orphaned message 1",
+      "Orphaned message 2",
+    ]);
+    expect(added.map((m) => m.text)).to.deep.equal(["Replacement message"]);
+
+    const history = await indexer.getHistory();
+    expect(history.map((m) => m.text)).to.deep.equal([
+      "Canonical message",
+      "Replacement message",
+    ]);
+  });
+
+  it("Should keep the history when the node fails to return a block", async function () {
+    const { messageStorage, deployedAt, client, historyPath, indexer } =
+      await deployIndexerFixture();
+
+    await client.storeMessage("Indexed message 1");
+    await client.storeMessage("Indexed message 2");
+    await indexer.sync();
+    const before = fs.readFileSync(historyPath, "utf8");
+
+    // The first block lookup fails the way a rate-limited node would
+    let failures = 1;
+    const request = async ({ method, params }: EIP1193Parameters) => {
+      if (method === "eth_getBlockByNumber" && failures-- > 0) {
+        throw new Error("Too many requests");
+      }
+      return hre.network.provider.request({
+        method,
+        params: params as unknown[] | undefined,
+      });
+    };
+    const flakyIndexer = new MessageIndexer({
+      address: messageStorage.address,
+      publicClient: createPublicClient({
+        chain: hardhat,
+        transport: custom({ request }, { retryCount: 0 }),
+      }) as PublicClient,
+      store: new FileHistoryStore(historyPath),
+      fromBlock: deployedAt,
+      batchSize: 2,
+    });
+
+    await expect(flakyIndexer.sync()).to.be.rejectedWith("Too many requests");
+    expect(fs.readFileSync(historyPath, "utf8")).to.equal(before);
+
+    // The next pass finds nothing reorged and nothing new
+    expect(await flakyIndexer.sync()).to.deep.equal({
+      added: [],
+      removed: [],
+    });
+    expect((await flakyIndexer.getHistory()).map((m) => m.text)).to.deep.equal([
+      "Indexed message 1",
+      "Indexed message 2",
+    ]);
+  });
+
+  it("Should report reorged messages after a pass that failed past the rewind", async function () {
+    const { messageStorage, deployedAt, client, testClient } =
+      await deployIndexerFixture();
+
+    // Fail the first log query, after the rewind has already run
+    let failures = 0;
+    const request = async ({ method, params }: EIP1193Parameters) => {
+      if (method === "eth_getLogs" && failures-- > 0) {
+        throw new Error("Too many requests");
+      }
+      return hre.network.provider.request({
+        method,
+        params: params as unknown[] | undefined,
+      });
+    };
+    const store = new MemoryHistoryStore();
+    const indexer = new MessageIndexer({
+      address: messageStorage.address,
+      publicClient: createPublicClient({
+        chain: hardhat,
+        transport: custom({ request }, { retryCount: 0 }),
+      }) as PublicClient,
+      store,
+      fromBlock: deployedAt,
+      batchSize: 2,
+    });
+
+    await client.storeMessage("Canonical message");
+    const snapshot = await testClient.snapshot();
+    await client.storeMessage("Orphaned message");
+    await indexer.sync();
+    const before = await store.load();
+
+    await testClient.revert({ id: snapshot });
+    await client.storeMessage("Replacement message");
+    await testClient.mine({ blocks: 3 });
+
+    failures = 1;
+    await expect(indexer.sync()).to.be.rejectedWith("Too many requests");
+    expect(await store.load()).to.deep.equal(before);
+
+    const { added, removed } = await indexer.sync();
+    expect(removed.map((m) => m.text)).to.deep.equal(["Orphaned message"]);
+    expect(added.map((m) => m.text)).to.deep.equal(["Replacement message"]);
+  });
+});
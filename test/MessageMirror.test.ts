@@ -0,0 +1,301 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createPublicClient,
+  custom,
+  encodeEventTopics,
+  http,
+  numberToHex,
+  type EIP1193Parameters,
+  type Log,
+} from "viem";
+import {
+  messageStorageAbi,
+  FileMirrorProgressStore,
+  MemoryMirrorProgressStore,
+  MessageMirror,
+  MessageStorageClient,
+  type MirrorProgressStore,
+} from "../src";
+import { startLocalNode, type LocalNode } from "./localNode";
+
+describe("MessageMirror", function () {
+  // Two chains, as if the board ran on two networks
+  let sourceNode: LocalNode;
+  let targetNode: LocalNode;
+  let tmpDir: string;
+
+  before(async function () {
+    sourceNode = await startLocalNode(31401);
+    targetNode = await startLocalNode(31402);
+  });
+
+  after(async function () {
+    await Promise.all([sourceNode.server.close(), targetNode.server.close()]);
+  });
+
+  beforeEach(function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "mirror-progress-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function deployMirrorFixture() {
+    const source = await sourceNode.deployBoard();
+    const target = await targetNode.deployBoard();
+    const createMirror = (
+      store: MirrorProgressStore = new MemoryMirrorProgressStore(),
+      targets: MessageStorageClient[] = [target]
+    ) =>
+      new MessageMirror({
+        source,
+        targets,
+        store,
+        confirmations: 0,
+        // Small batches so syncs span several getLogs calls
+        batchSize: 2,
+      });
+
+    return { source, target, createMirror };
+  }
+
+  const texts = async (client: MessageStorageClient) =>
+    (await client.getAllMessages()).map((m) => m.text);
+
+  it("Should copy every message to the target in order", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    await source.storeMessage("gm from chain A");
+    await source.storeMessages(["Second", "Third"]);
+
+    const { outcomes, failures } = await createMirror().sync();
+
+    expect(failures).to.deep.equal([]);
+    expect(outcomes.map((o) => [o.sourceSequence, o.status])).to.deep.equal([
+      [1, "mirrored"],
+      [2, "mirrored"],
+      [3, "mirrored"],
+    ]);
+    expect(outcomes[0].target).to.deep.equal({
+      chainId: targetNode.chainId,
+      address: target.address,
+    });
+    expect(await texts(target)).to.deep.equal([
+      "gm from chain A",
+      "Second",
+      "Third",
+    ]);
+    const isMirrored = (sequence: number) =>
+      target.isMirrored(sourceNode.chainId, source.address, sequence);
+    expect(await isMirrored(3)).to.equal(true);
+    expect(await isMirrored(4)).to.equal(false);
+  });
+
+  it("Should never mirror a message twice", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    await source.storeMessages(["One", "Two"]);
+    const mirror = createMirror();
+    await mirror.sync();
+
+    expect(await mirror.sync()).to.deep.equal({ outcomes: [], failures: [] });
+
+    // Without its progress, a mirror finds the copies already on the target
+    const { outcomes } = await createMirror().sync();
+    expect(outcomes.map((o) => o.status)).to.deep.equal([
+      "already-mirrored",
+      "already-mirrored",
+    ]);
+    expect(await target.getLastSequence()).to.equal(2);
+  });
+
+  it("Should tell apart boards on the same source chain", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    const second = await sourceNode.deployBoard();
+    await source.storeMessage("From the first board");
+    await second.storeMessage("From the second board");
+
+    await createMirror().sync();
+    const { outcomes } = await new MessageMirror({
+      source: second,
+      targets: [target],
+      store: new MemoryMirrorProgressStore(),
+      confirmations: 0,
+    }).sync();
+
+    // Both are sequence 1 on their own board
+    expect(outcomes.map((o) => [o.sourceSequence, o.status])).to.deep.equal([
+      [1, "mirrored"],
+    ]);
+    expect(await texts(target)).to.deep.equal([
+      "From the first board",
+      "From the second board",
+    ]);
+  });
+
+  it("Should skip source entries without a sequence number", async function () {
+    const { source, target } = await deployMirrorFixture();
+    await source.storeMessages(["Unsequenced", "Sequenced"]);
+
+    // A source whose node reports the first message with sequence 0
+    const [storedTopic] = encodeEventTopics({
+      abi: messageStorageAbi,
+      eventName: "MessageStored",
+    });
+    const node = http(sourceNode.url)({});
+    const request = async (args: EIP1193Parameters) => {
+      const result = await node.request(args);
+      if (args.method !== "eth_getLogs") {
+        return result;
+      }
+      return (result as Log[]).map((log) =>
+        log.topics[0] === storedTopic &&
+        log.topics[2] === numberToHex(1, { size: 32 })
+          ? {
+              ...log,
+              topics: [
+                log.topics[0],
+                log.topics[1],
+                numberToHex(0, { size: 32 }),
+                log.topics[3],
+              ],
+            }
+          : log
+      );
+    };
+    const unsequenced = new MessageStorageClient({
+      address: source.address,
+      publicClient: createPublicClient({
+        transport: custom({ request }, { retryCount: 0 }),
+      }),
+    });
+    const mirror = new MessageMirror({
+      source: unsequenced,
+      targets: [target],
+      store: new MemoryMirrorProgressStore(),
+      confirmations: 0,
+    });
+
+    const { outcomes, failures } = await mirror.sync();
+    expect(failures).to.deep.equal([]);
+    expect(outcomes.map((o) => [o.sourceSequence, o.status])).to.deep.equal([
+      [0, "unsequenced"],
+      [2, "mirrored"],
+    ]);
+    // Progress moved past it, so it isn't retried
+    expect(await mirror.sync()).to.deep.equal({ outcomes: [], failures: [] });
+    expect(await texts(target)).to.deep.equal(["Sequenced"]);
+  });
+
+  it("Should resume from saved progress after a restart", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    const progressPath = path.join(tmpDir, "progress.json");
+    await source.storeMessages(["Before restart 1", "Before restart 2"]);
+    await createMirror(new FileMirrorProgressStore(progressPath)).sync();
+
+    await source.storeMessage("After restart");
+    const restarted = createMirror(new FileMirrorProgressStore(progressPath));
+    const { outcomes } = await restarted.sync();
+
+    expect(outcomes.map((o) => [o.sourceSequence, o.status])).to.deep.equal([
+      [3, "mirrored"],
+    ]);
+    expect(await texts(target)).to.deep.equal([
+      "Before restart 1",
+      "Before restart 2",
+      "After restart",
+    ]);
+
+    const saved = JSON.parse(fs.readFileSync(progressPath, "utf8"));
+    expect(saved.source).to.deep.equal({
+      chainId: sourceNode.chainId,
+      address: source.address,
+    });
+  });
+
+  it("Should only mirror messages with enough confirmations", async function () {
+    const { source, target } = await deployMirrorFixture();
+    const mirror = new MessageMirror({
+      source,
+      targets: [target],
+      store: new MemoryMirrorProgressStore(),
+      confirmations: 2,
+    });
+
+    await source.storeMessage("Not yet confirmed");
+    expect((await mirror.sync()).outcomes).to.deep.equal([]);
+
+    await sourceNode.mine(2);
+    const { outcomes } = await mirror.sync();
+    expect(outcomes.map((o) => o.status)).to.deep.equal(["mirrored"]);
+  });
+
+  it("Should not copy mirrors back to boards that mirror each other", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    const reverse = new MessageMirror({
+      source: target,
+      targets: [source],
+      store: new MemoryMirrorProgressStore(),
+      confirmations: 0,
+    });
+
+    await source.storeMessage("From A");
+    await createMirror().sync();
+    await target.storeMessage("From B");
+
+    const { outcomes } = await reverse.sync();
+    expect(outcomes.map((o) => [o.sourceSequence, o.status])).to.deep.equal([
+      [1, "is-mirror"],
+      [2, "mirrored"],
+    ]);
+    expect(await texts(source)).to.deep.equal(["From A", "From B"]);
+  });
+
+  it("Should keep mirroring to other targets when one fails", async function () {
+    const { source, target, createMirror } = await deployMirrorFixture();
+    // A second board whose owner hasn't allowed the mirror's account
+    const owner = await targetNode.deployBoard();
+    const stranger = targetNode.connect(owner.address, targetNode.accounts[1]);
+    // And one too small for the message
+    const small = await targetNode.deployBoard(4, 8);
+    const mirror = createMirror(new MemoryMirrorProgressStore(), [
+      stranger,
+      target,
+      small,
+    ]);
+
+    await source.storeMessage("Reaches two of three");
+    const first = await mirror.sync();
+    expect(first.failures.map((f) => f.target.address)).to.deep.equal([
+      stranger.address,
+    ]);
+    expect(
+      first.outcomes.map((o) => [o.target.address, o.status])
+    ).to.deep.equal([
+      [target.address, "mirrored"],
+      [small.address, "too-long"],
+    ]);
+
+    // The failed target is retried from its own progress
+    await owner.addWriter(targetNode.accounts[1]);
+    const retry = await mirror.sync();
+    expect(retry.failures).to.deep.equal([]);
+    expect(
+      retry.outcomes.map((o) => [o.target.address, o.status])
+    ).to.deep.equal([[stranger.address, "mirrored"]]);
+    expect(await texts(owner)).to.deep.equal(["Reaches two of three"]);
+  });
+
+  it("Should refuse progress saved for another source", async function () {
+    const { createMirror } = await deployMirrorFixture();
+    const store = new MemoryMirrorProgressStore();
+    await createMirror(store).sync();
+
+    const other = await deployMirrorFixture();
+    await expect(other.createMirror(store).sync()).to.be.rejectedWith(
+      "Saved progress belongs to"
+    );
+  });
+});
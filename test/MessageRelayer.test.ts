@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import {
+  encodeMessage,
+  getSignedMessageDomain,
+  signedMessageTypes,
+  submitToRelayer,
+  toSignedMessageJson,
+  MessageRelayer,
+  MessageStorageClient,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
+
+describe("MessageRelayer", function () {
+  const relayers: MessageRelayer[] = [];
+
+  afterEach(async function () {
+    await Promise.all(relayers.splice(0).map((relayer) => relayer.close()));
+  });
+
+  async function deployRelayerFixture() {
+    const [owner, writer, relayerAccount] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      BigInt(MAX_MESSAGES),
+      BigInt(MAX_MESSAGE_SIZE_BYTES),
+    ]);
+    await messageStorage.write.addWriter([writer.account.address]);
+
+    // The writer only signs; the relayer's account pays
+    const writerClient = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: writer,
+    });
+    const relayer = new MessageRelayer({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: relayerAccount,
+    });
+    relayers.push(relayer);
+    const url = await relayer.listen();
+
+    return {
+      messageStorage,
+      owner,
+      writer,
+      relayerAccount,
+      publicClient,
+      writerClient,
+      relayer,
+      url,
+    };
+  }
+
+  // POST a raw body to the relayer
+  async function post(url: string, body: string) {
+    const response = await fetch(new URL("/messages", url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("Should report what to sign for", async function () {
+    const { messageStorage, relayerAccount, url } =
+      await deployRelayerFixture();
+
+    const response = await fetch(new URL("/status", url));
+    expect(response.status).to.equal(200);
+    expect(await response.json()).to.deep.equal({
+      contract: messageStorage.address,
+      chainId: hre.network.config.chainId,
+      relayer: getAddress(relayerAccount.account.address),
+    });
+  });
+
+  it("Should store signed messages paid by the relayer", async function () {
+    const { writerClient, writer, relayerAccount, publicClient, url } =
+      await deployRelayerFixture();
+    const writerBalance = await publicClient.getBalance({
+      address: writer.account.address,
+    });
+
+    const signed = await writerClient.signMessage("Relayed gm");
+    const result = await submitToRelayer(url, signed);
+
+    expect(result).to.include({
+      index: 0,
+      author: getAddress(writer.account.address),
+    });
+    const receipt = await publicClient.getTransactionReceipt({
+      hash: result.hash,
+    });
+    expect(receipt.from).to.equal(relayerAccount.account.address.toLowerCase());
+    expect(await writerClient.getMessage(0)).to.deep.include({
+      text: "Relayed gm",
+      author: getAddress(writer.account.address),
+    });
+    expect(
+      await publicClient.getBalance({ address: writer.account.address })
+    ).to.equal(writerBalance);
+  });
+
+  it("Should relay concurrent messages in nonce order", async function () {
+    const { writerClient, writer, publicClient, relayer } =
+      await deployRelayerFixture();
+
+    // Sign nonce 1 before nonce 0 is mined
+    const first = await writerClient.signMessage("First");
+    const message = encodeMessage("Second", MAX_MESSAGE_SIZE_BYTES);
+    const signature = await writer.signTypedData({
+      domain: getSignedMessageDomain(
+        await publicClient.getChainId(),
+        writerClient.address
+      ),
+      types: signedMessageTypes,
+      primaryType: "Message",
+      message: { message, nonce: 1n, deadline: first.deadline },
+    });
+    const second = { ...first, message, nonce: 1n, signature };
+
+    const results = await Promise.all([
+      relayer.relay(first),
+      relayer.relay(second),
+    ]);
+    expect(results.map((r) => r.index)).to.deep.equal([0, 1]);
+    expect(await writerClient.getNonce(first.author)).to.equal(2n);
+  });
+
+  it("Should refuse replays without sending them", async function () {
+    const { writerClient, relayerAccount, publicClient, url } =
+      await deployRelayerFixture();
+    const signed = await writerClient.signMessage("Once");
+    await submitToRelayer(url, signed);
+    const nonce = await publicClient.getTransactionCount({
+      address: relayerAccount.account.address,
+    });
+
+    await expect(submitToRelayer(url, signed)).to.be.rejectedWith(
+      "Relayer rejected the message (400): Nonce 0 is not the author's next nonce (1)"
+    );
+    expect(
+      await publicClient.getTransactionCount({
+        address: relayerAccount.account.address,
+      })
+    ).to.equal(nonce);
+  });
+
+  it("Should refuse messages the board would reject", async function () {
+    const { messageStorage, writerClient, writer, publicClient, url } =
+      await deployRelayerFixture();
+
+    const { timestamp } = await publicClient.getBlock();
+    const expired = await writerClient.signMessage("Late", timestamp - 1n);
+    expect(
+      await post(url, JSON.stringify(toSignedMessageJson(expired)))
+    ).to.deep.equal({ status: 400, body: { error: "Signature expired" } });
+
+    await messageStorage.write.removeWriter([writer.account.address]);
+    const revoked = await writerClient.signMessage("Revoked");
+    expect(
+      await post(url, JSON.stringify(toSignedMessageJson(revoked)))
+    ).to.deep.equal({
+      status: 400,
+      body: { error: "Signer is not an allowed writer" },
+    });
+  });
+
+  it("Should report failed submissions through onError", async function () {
+    const { messageStorage, writerClient, relayerAccount, publicClient } =
+      await deployRelayerFixture();
+    const errors: unknown[] = [];
+    const relayer = new MessageRelayer({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: relayerAccount,
+      onError: (error) => errors.push(error),
+    });
+    relayers.push(relayer);
+    const url = await relayer.listen();
+
+    const signed = await writerClient.signMessage("Lost");
+    // Remove the board's code so reading the author's nonce fails
+    await hre.network.provider.send("hardhat_setCode", [
+      messageStorage.address,
+      "0x",
+    ]);
+
+    expect(
+      await post(url, JSON.stringify(toSignedMessageJson(signed)))
+    ).to.deep.equal({ status: 500, body: { error: "Relaying failed" } });
+    expect(errors).to.have.lengthOf(1);
+  });
+
+  it("Should refuse forged and malformed requests", async function () {
+    const { writerClient, owner, url } = await deployRelayerFixture();
+    const signed = toSignedMessageJson(
+      await writerClient.signMessage("Forged?")
+    );
+
+    expect(
+      await post(
+        url,
+        JSON.stringify({ ...signed, author: owner.account.address })
+      )
+    ).to.deep.equal({ status: 400, body: { error: "Invalid signature" } });
+    expect(
+      await post(url, JSON.stringify({ ...signed, signature: "0x1234" }))
+    ).to.deep.equal({ status: 400, body: { error: "Invalid signature" } });
+    expect(await post(url, "{")).to.deep.equal({
+      status: 400,
+      body: { error: "Request body is not valid JSON" },
+    });
+    expect(
+      await post(url, JSON.stringify({ ...signed, nonce: 0 }))
+    ).to.deep.equal({
+      status: 400,
+      body: { error: "Invalid signed message: nonce must be a decimal string" },
+    });
+    expect(await post(url, "x".repeat(20 * 1024))).to.deep.include({
+      status: 400,
+    });
+
+    const response = await fetch(new URL("/nowhere", url));
+    expect(response.status).to.equal(404);
+  });
+});
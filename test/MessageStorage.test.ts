@@ -1,227 +1,504 @@
 import { expect } from "chai";
 import hre from "hardhat";
+import fc from "fast-check";
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import {
-  getAddress,
-  parseGwei,
-  toBytes,
   bytesToHex,
-  pad,
+  getAddress,
+  hexToBigInt,
+  hexToBytes,
+  numberToHex,
+  parseSignature,
+  serializeSignature,
+  zeroAddress,
+  type Address,
   type Hex,
 } from "viem";
-
-// Define types for contract return values (updated for Viem's types)
-type MessageResult = [readonly Hex[], readonly bigint[]];
+import {
+  MessageStorageClient,
+  decodeMessage,
+  encodeMessage,
+  entrySlotCount,
+  ringOrder,
+  BYTES_PER_SLOT,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
 
 describe("MessageStorage", function () {
   // We define a fixture to reuse the same setup in every test
   async function deployMessageStorageFixture() {
-    const [owner, otherAccount] = await hre.viem.getWalletClients();
+    const [owner, otherAccount, stranger] = await hre.viem.getWalletClients();
 
-    const messageStorage = await hre.viem.deployContract("MessageStorage");
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      BigInt(MAX_MESSAGES),
+      BigInt(MAX_MESSAGE_SIZE_BYTES),
+    ]);
     const publicClient = await hre.viem.getPublicClient();
 
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+    const otherClient = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: otherAccount,
+    });
+
     return {
       messageStorage,
+      client,
+      otherClient,
       owner,
       otherAccount,
+      stranger,
       publicClient,
     };
   }
 
-  function padMessage(message: string, length: number = 60): Hex {
-    // Convert string to bytes
-    const encoder = new TextEncoder();
-    const messageBytes = encoder.encode(message);
+  // Raw payload of an arbitrary length, bypassing the codec's length check
+  function rawMessage(length: number): Hex {
+    return bytesToHex(new Uint8Array(length).fill(0x78));
+  }
 
-    // Create a result array of the exact size
-    const result = new Uint8Array(length);
+  describe("Deployment", function () {
+    it("Should set the correct initial state", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
 
-    // Fill with spaces (ASCII 32)
-    result.fill(32);
+      const currentIndex = await messageStorage.read.getCurrentIndex();
+      expect(currentIndex).to.equal(0n);
+    });
+  });
 
-    // Copy the message bytes into the result
-    result.set(messageBytes.slice(0, length));
+  describe("Configuration", function () {
+    // A small board with longer messages than the default
+    const capacity = 4;
+    const maxMessageSize = 100;
 
-    // Convert to hex string for contract
-    return bytesToHex(result) as Hex;
-  }
+    async function deployConfiguredFixture() {
+      const [owner] = await hre.viem.getWalletClients();
+      const messageStorage = await hre.viem.deployContract("MessageStorage", [
+        BigInt(capacity),
+        BigInt(maxMessageSize),
+      ]);
+      const client = new MessageStorageClient({
+        address: messageStorage.address,
+        publicClient: await hre.viem.getPublicClient(),
+        walletClient: owner,
+      });
+      return { messageStorage, client };
+    }
 
-  function convertToString(bytes: Uint8Array | Hex): string {
-    // If input is a hex string, convert to Uint8Array first
-    const byteArray = typeof bytes === "string" ? toBytes(bytes) : bytes;
+    it("Should report the default configuration", async function () {
+      const { client } = await deployMessageStorageFixture();
 
-    // Convert bytes to string
-    const decoder = new TextDecoder("ascii");
-    return decoder
-      .decode(byteArray)
-      .replace(/\u0000/g, "")
-      .trim();
-  }
+      expect(await client.getConfig()).to.deep.equal({
+        capacity: MAX_MESSAGES,
+        maxMessageSize: MAX_MESSAGE_SIZE_BYTES,
+      });
+    });
 
-  // Helper function to convert message parts to string, handling the missing bytes
-  function partsToString(part1: Hex, part2: Hex): string {
-    try {
-      // First part - take all 32 bytes from part1
-      const p1Raw = part1.slice(2);
-      const p1Str = Buffer.from(p1Raw, "hex")
-        .toString("ascii")
-        .replace(/\0/g, "");
-
-      // For part2 - the first 4 bytes contain the timestamp
-      // The pattern we see is (g_!<newline>) followed by the rest of the message
-      // We need to reconstruct the middle part that got corrupted
-      // First get what's after byte 4 - those are good (JJJJ onwards)
-      const p2Good = Buffer.from(part2.slice(2).substring(8), "hex")
-        .toString("ascii")
-        .replace(/\0/g, "");
-
-      // The original message is 60 bytes, part1 has 32 bytes,
-      // so the missing part is 4 bytes long (IIII in our test case)
-      // We can't recover this from storage due to how assembly works
-      // Instead, we'll infer it from context in our case
-
-      // For our specific message format, we can infer the correct values
-      // This is application-specific logic that works for our test messages
-      let reconstructedMessage = p1Str;
-
-      if (p1Str.includes("test message for the s")) {
-        // Test case 1: "This is a test message for the storage contract."
-        reconstructedMessage += "torage contract.";
-        return reconstructedMessage;
-      } else if (p1Str.includes("Message number")) {
-        // Test case 2: "Message number 17 for testing circular buffer"
-        // Need to see which message number it is
-        const match = p1Str.match(/Message number (\d+)/);
-        if (match) {
-          const num = match[1];
-          return `Message number ${num} for testing circular buffer`;
-        }
-      } else if (p1Str.includes("First test message for retrieval")) {
-        // Test case 3: "First test message for retrieval testing"
-        reconstructedMessage += " testing";
-        return reconstructedMessage;
-      } else if (p1Str.includes("Second test message with diffe")) {
-        // Test case 4: "Second test message with different content"
-        return "Second test message with different content";
-      } else if (p1Str.includes("Third message to verify stor")) {
-        // Test case 5: "Third message to verify storage and retrieval"
-        return "Third message to verify storage and retrieval";
-      } else if (p1Str.includes("Fourth message checking circ")) {
-        // Test case 6: "Fourth message checking circular buffer behavior"
-        return "Fourth message checking circular buffer behavior";
-      } else if (p1Str.includes("Fifth message to complete")) {
-        // Test case 7: "Fifth message to complete our test set"
-        return "Fifth message to complete our test set";
-      } else {
-        // Generic case - take what we can get and note lost bytes
-        const lossBoundary = Math.min(p1Str.length, 32);
-        return p1Str.substring(0, lossBoundary) + "[lost bytes]" + p2Good;
-      }
+    it("Should size messages from the constructor parameters", async function () {
+      const { messageStorage, client } = await deployConfiguredFixture();
 
-      return reconstructedMessage;
-    } catch (e) {
-      console.error("Error decoding parts:", e);
-      return "Error decoding message";
-    }
-  }
+      expect(await messageStorage.read.getCapacity()).to.equal(
+        BigInt(capacity)
+      );
+      expect(await messageStorage.read.getMaxMessageSize()).to.equal(
+        BigInt(maxMessageSize)
+      );
 
-  describe("Deployment", function () {
-    it("Should set the correct initial state", async function () {
-      const { messageStorage } = await deployMessageStorageFixture();
+      // The client checks against the board's limit, so a 100-byte text fits
+      const text = "x".repeat(maxMessageSize);
+      await client.storeMessage(text);
+      expect((await client.getMessage(0)).text).to.equal(text);
 
-      const currentIndex = await messageStorage.read.getCurrentIndex();
-      expect(currentIndex).to.equal(0n);
+      await expect(
+        messageStorage.write.storeMessage([rawMessage(maxMessageSize + 1)])
+      ).to.be.rejectedWith("Invalid message length");
+    });
+
+    it("Should wrap around at the configured capacity", async function () {
+      const { client } = await deployConfiguredFixture();
+
+      for (let i = 0; i < capacity + 1; i++) {
+        await client.storeMessage(`Configured message ${i + 1}`);
+      }
+
+      expect(await client.getCurrentIndex()).to.equal(1);
+      const messages = await client.getAllMessages();
+      expect(messages.map((m) => m.index)).to.deep.equal(
+        ringOrder(1, capacity)
+      );
+      expect(messages.map((m) => m.text)).to.deep.equal([
+        "Configured message 2",
+        "Configured message 3",
+        "Configured message 4",
+        "Configured message 5",
+      ]);
+      await expect(client.getMessage(capacity)).to.be.rejectedWith(
+        "Index out of bounds"
+      );
+    });
+
+    it("Should reject out-of-range constructor parameters", async function () {
+      await expect(
+        hre.viem.deployContract("MessageStorage", [0n, 2n])
+      ).to.be.rejectedWith("Capacity out of range");
+      await expect(
+        hre.viem.deployContract("MessageStorage", [1025n, 2n])
+      ).to.be.rejectedWith("Capacity out of range");
+      await expect(
+        hre.viem.deployContract("MessageStorage", [16n, 0n])
+      ).to.be.rejectedWith("Message size out of range");
+      await expect(
+        hre.viem.deployContract("MessageStorage", [16n, 1025n])
+      ).to.be.rejectedWith("Message size out of range");
     });
   });
 
   describe("Storing Messages", function () {
     it("Should store a single message correctly", async function () {
-      const { messageStorage, owner } = await deployMessageStorageFixture();
+      const { client } = await deployMessageStorageFixture();
 
       // Test message
       const message = "This is a test message for the storage contract.";
-      const paddedMessage = padMessage(message);
 
-      // Store the message
-      const tx = await messageStorage.write.storeMessage([paddedMessage]);
+      // Store the message and check the returned index
+      const { index } = await client.storeMessage(message);
+      expect(index).to.equal(0);
 
-      // Check the returned index
-      const currentIndex = await messageStorage.read.getCurrentIndex();
-      expect(currentIndex).to.equal(1n);
+      const currentIndex = await client.getCurrentIndex();
+      expect(currentIndex).to.equal(1);
 
       // Retrieve the message using getMessage
-      const result = await messageStorage.read.getMessage([0n]);
-      const part1 = result[0]; // bytes32 part1
-      const part2 = result[1]; // bytes32 part2 (includes timestamp)
-      const timestamp = result[2]; // uint32 timestamp
-
-      const fullMessage = partsToString(part1, part2);
+      const stored = await client.getMessage(0);
 
       // Check the stored message
-      expect(fullMessage.trim()).to.equal(message);
+      expect(stored.index).to.equal(0);
+      expect(stored.text).to.equal(message);
 
       // Check timestamp is non-zero
-      expect(Number(timestamp)).to.be.greaterThan(0);
+      expect(stored.timestamp.getTime()).to.be.greaterThan(0);
     });
 
     it("Should handle multiple messages in circular buffer", async function () {
-      const { messageStorage } = await deployMessageStorageFixture();
+      const { client } = await deployMessageStorageFixture();
 
       // Store 18 messages (more than the buffer capacity of 16)
       for (let i = 0; i < 18; i++) {
-        const message = `Message number ${i + 1} for testing circular buffer`;
-        const paddedMessage = padMessage(message);
-        await messageStorage.write.storeMessage([paddedMessage]);
+        await client.storeMessage(
+          `Message number ${i + 1} for testing circular buffer`
+        );
       }
 
       // Current index should have wrapped around to 2
-      const currentIndex = await messageStorage.read.getCurrentIndex();
-      expect(currentIndex).to.equal(2n);
+      const currentIndex = await client.getCurrentIndex();
+      expect(currentIndex).to.equal(2);
 
       // Check individual messages
-      const message0 = await messageStorage.read.getMessage([0n]);
-      const message1 = await messageStorage.read.getMessage([1n]);
+      const message0 = await client.getMessage(0);
+      const message1 = await client.getMessage(1);
 
       // Check that older messages were overwritten
       // The 0th and 1st slots should contain messages 17 and 18
-      expect(partsToString(message0[0], message0[1])).to.equal(
+      expect(message0.text).to.equal(
         "Message number 17 for testing circular buffer"
       );
-      expect(partsToString(message1[0], message1[1])).to.equal(
+      expect(message1.text).to.equal(
         "Message number 18 for testing circular buffer"
       );
 
       // And the rest should be messages 3-16
       for (let i = 2; i < 16; i++) {
-        const messageData = await messageStorage.read.getMessage([BigInt(i)]);
-        expect(partsToString(messageData[0], messageData[1])).to.equal(
+        const messageData = await client.getMessage(i);
+        expect(messageData.text).to.equal(
           `Message number ${i + 1} for testing circular buffer`
         );
       }
     });
 
-    it("Should reject messages that don't match the required length", async function () {
+    it("Should store messages of any length up to the maximum", async function () {
+      const { client } = await deployMessageStorageFixture();
+
+      // No padding is added, so short messages keep their exact bytes
+      const texts = [
+        "x",
+        "Trailing space ",
+        "x".repeat(MAX_MESSAGE_SIZE_BYTES),
+      ];
+      for (const text of texts) {
+        const { index } = await client.storeMessage(text);
+        expect((await client.getMessage(index)).text).to.equal(text);
+      }
+    });
+
+    it("Should reject empty messages and messages over the maximum length", async function () {
       const { messageStorage } = await deployMessageStorageFixture();
 
-      // Too short message
-      const tooShortMessage = "Too short";
-      const shortMessage = padMessage(tooShortMessage, 30); // Only 30 bytes
+      await expect(
+        messageStorage.write.storeMessage(["0x"])
+      ).to.be.rejectedWith("Invalid message length");
+      await expect(
+        messageStorage.write.storeMessage([
+          rawMessage(MAX_MESSAGE_SIZE_BYTES + 1),
+        ])
+      ).to.be.rejectedWith("Invalid message length");
+    });
+
+    it("Should refuse to encode empty messages and messages longer than 60 bytes", async function () {
+      const { client } = await deployMessageStorageFixture();
+
+      const tooLong = "x".repeat(MAX_MESSAGE_SIZE_BYTES + 1);
+      // 20 three-byte characters fit, 21 don't
+      const tooLongUtf8 = "€".repeat(21);
+
+      await expect(client.storeMessage("")).to.be.rejectedWith(RangeError);
+      await expect(client.storeMessage(tooLong)).to.be.rejectedWith(RangeError);
+      await expect(client.storeMessage(tooLongUtf8)).to.be.rejectedWith(
+        RangeError
+      );
+      expect(await client.getCurrentIndex()).to.equal(0);
+    });
+
+    it("Should not leak bytes from a longer message it overwrites", async function () {
+      const { messageStorage, client } = await deployMessageStorageFixture();
+
+      for (let i = 0; i < MAX_MESSAGES; i++) {
+        await client.storeMessage("x".repeat(MAX_MESSAGE_SIZE_BYTES));
+      }
+      await client.storeMessage("short");
+
+      const [message] = await messageStorage.read.getMessage([0n]);
+      expect(decodeMessage(message)).to.equal("short");
+    });
+  });
+
+  describe("Batch", function () {
+    async function deployBatchFixture(capacity: number) {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+
+      // Two identical boards, one written in batches and one message at a time
+      const deployClient = async () =>
+        new MessageStorageClient({
+          address: (
+            await hre.viem.deployContract("MessageStorage", [
+              BigInt(capacity),
+              BigInt(MAX_MESSAGE_SIZE_BYTES),
+            ])
+          ).address,
+          publicClient,
+          walletClient: owner,
+        });
+
+      return { batched: await deployClient(), single: await deployClient() };
+    }
+
+    it("Should return the assigned indices and emit one event per message", async function () {
+      const { messageStorage, client } = await deployMessageStorageFixture();
+      await client.storeMessage("Before the batch");
+
+      // Simulated as the owner, the default account
+      const texts = ["Status 1", "Status 2", "Status 3"];
+      const { result } = await messageStorage.simulate.storeMessages([
+        texts.map((text) => encodeMessage(text)),
+      ]);
+      expect(result).to.deep.equal([1n, 2n, 3n]);
+
+      const { indices } = await client.storeMessages(texts);
+      expect(indices).to.deep.equal([1, 2, 3]);
+      expect(await client.getCurrentIndex()).to.equal(4);
 
-      // Too long message
-      const tooLongMessage = "This message is way too long for our storage";
-      const longMessage = padMessage(tooLongMessage, 70); // 70 bytes
+      const events = await messageStorage.getEvents.MessageStored(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(
+        events
+          .slice(1)
+          .map((e) => [e.args.index, decodeMessage(e.args.message!)])
+      ).to.deep.equal([
+        [1n, "Status 1"],
+        [2n, "Status 2"],
+        [3n, "Status 3"],
+      ]);
+    });
+
+    it("Should wrap around exactly like separate calls", async function () {
+      const capacity = 4;
+      const { batched, single } = await deployBatchFixture(capacity);
+
+      // Start mid-ring, then write more than the whole ring in one batch
+      const first = ["One", "Two"];
+      const batch = ["3", "4", "5", "6", "7", "8"];
+      await batched.storeMessages(first);
+      const { indices } = await batched.storeMessages(batch);
+      for (const text of [...first, ...batch]) {
+        await single.storeMessage(text);
+      }
+
+      expect(indices).to.deep.equal([2, 3, 0, 1, 2, 3]);
+      expect(await batched.getCurrentIndex()).to.equal(
+        await single.getCurrentIndex()
+      );
+      const summarize = (messages: { index: number; text: string }[]) =>
+        messages.map(({ index, text }) => [index, text]);
+      expect(summarize(await batched.getAllMessages())).to.deep.equal(
+        summarize(await single.getAllMessages())
+      );
+      expect((await batched.getAllMessages()).map((m) => m.text)).to.deep.equal(
+        ["5", "6", "7", "8"]
+      );
+    });
+
+    it("Should reject the whole batch if any message is invalid", async function () {
+      const { messageStorage, client, otherClient } =
+        await deployMessageStorageFixture();
+
+      await expect(messageStorage.write.storeMessages([[]])).to.be.rejectedWith(
+        "No messages"
+      );
+      await expect(
+        messageStorage.write.storeMessages([
+          [encodeMessage("Valid"), rawMessage(MAX_MESSAGE_SIZE_BYTES + 1)],
+        ])
+      ).to.be.rejectedWith("Invalid message length");
+      expect(await client.getAllMessages()).to.deep.equal([]);
+
+      await expect(
+        otherClient.storeMessages(["Not allowed"])
+      ).to.be.rejectedWith("Caller is not an allowed writer");
+      await client.pause();
+      await expect(client.storeMessages(["Paused"])).to.be.rejectedWith(
+        "Contract is paused"
+      );
+    });
+
+    it("Should cost less per message than separate calls", async function () {
+      const { batched, single } = await deployBatchFixture(MAX_MESSAGES);
+      const texts = Array.from(
+        { length: 8 },
+        (_, i) => `Bot status line ${i + 1}: all systems nominal`
+      );
+
+      // Warm both rings past the first write so neither pays to initialize
+      // currentIndex inside the measurement
+      await batched.storeMessage("Warm-up");
+      await single.storeMessage("Warm-up");
+
+      const { receipt } = await batched.storeMessages(texts);
+      const batchedPerMessage = Number(receipt.gasUsed) / texts.length;
+
+      let singleTotal = 0;
+      for (const text of texts) {
+        singleTotal += Number(
+          (await single.storeMessage(text)).receipt.gasUsed
+        );
+      }
+      const singlePerMessage = singleTotal / texts.length;
 
-      // Both should be rejected
-      await expect(messageStorage.write.storeMessage([shortMessage])).to.be
-        .rejected;
-      await expect(messageStorage.write.storeMessage([longMessage])).to.be
-        .rejected;
+      // Each separate call pays the 21000 base cost plus its own
+      // currentIndex write, which a batch shares across its messages
+      expect(singlePerMessage - batchedPerMessage).to.be.greaterThan(15000);
+    });
+  });
+
+  describe("Round-trip", function () {
+    // Every run is a transaction, so keep the run count modest
+    const numRuns = 50;
+
+    it("Should read back any payload of 1 to 60 bytes exactly", async function () {
+      const { messageStorage, publicClient } =
+        await deployMessageStorageFixture();
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.uint8Array({
+            minLength: 1,
+            maxLength: MAX_MESSAGE_SIZE_BYTES,
+          }),
+          async (payload) => {
+            const index = await messageStorage.read.getCurrentIndex();
+            const hash = await messageStorage.write.storeMessage([
+              bytesToHex(payload),
+            ]);
+            const { blockNumber } =
+              await publicClient.waitForTransactionReceipt({ hash });
+            const block = await publicClient.getBlock({ blockNumber });
+
+            const [message, timestamp] = await messageStorage.read.getMessage([
+              index,
+            ]);
+
+            expect(hexToBytes(message)).to.deep.equal(payload);
+            expect(BigInt(timestamp)).to.equal(block.timestamp);
+          }
+        ),
+        { numRuns }
+      );
+    });
+
+    it("Should decode any stored UTF-8 text to the original message", async function () {
+      const { client } = await deployMessageStorageFixture();
+
+      // Any code points, including multi-byte and astral ones, that fit
+      const utf8Text = fc
+        .string({ unit: "binary", minLength: 1, maxLength: 30 })
+        .filter((text) => {
+          const size = new TextEncoder().encode(text).length;
+          return size > 0 && size <= MAX_MESSAGE_SIZE_BYTES;
+        });
+
+      await fc.assert(
+        fc.asyncProperty(utf8Text, async (text) => {
+          const { index } = await client.storeMessage(text);
+          const stored = await client.getMessage(index);
+
+          expect(stored.text).to.equal(text);
+        }),
+        { numRuns }
+      );
+    });
+    it("Should read compact messages with any client", async function () {
+      const { messageStorage, client, publicClient, owner } =
+        await deployMessageStorageFixture();
+      const compactClient = new MessageStorageClient({
+        address: messageStorage.address,
+        publicClient,
+        walletClient: owner,
+        compact: true,
+      });
+      const status = "node 3 synced to block 19204411, peers 25, lag 0.4s ok";
+      const long = status + " -- next check in 30s";
+
+      // Too long for 60 raw bytes, but not once packed
+      await expect(client.storeMessage(long)).to.be.rejectedWith(RangeError);
+      const { indices } = await compactClient.storeMessages([
+        long,
+        "Ünïcode stays raw",
+      ]);
+
+      const stored = await Promise.all(
+        indices.map((index) => client.getMessage(index))
+      );
+      expect(stored.map((m) => m.text)).to.deep.equal([
+        long,
+        "Ünïcode stays raw",
+      ]);
+      const [packed, raw] = await Promise.all(
+        indices.map((index) => messageStorage.read.getMessage([BigInt(index)]))
+      );
+      expect(hexToBytes(packed[0])[0]).to.equal(0xfe);
+      expect(raw[0]).to.equal(encodeMessage("Ünïcode stays raw"));
     });
   });
 
   describe("Retrieving Messages", function () {
     it("Should retrieve all stored messages with correct timestamps", async function () {
-      const { messageStorage } = await deployMessageStorageFixture();
+      const { client } = await deployMessageStorageFixture();
 
       // Store 5 messages
       const testMessages = [
@@ -233,145 +510,920 @@ describe("MessageStorage", function () {
       ];
 
       for (const msg of testMessages) {
-        await messageStorage.write.storeMessage([padMessage(msg)]);
+        await client.storeMessage(msg);
       }
 
       // Check each message individually
       for (let i = 0; i < testMessages.length; i++) {
-        const msgData = await messageStorage.read.getMessage([BigInt(i)]);
-        const fullMsg = partsToString(msgData[0], msgData[1]);
-        const timestamp = msgData[2];
+        const msgData = await client.getMessage(i);
 
-        expect(fullMsg).to.equal(testMessages[i]);
-        expect(Number(timestamp)).to.be.greaterThan(0);
+        expect(msgData.text).to.equal(testMessages[i]);
+        expect(msgData.timestamp.getTime()).to.be.greaterThan(0);
       }
 
       // Check that remaining slots return valid byte arrays
       for (let i = testMessages.length; i < 16; i++) {
-        const emptyMsgData = await messageStorage.read.getMessage([BigInt(i)]);
+        const emptyMsgData = await client.getMessage(i);
         // Just verify we can access these slots without errors
-        expect(emptyMsgData[0]).to.not.be.undefined;
-        expect(emptyMsgData[1]).to.not.be.undefined;
+        expect(emptyMsgData.text).to.equal("");
+        expect(emptyMsgData.timestamp.getTime()).to.equal(0);
       }
     });
   });
 
+  describe("getAllMessages", function () {
+    async function storeNumbered(client: MessageStorageClient, count: number) {
+      const texts: string[] = [];
+      for (let i = 0; i < count; i++) {
+        texts.push(`Bulk read message ${i + 1}`);
+        await client.storeMessage(texts[i]);
+      }
+      return texts;
+    }
+
+    it("Should return nothing before any message is stored", async function () {
+      const { client } = await deployMessageStorageFixture();
+
+      expect(await client.getAllMessages()).to.deep.equal([]);
+    });
+
+    it("Should return only written slots before the buffer fills", async function () {
+      const { client } = await deployMessageStorageFixture();
+      const texts = await storeNumbered(client, 5);
+
+      const all = await client.getAllMessages();
+
+      expect(all.map((m) => m.index)).to.deep.equal([0, 1, 2, 3, 4]);
+      expect(all.map((m) => m.text)).to.deep.equal(texts);
+    });
+
+    it("Should return every slot in order when the buffer is exactly full", async function () {
+      const { client } = await deployMessageStorageFixture();
+      const texts = await storeNumbered(client, MAX_MESSAGES);
+
+      const all = await client.getAllMessages();
+
+      expect(await client.getCurrentIndex()).to.equal(0);
+      expect(all.map((m) => m.index)).to.deep.equal(ringOrder(0));
+      expect(all.map((m) => m.text)).to.deep.equal(texts);
+    });
+
+    it("Should return messages oldest to newest after wrapping", async function () {
+      const { client } = await deployMessageStorageFixture();
+      const texts = await storeNumbered(client, MAX_MESSAGES + 5);
+
+      const all = await client.getAllMessages();
+
+      // The oldest surviving message sits at currentIndex
+      expect(await client.getCurrentIndex()).to.equal(5);
+      expect(all.map((m) => m.index)).to.deep.equal(ringOrder(5));
+      expect(all.map((m) => m.text)).to.deep.equal(texts.slice(5));
+
+      // Timestamps never go backwards in chronological order
+      for (let i = 1; i < all.length; i++) {
+        expect(all[i].timestamp.getTime()).to.be.at.least(
+          all[i - 1].timestamp.getTime()
+        );
+      }
+
+      // Bulk reads agree with single-index reads
+      for (const message of all) {
+        expect(await client.getMessage(message.index)).to.deep.equal(message);
+      }
+    });
+  });
+
+  describe("Authors", function () {
+    it("Should record the sender of each message", async function () {
+      const { client, otherClient, owner, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+
+      await client.storeMessage("Written by the owner");
+      await otherClient.storeMessage("Written by another account");
+
+      const first = await client.getMessage(0);
+      const second = await client.getMessage(1);
+      expect(first.author).to.equal(getAddress(owner.account.address));
+      expect(second.author).to.equal(getAddress(otherAccount.account.address));
+
+      const all = await client.getAllMessages();
+      expect(all.map((m) => m.author)).to.deep.equal([
+        first.author,
+        second.author,
+      ]);
+    });
+
+    it("Should index the author in MessageStored", async function () {
+      const { messageStorage, client, otherClient, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+
+      await client.storeMessage("Not from the other account");
+      await otherClient.storeMessage("From the other account");
+
+      const events = await messageStorage.getEvents.MessageStored(
+        { author: otherAccount.account.address },
+        { fromBlock: 0n }
+      );
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args.index).to.equal(1n);
+    });
+
+    it("Should return the latest messages by an author, oldest first", async function () {
+      const { client, otherClient, owner, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+
+      // Interleave writers so the filter has to skip entries
+      for (let i = 0; i < 6; i++) {
+        await client.storeMessage(`Owner message ${i}`);
+        await otherClient.storeMessage(`Other message ${i}`);
+      }
+
+      const latest = await client.getMessagesByAuthor(
+        otherAccount.account.address,
+        3
+      );
+      expect(latest.map((m) => m.text)).to.deep.equal([
+        "Other message 3",
+        "Other message 4",
+        "Other message 5",
+      ]);
+      expect(latest.map((m) => m.index)).to.deep.equal([7, 9, 11]);
+
+      // A limit above the number of matches returns every match
+      const allByOwner = await client.getMessagesByAuthor(
+        owner.account.address,
+        100
+      );
+      expect(allByOwner).to.have.lengthOf(6);
+      expect(allByOwner[0].text).to.equal("Owner message 0");
+    });
+
+    it("Should only return surviving messages after wrapping", async function () {
+      const { client, otherClient, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+
+      await otherClient.storeMessage("Soon overwritten");
+      for (let i = 0; i < MAX_MESSAGES; i++) {
+        await client.storeMessage(`Owner message ${i}`);
+      }
+
+      expect(
+        await client.getMessagesByAuthor(otherAccount.account.address)
+      ).to.deep.equal([]);
+    });
+
+    it("Should reject the zero address as an author filter", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+
+      await expect(
+        messageStorage.read.getMessagesByAuthor([zeroAddress, 1n])
+      ).to.be.rejectedWith("Author is the zero address");
+    });
+  });
+
+  describe("Sequence Numbers", function () {
+    it("Should number messages from 1, across batches and wraparound", async function () {
+      const { client } = await deployMessageStorageFixture();
+      expect(await client.getLastSequence()).to.equal(0);
+
+      const first = await client.storeMessage("First");
+      expect(first).to.include({ sequence: 1, index: 0 });
+      const batch = await client.storeMessages(
+        Array.from({ length: MAX_MESSAGES }, (_, i) => `Batch ${i}`)
+      );
+      expect(batch.sequences).to.deep.equal(
+        Array.from({ length: MAX_MESSAGES }, (_, i) => i + 2)
+      );
+      const last = await client.storeMessage("Last");
+      expect(last).to.include({ sequence: MAX_MESSAGES + 2, index: 1 });
+
+      expect(await client.getLastSequence()).to.equal(MAX_MESSAGES + 2);
+      const all = await client.getAllMessages();
+      expect(all.map((m) => m.sequence)).to.deep.equal(
+        Array.from({ length: MAX_MESSAGES }, (_, i) => i + 3)
+      );
+      expect((await client.getMessage(1)).sequence).to.equal(MAX_MESSAGES + 2);
+    });
+
+    it("Should index the sequence number in MessageStored", async function () {
+      const { messageStorage, client } = await deployMessageStorageFixture();
+      await client.storeMessages(["One", "Two", "Three"]);
+
+      const events = await messageStorage.getEvents.MessageStored(
+        { sequence: 2n },
+        { fromBlock: 0n }
+      );
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args.index).to.equal(1n);
+    });
+
+    it("Should look up stored messages by sequence number", async function () {
+      const { client, otherClient, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+      await client.storeMessage("Owner message");
+      const { sequence } = await otherClient.storeMessage("Other message");
+
+      const lookup = await client.getMessageBySequence(sequence);
+      expect(lookup).to.deep.equal({
+        status: "stored",
+        message: await client.getMessage(1),
+      });
+      if (lookup.status === "stored") {
+        expect(lookup.message).to.include({
+          text: "Other message",
+          author: getAddress(otherAccount.account.address),
+          sequence: 2,
+        });
+      }
+    });
+
+    it("Should report overwritten messages with their former index", async function () {
+      const { client } = await deployMessageStorageFixture();
+      await client.storeMessages(
+        Array.from({ length: MAX_MESSAGES + 3 }, (_, i) => `Message ${i}`)
+      );
+
+      // Sequences 1-3 were evicted; 4 is the oldest survivor
+      for (let sequence = 1; sequence <= 3; sequence++) {
+        expect(await client.getMessageBySequence(sequence)).to.deep.equal({
+          status: "overwritten",
+          sequence,
+          index: sequence - 1,
+        });
+      }
+      const oldest = await client.getMessageBySequence(4);
+      expect(oldest.status).to.equal("stored");
+      if (oldest.status === "stored") {
+        expect(oldest.message).to.include({ index: 3, text: "Message 3" });
+      }
+    });
+
+    it("Should reject sequence numbers that were never assigned", async function () {
+      const { messageStorage, client } = await deployMessageStorageFixture();
+      await expect(
+        messageStorage.read.getMessageBySequence([1n])
+      ).to.be.rejectedWith("Unknown sequence number");
+
+      await client.storeMessage("Only message");
+      await expect(
+        messageStorage.read.getMessageBySequence([0n])
+      ).to.be.rejectedWith("Unknown sequence number");
+      await expect(
+        messageStorage.read.getMessageBySequence([2n])
+      ).to.be.rejectedWith("Unknown sequence number");
+    });
+  });
+
+  describe("Pagination", function () {
+    // Store one message every ten seconds, returning the time of the nth
+    async function storeSpaced(client: MessageStorageClient, count: number) {
+      const start = (await time.latest()) + 10;
+      for (let i = 0; i < count; i++) {
+        await time.setNextBlockTimestamp(start + i * 10);
+        await client.storeMessage(`Message ${i}`);
+      }
+      return (n: number) => new Date((start + n * 10) * 1000);
+    }
+
+    it("Should page through the buffer with a cursor", async function () {
+      const { client } = await deployMessageStorageFixture();
+      await storeSpaced(client, 5);
+
+      const first = await client.getMessagesPage({ limit: 2 });
+      expect(first.messages.map((m) => m.sequence)).to.deep.equal([1, 2]);
+      expect(first.nextCursor).to.equal(2);
+
+      const second = await client.getMessagesPage({ after: 2, limit: 2 });
+      expect(second.messages.map((m) => m.text)).to.deep.equal([
+        "Message 2",
+        "Message 3",
+      ]);
+      expect(second.nextCursor).to.equal(4);
+
+      const last = await client.getMessagesPage({ after: 4, limit: 2 });
+      expect(last.messages.map((m) => m.sequence)).to.deep.equal([5]);
+      expect(last.nextCursor).to.be.undefined;
+
+      // A page that ends exactly on the last match is the last page
+      const exact = await client.getMessagesPage({ after: 3, limit: 2 });
+      expect(exact.messages.map((m) => m.sequence)).to.deep.equal([4, 5]);
+      expect(exact.nextCursor).to.be.undefined;
+    });
+
+    it("Should filter by time window, from inclusive and to exclusive", async function () {
+      const { client } = await deployMessageStorageFixture();
+      const at = await storeSpaced(client, 6);
+
+      const window = await client.getMessagesPage({
+        from: at(1),
+        to: at(4),
+      });
+      expect(window.messages.map((m) => m.text)).to.deep.equal([
+        "Message 1",
+        "Message 2",
+        "Message 3",
+      ]);
+      expect(window.nextCursor).to.be.undefined;
+
+      // Bounds between two blocks round up to the next block's time
+      const since = await client.getMessagesPage({
+        from: new Date(at(4).getTime() - 5000),
+      });
+      expect(since.messages.map((m) => m.text)).to.deep.equal([
+        "Message 4",
+        "Message 5",
+      ]);
+
+      // The cursor and the window combine
+      const paged = await client.getMessagesPage({
+        after: 2,
+        from: at(1),
+        to: at(5),
+        limit: 1,
+      });
+      expect(paged.messages.map((m) => m.sequence)).to.deep.equal([3]);
+      expect(paged.nextCursor).to.equal(3);
+
+      const empty = await client.getMessagesPage({
+        from: new Date(at(5).getTime() + 1000),
+      });
+      expect(empty).to.deep.equal({ messages: [], nextCursor: undefined });
+    });
+
+    it("Should start at the oldest surviving message after wrapping", async function () {
+      const { client } = await deployMessageStorageFixture();
+      await storeSpaced(client, MAX_MESSAGES + 3);
+
+      // Sequences 1-3 were overwritten, so the cursor skips ahead to 4
+      const page = await client.getMessagesPage({ after: 1, limit: 2 });
+      expect(page.messages.map((m) => [m.sequence, m.index])).to.deep.equal([
+        [4, 3],
+        [5, 4],
+      ]);
+
+      const all = await client.getMessagesPage();
+      expect(all.messages).to.deep.equal(await client.getAllMessages());
+      expect(all.nextCursor).to.be.undefined;
+    });
+
+    it("Should reject empty pages and inverted time windows", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+
+      await expect(
+        messageStorage.read.getMessagesPage([0n, 0n, 100n, 0n])
+      ).to.be.rejectedWith("Limit is zero");
+      await expect(
+        messageStorage.read.getMessagesPage([0n, 200n, 100n, 1n])
+      ).to.be.rejectedWith("Invalid time range");
+    });
+  });
+
+  describe("Mirrored Messages", function () {
+    // Two boards on the source chain, so copies of each are told apart
+    const sourceBoard = getAddress(`0x${"5a".repeat(20)}`);
+    const otherBoard = getAddress(`0x${"5b".repeat(20)}`);
+
+    it("Should store mirrored messages with their origin", async function () {
+      const { messageStorage, client, owner } =
+        await deployMessageStorageFixture();
+      await client.storeMessage("Local message");
+
+      const { sequence, index } = await client.storeMirroredMessage(
+        encodeMessage("From another chain"),
+        5000,
+        sourceBoard,
+        42
+      );
+      expect(sequence).to.equal(2);
+      expect(index).to.equal(1);
+      expect(await client.getMessage(1)).to.include({
+        text: "From another chain",
+        author: getAddress(owner.account.address),
+      });
+
+      expect(await client.isMirrored(5000, sourceBoard, 42)).to.equal(true);
+      expect(await client.isMirrored(5000, sourceBoard, 41)).to.equal(false);
+      expect(await client.isMirrored(5001, sourceBoard, 42)).to.equal(false);
+      expect(await client.isMirrored(5000, otherBoard, 42)).to.equal(false);
+
+      const events = await messageStorage.getEvents.MessageMirrored(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args).to.deep.equal({
+        sourceChainId: 5000n,
+        sourceBoard,
+        sourceSequence: 42n,
+        sequence: 2n,
+      });
+    });
+
+    it("Should refuse to mirror a message twice", async function () {
+      const { client } = await deployMessageStorageFixture();
+      const mirror = (text: string, board: Address, sequence: number) =>
+        client.storeMirroredMessage(encodeMessage(text), 5000, board, sequence);
+      await mirror("Once", sourceBoard, 1);
+
+      await expect(mirror("Twice", sourceBoard, 1)).to.be.rejectedWith(
+        "Message already mirrored"
+      );
+      await expect(mirror("Unnumbered", sourceBoard, 0)).to.be.rejectedWith(
+        "Invalid source sequence"
+      );
+      // The same sequence number on another board of that chain is another
+      // message
+      await mirror("Other board", otherBoard, 1);
+      expect(await client.getLastSequence()).to.equal(2);
+    });
+
+    it("Should only let writers mirror messages", async function () {
+      const { client, otherClient, otherAccount } =
+        await deployMessageStorageFixture();
+
+      await expect(
+        otherClient.storeMirroredMessage(
+          encodeMessage("Relayed"),
+          5000,
+          sourceBoard,
+          1
+        )
+      ).to.be.rejectedWith("Caller is not an allowed writer");
+
+      await client.addWriter(otherAccount.account.address);
+      await otherClient.storeMirroredMessage(
+        encodeMessage("Relayed"),
+        5000,
+        sourceBoard,
+        1
+      );
+      expect(await client.isMirrored(5000, sourceBoard, 1)).to.equal(true);
+    });
+
+    it("Should check mirrored messages like any other", async function () {
+      const { client } = await deployMessageStorageFixture();
+
+      await expect(
+        client.storeMirroredMessage(
+          rawMessage(MAX_MESSAGE_SIZE_BYTES + 1),
+          5000,
+          sourceBoard,
+          1
+        )
+      ).to.be.rejectedWith("Invalid message length");
+      await client.pause();
+      await expect(
+        client.storeMirroredMessage(
+          encodeMessage("Paused"),
+          5000,
+          sourceBoard,
+          1
+        )
+      ).to.be.rejectedWith("Contract is paused");
+    });
+  });
+
+  describe("Access Control", function () {
+    it("Should make the deployer the owner", async function () {
+      const { client, owner, otherAccount } =
+        await deployMessageStorageFixture();
+
+      expect(await client.getOwner()).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(await client.isWriter(owner.account.address)).to.equal(true);
+      expect(await client.isWriter(otherAccount.account.address)).to.equal(
+        false
+      );
+      expect(await client.isPaused()).to.equal(false);
+    });
+
+    it("Should reject writers that are not on the allowlist", async function () {
+      const { otherClient } = await deployMessageStorageFixture();
+
+      await expect(
+        otherClient.storeMessage("Unauthorized message")
+      ).to.be.rejectedWith("Caller is not an allowed writer");
+      expect(await otherClient.getCurrentIndex()).to.equal(0);
+    });
+
+    it("Should let the owner add and remove writers", async function () {
+      const { messageStorage, client, otherClient, otherAccount } =
+        await deployMessageStorageFixture();
+      const writer = getAddress(otherAccount.account.address);
+
+      await client.addWriter(writer);
+      expect(await client.isWriter(writer)).to.equal(true);
+      await otherClient.storeMessage("Allowed message");
+
+      await client.removeWriter(writer);
+      expect(await client.isWriter(writer)).to.equal(false);
+      await expect(
+        otherClient.storeMessage("Revoked message")
+      ).to.be.rejectedWith("Caller is not an allowed writer");
+
+      const added = await messageStorage.getEvents.WriterAdded(
+        {},
+        { fromBlock: 0n }
+      );
+      const removed = await messageStorage.getEvents.WriterRemoved(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(added.map((e) => e.args.writer)).to.deep.equal([writer]);
+      expect(removed.map((e) => e.args.writer)).to.deep.equal([writer]);
+    });
+
+    it("Should reject invalid allowlist changes", async function () {
+      const { client, otherAccount } = await deployMessageStorageFixture();
+
+      await expect(client.addWriter(zeroAddress)).to.be.rejectedWith(
+        "Writer is the zero address"
+      );
+      await expect(
+        client.removeWriter(otherAccount.account.address)
+      ).to.be.rejectedWith("Writer not allowed");
+
+      await client.addWriter(otherAccount.account.address);
+      await expect(
+        client.addWriter(otherAccount.account.address)
+      ).to.be.rejectedWith("Writer already allowed");
+    });
+
+    it("Should only let the owner manage the contract", async function () {
+      const { client, otherClient, otherAccount, stranger } =
+        await deployMessageStorageFixture();
+
+      // Being a writer does not grant admin rights
+      await client.addWriter(otherAccount.account.address);
+
+      await expect(
+        otherClient.addWriter(stranger.account.address)
+      ).to.be.rejectedWith("Caller is not the owner");
+      await expect(
+        otherClient.removeWriter(otherAccount.account.address)
+      ).to.be.rejectedWith("Caller is not the owner");
+      await expect(otherClient.pause()).to.be.rejectedWith(
+        "Caller is not the owner"
+      );
+      await expect(
+        otherClient.transferOwnership(stranger.account.address)
+      ).to.be.rejectedWith("Caller is not the owner");
+    });
+
+    it("Should block every writer while paused", async function () {
+      const { messageStorage, client, otherClient, owner, otherAccount } =
+        await deployMessageStorageFixture();
+      await client.addWriter(otherAccount.account.address);
+
+      await client.pause();
+      expect(await client.isPaused()).to.equal(true);
+      await expect(
+        client.storeMessage("Owner while paused")
+      ).to.be.rejectedWith("Contract is paused");
+      await expect(
+        otherClient.storeMessage("Writer while paused")
+      ).to.be.rejectedWith("Contract is paused");
+      await expect(client.pause()).to.be.rejectedWith("Contract is paused");
+
+      await client.unpause();
+      await otherClient.storeMessage("Writer after unpause");
+      await expect(client.unpause()).to.be.rejectedWith(
+        "Contract is not paused"
+      );
+
+      const paused = await messageStorage.getEvents.Paused(
+        {},
+        { fromBlock: 0n }
+      );
+      const unpaused = await messageStorage.getEvents.Unpaused(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(paused[0].args.account).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(unpaused[0].args.account).to.equal(
+        getAddress(owner.account.address)
+      );
+    });
+
+    it("Should transfer ownership", async function () {
+      const { messageStorage, client, otherClient, owner, otherAccount } =
+        await deployMessageStorageFixture();
+      const newOwner = getAddress(otherAccount.account.address);
+
+      await expect(client.transferOwnership(zeroAddress)).to.be.rejectedWith(
+        "New owner is the zero address"
+      );
+
+      await client.transferOwnership(newOwner);
+      expect(await client.getOwner()).to.equal(newOwner);
+
+      // The new owner can write and administer, the old one can do neither
+      await otherClient.storeMessage("Message from the new owner");
+      await otherClient.pause();
+      await expect(client.unpause()).to.be.rejectedWith(
+        "Caller is not the owner"
+      );
+      expect(await client.isWriter(owner.account.address)).to.equal(false);
+
+      const transfers = await messageStorage.getEvents.OwnershipTransferred(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(
+        transfers.map((e) => [e.args.previousOwner, e.args.newOwner])
+      ).to.deep.equal([
+        [zeroAddress, getAddress(owner.account.address)],
+        [getAddress(owner.account.address), newOwner],
+      ]);
+    });
+  });
+
+  describe("Signed Messages", function () {
+    // Order of secp256k1, to build the high-s twin of a signature
+    const SECP256K1_N =
+      0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+    async function signedMessageFixture() {
+      const fixture = await deployMessageStorageFixture();
+      const { client, otherAccount, stranger, publicClient, messageStorage } =
+        fixture;
+      await client.addWriter(otherAccount.account.address);
+
+      // otherAccount signs, stranger submits and pays
+      const relayClient = new MessageStorageClient({
+        address: messageStorage.address,
+        publicClient,
+        walletClient: stranger,
+      });
+      return { ...fixture, relayClient };
+    }
+
+    it("Should record the signer as the author", async function () {
+      const { otherClient, relayClient, otherAccount, stranger, publicClient } =
+        await signedMessageFixture();
+
+      const signed = await otherClient.signMessage("Signed hello");
+      const { index, receipt } = await relayClient.storeSignedMessage(signed);
+
+      expect(receipt.from).to.equal(stranger.account.address.toLowerCase());
+      const stored = await relayClient.getMessage(index);
+      expect(stored).to.deep.include({
+        index: 0,
+        text: "Signed hello",
+        author: getAddress(otherAccount.account.address),
+      });
+      const { timestamp } = await publicClient.getBlock({
+        blockNumber: receipt.blockNumber,
+      });
+      expect(stored.timestamp.getTime()).to.equal(Number(timestamp) * 1000);
+      expect(await relayClient.getCurrentIndex()).to.equal(1);
+    });
+
+    it("Should emit MessageStored with the signer", async function () {
+      const { messageStorage, otherClient, relayClient, otherAccount } =
+        await signedMessageFixture();
+
+      await relayClient.storeSignedMessage(
+        await otherClient.signMessage("Evented")
+      );
+
+      const events = await messageStorage.getEvents.MessageStored(
+        {},
+        { fromBlock: 0n }
+      );
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args.author).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+      expect(decodeMessage(events[0].args.message!)).to.equal("Evented");
+    });
+
+    it("Should consume the nonce and reject replays", async function () {
+      const { otherClient, relayClient, otherAccount } =
+        await signedMessageFixture();
+      const signer = otherAccount.account.address;
+
+      expect(await otherClient.getNonce(signer)).to.equal(0n);
+      const first = await otherClient.signMessage("Only once");
+      await relayClient.storeSignedMessage(first);
+      expect(await otherClient.getNonce(signer)).to.equal(1n);
+
+      await expect(relayClient.storeSignedMessage(first)).to.be.rejectedWith(
+        "Invalid signature"
+      );
+
+      const second = await otherClient.signMessage("Next one");
+      expect(second.nonce).to.equal(1n);
+      await relayClient.storeSignedMessage(second);
+      const texts = (await relayClient.getAllMessages()).map((m) => m.text);
+      expect(texts).to.deep.equal(["Only once", "Next one"]);
+    });
+
+    it("Should reject expired signatures", async function () {
+      const { otherClient, relayClient, publicClient } =
+        await signedMessageFixture();
+      const { timestamp } = await publicClient.getBlock();
+
+      const signed = await otherClient.signMessage("Too late", timestamp);
+      await expect(relayClient.storeSignedMessage(signed)).to.be.rejectedWith(
+        "Signature expired"
+      );
+    });
+
+    it("Should reject tampered and mismatched signatures", async function () {
+      const { otherClient, relayClient, owner } = await signedMessageFixture();
+      const signed = await otherClient.signMessage("Original");
+
+      await expect(
+        relayClient.storeSignedMessage({
+          ...signed,
+          message: encodeMessage("Tampered", MAX_MESSAGE_SIZE_BYTES),
+        })
+      ).to.be.rejectedWith("Invalid signature");
+      await expect(
+        relayClient.storeSignedMessage({
+          ...signed,
+          deadline: signed.deadline + 1n,
+        })
+      ).to.be.rejectedWith("Invalid signature");
+      await expect(
+        relayClient.storeSignedMessage({
+          ...signed,
+          author: owner.account.address,
+        })
+      ).to.be.rejectedWith("Invalid signature");
+      await expect(
+        relayClient.storeSignedMessage({
+          ...signed,
+          signature: signed.signature.slice(0, -2) as Hex,
+        })
+      ).to.be.rejectedWith("Invalid signature length");
+    });
+
+    it("Should reject the malleable twin of a signature", async function () {
+      const { otherClient, relayClient } = await signedMessageFixture();
+      const signed = await otherClient.signMessage("Malleable");
+
+      const { r, s, yParity } = parseSignature(signed.signature);
+      const twin = serializeSignature({
+        r,
+        s: numberToHex(SECP256K1_N - hexToBigInt(s), { size: 32 }),
+        yParity: 1 - yParity!,
+      });
+      await expect(
+        relayClient.storeSignedMessage({ ...signed, signature: twin })
+      ).to.be.rejectedWith("Invalid signature");
+
+      await relayClient.storeSignedMessage(signed);
+    });
+
+    it("Should reject signatures meant for another board", async function () {
+      const { otherClient, relayClient, otherAccount, publicClient } =
+        await signedMessageFixture();
+      const other = await hre.viem.deployContract("MessageStorage", [
+        BigInt(MAX_MESSAGES),
+        BigInt(MAX_MESSAGE_SIZE_BYTES),
+      ]);
+      await other.write.addWriter([otherAccount.account.address]);
+      const otherBoard = new MessageStorageClient({
+        address: other.address,
+        publicClient,
+        walletClient: otherAccount,
+      });
+
+      const signed = await otherBoard.signMessage("For the other board");
+      await expect(relayClient.storeSignedMessage(signed)).to.be.rejectedWith(
+        "Invalid signature"
+      );
+      expect(await otherClient.getDomainSeparator()).to.not.equal(
+        await otherBoard.getDomainSeparator()
+      );
+    });
+
+    it("Should only accept signers on the allowlist", async function () {
+      const { client, otherClient, relayClient, otherAccount } =
+        await signedMessageFixture();
+      const signed = await otherClient.signMessage("Revoked signer");
+
+      await client.removeWriter(otherAccount.account.address);
+      await expect(relayClient.storeSignedMessage(signed)).to.be.rejectedWith(
+        "Signer is not an allowed writer"
+      );
+
+      // The owner may sign too
+      await relayClient.storeSignedMessage(
+        await client.signMessage("Owner signed")
+      );
+    });
+
+    it("Should reject signed messages while paused", async function () {
+      const { client, otherClient, relayClient } = await signedMessageFixture();
+      const signed = await otherClient.signMessage("Paused");
+
+      await client.pause();
+      await expect(relayClient.storeSignedMessage(signed)).to.be.rejectedWith(
+        "Contract is paused"
+      );
+      await client.unpause();
+      await relayClient.storeSignedMessage(signed);
+    });
+  });
+
   describe("Gas Optimization", function () {
     it("Should use optimal gas for storing messages", async function () {
-      const { messageStorage, publicClient } =
-        await deployMessageStorageFixture();
+      const { client } = await deployMessageStorageFixture();
 
       // Test message
       const message = "This is a gas optimization test message.";
-      const paddedMessage = padMessage(message);
 
       // Store the message and measure gas
-      const tx = await messageStorage.write.storeMessage([paddedMessage]);
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: tx,
+      const { receipt } = await client.storeMessage(message);
+
+      // The first write also initializes the entry and currentIndex; the
+      // gas:benchmark baseline tracks the exact figures
+      expect(Number(receipt.gasUsed)).to.be.lessThan(150000);
+    });
+
+    it("Should measure gas at each message length", async function () {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+
+      // Room for every length up to four words, each written to a fresh entry
+      // and none wrapping currentIndex back to zero (which earns a refund)
+      const maxLength = 4 * BYTES_PER_SLOT;
+      const messageStorage = await hre.viem.deployContract("MessageStorage", [
+        BigInt(maxLength + 2),
+        BigInt(maxLength),
+      ]);
+      const client = new MessageStorageClient({
+        address: messageStorage.address,
+        publicClient,
+        walletClient: owner,
       });
 
-      // Log the gas used for analysis
-      console.log(`Gas used for storeMessage: ${receipt.gasUsed}`);
+      // The first write also pays to initialize currentIndex
+      await client.storeMessage("Warm-up");
 
-      // Gas should be reasonable - this is more of a logging test than an assertion
-      expect(Number(receipt.gasUsed)).to.be.lessThan(150000);
+      const gasByLength: number[] = [];
+      for (let length = 1; length <= maxLength; length++) {
+        const { receipt } = await client.storeMessage("x".repeat(length));
+        gasByLength[length] = Number(receipt.gasUsed);
+      }
+
+      // Group by slot count, since storage dominates the cost
+      const bySlots = new Map<number, number[]>();
+      for (let length = 1; length <= maxLength; length++) {
+        const slots = entrySlotCount(length);
+        bySlots.set(slots, [
+          ...(bySlots.get(slots) ?? []),
+          gasByLength[length],
+        ]);
+      }
+      // Within a slot count only calldata and the event grow with length...
+      for (const gas of bySlots.values()) {
+        expect(Math.max(...gas) - Math.min(...gas)).to.be.lessThan(2000);
+      }
+      // ...and each extra word costs roughly one fresh storage write
+      for (let length = BYTES_PER_SLOT; length < maxLength; length += 32) {
+        const step = gasByLength[length + 1] - gasByLength[length];
+        expect(step).to.be.within(20000, 25000);
+      }
     });
   });
 
-  describe("Debug", function () {
-    it("Should examine message buffer structure", async function () {
+  describe("Storage layout", function () {
+    it("Should return each slot's share of a message intact", async function () {
       const { messageStorage } = await deployMessageStorageFixture();
 
-      // Store a test message with a known pattern that makes the split visible
+      // A known pattern that makes the split across slots visible
       const testPattern =
         "AAAABBBBCCCCDDDDEEEEFFFFGGGGHHHHIIIIJJJJKKKKLLLLMMMMNNNNOOOOPPPP";
-      console.log(
-        `Original message (${testPattern.length} chars): ${testPattern}`
-      );
-
-      const paddedMessage = padMessage(testPattern);
-      await messageStorage.write.storeMessage([paddedMessage]);
-
-      // Get the raw message data
-      const result = await messageStorage.read.getMessage([0n]);
-      const part1Hex = result[0];
-      const part2Hex = result[1];
-      const timestamp = result[2];
-
-      console.log("\nRaw hex data:");
-      console.log(`Part1 (${part1Hex.slice(2).length / 2} bytes): ${part1Hex}`);
-      console.log(`Part2 (${part2Hex.slice(2).length / 2} bytes): ${part2Hex}`);
-      console.log(
-        `Timestamp: ${timestamp} (${new Date(
-          Number(timestamp) * 1000
-        ).toISOString()})`
-      );
-
-      // Print parts as ASCII
-      const part1Ascii = Buffer.from(part1Hex.slice(2), "hex").toString(
-        "ascii"
-      );
-      const part2Ascii = Buffer.from(part2Hex.slice(2), "hex").toString(
-        "ascii"
-      );
-
-      console.log("\nASCII representation:");
-      console.log(`Part1 (${part1Ascii.length} chars): "${part1Ascii}"`);
-      console.log(`Part2 (${part2Ascii.length} chars): "${part2Ascii}"`);
-
-      // Detailed hexadecimal analysis of part2
-      console.log("\nDetailed hex analysis of part2:");
-      const part2Bytes = Buffer.from(part2Hex.slice(2), "hex");
-      for (let i = 0; i < part2Bytes.length; i++) {
-        const byte = part2Bytes[i];
-        const char =
-          byte >= 32 && byte <= 126 ? String.fromCharCode(byte) : ".";
-        console.log(
-          `Byte ${i}: 0x${byte
-            .toString(16)
-            .padStart(2, "0")} (${byte}) => ${char}`
+      const stored = testPattern.substring(0, MAX_MESSAGE_SIZE_BYTES);
+
+      await messageStorage.write.storeMessage([encodeMessage(stored)]);
+
+      const [message, timestamp] = await messageStorage.read.getMessage([0n]);
+      const bytes = hexToBytes(message);
+      expect(bytes).to.have.lengthOf(stored.length);
+      expect(timestamp).to.be.greaterThan(0);
+
+      for (let slot = 0; slot * BYTES_PER_SLOT < bytes.length; slot++) {
+        const start = slot * BYTES_PER_SLOT;
+        const chunk = bytes.slice(start, start + BYTES_PER_SLOT);
+        expect(Buffer.from(chunk).toString("ascii")).to.equal(
+          stored.substring(start, start + BYTES_PER_SLOT)
         );
       }
 
-      // Calculate expected part boundaries
-      console.log("\nExpected message boundaries:");
-      console.log(`First 32 bytes (part1): "${testPattern.substring(0, 32)}"`);
-      console.log(`Next 28 bytes (part2): "${testPattern.substring(32, 60)}"`);
-
-      // Try various parsing methods
-      console.log("\nTrying different extraction methods:");
-
-      // Method 1: Original approach - skip 4 bytes at start of part2
-      const method1p2 = Buffer.from(part2Hex.slice(10), "hex")
-        .toString("ascii")
-        .replace(/\0/g, "");
-      console.log(`Method 1 (skip 4 bytes): "${part1Ascii + method1p2}"`);
-
-      // Method 2: Take only intended portion of part2
-      const expectedPart2 = testPattern.substring(32, 60);
-      // Find this substring in part2 bytes
-      const part2Str = part2Ascii;
-      let bestMatch = "";
-      let maxMatch = 0;
-      for (let i = 0; i < part2Str.length; i++) {
-        for (let len = 1; len <= part2Str.length - i; len++) {
-          const substr = part2Str.substring(i, i + len);
-          let matches = 0;
-          for (let j = 0; j < substr.length && j < expectedPart2.length; j++) {
-            if (substr[j] === expectedPart2[j]) matches++;
-          }
-          if (matches > maxMatch) {
-            maxMatch = matches;
-            bestMatch = substr;
-          }
-        }
-      }
-      console.log(
-        `Method 2 (best match): "${part1Ascii + bestMatch}" (${maxMatch}/${
-          expectedPart2.length
-        } matches)`
-      );
+      expect(decodeMessage(message)).to.equal(stored);
     });
   });
 });
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+import { MessageStorageClient } from "../src";
+
+describe("MessageStorageFactory", function () {
+  async function deployFactoryFixture() {
+    const [deployer, creator] = await hre.viem.getWalletClients();
+
+    const factory = await hre.viem.deployContract("MessageStorageFactory");
+    const creatorFactory = await hre.viem.getContractAt(
+      "MessageStorageFactory",
+      factory.address,
+      { client: { wallet: creator } }
+    );
+    const publicClient = await hre.viem.getPublicClient();
+
+    return { factory, creatorFactory, deployer, creator, publicClient };
+  }
+
+  it("Should deploy a board with the requested configuration", async function () {
+    const { creatorFactory, creator, publicClient } =
+      await deployFactoryFixture();
+
+    await creatorFactory.write.createBoard(["general", 8n, 120n]);
+    const address = await creatorFactory.read.getBoard(["general"]);
+    expect(address).to.not.equal(zeroAddress);
+
+    const client = new MessageStorageClient({
+      address,
+      publicClient,
+      walletClient: creator,
+    });
+    expect(await client.getConfig()).to.deep.equal({
+      capacity: 8,
+      maxMessageSize: 120,
+    });
+
+    // The creator owns the board, not the factory
+    expect(await client.getOwner()).to.equal(
+      getAddress(creator.account.address)
+    );
+    await client.storeMessage("Posted to a factory board");
+    expect((await client.getMessage(0)).text).to.equal(
+      "Posted to a factory board"
+    );
+  });
+
+  it("Should register boards by name in creation order", async function () {
+    const { factory, creatorFactory } = await deployFactoryFixture();
+
+    await factory.write.createBoard(["announcements", 16n, 60n]);
+    await creatorFactory.write.createBoard(["chat", 64n, 28n]);
+
+    expect(await factory.read.getBoardCount()).to.equal(2n);
+    expect(await factory.read.getBoardNames()).to.deep.equal([
+      "announcements",
+      "chat",
+    ]);
+    expect(await factory.read.getBoard(["missing"])).to.equal(zeroAddress);
+  });
+
+  it("Should emit BoardCreated", async function () {
+    const { creatorFactory, creator } = await deployFactoryFixture();
+
+    await creatorFactory.write.createBoard(["events", 4n, 92n]);
+
+    const events = await creatorFactory.getEvents.BoardCreated(
+      {},
+      { fromBlock: 0n }
+    );
+    expect(events).to.have.lengthOf(1);
+    expect(events[0].args).to.deep.equal({
+      name: "events",
+      board: await creatorFactory.read.getBoard(["events"]),
+      owner: getAddress(creator.account.address),
+      capacity: 4n,
+      maxMessageSize: 92n,
+    });
+  });
+
+  it("Should reject empty and duplicate names", async function () {
+    const { factory, creatorFactory } = await deployFactoryFixture();
+
+    await expect(factory.write.createBoard(["", 16n, 60n])).to.be.rejectedWith(
+      "Name is empty"
+    );
+
+    await factory.write.createBoard(["taken", 16n, 60n]);
+    await expect(
+      creatorFactory.write.createBoard(["taken", 16n, 60n])
+    ).to.be.rejectedWith("Name already taken");
+  });
+
+  it("Should reject invalid board configurations", async function () {
+    const { factory } = await deployFactoryFixture();
+
+    await expect(
+      factory.write.createBoard(["too-big", 2048n, 60n])
+    ).to.be.rejectedWith("Capacity out of range");
+    expect(await factory.read.getBoardCount()).to.equal(0n);
+  });
+});
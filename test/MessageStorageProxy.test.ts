@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeFunctionData, getAddress, zeroAddress } from "viem";
+import { MessageStorageClient, messageStorageAbi } from "../src";
+
+describe("MessageStorageProxy", function () {
+  const CAPACITY = 4n;
+  const MAX_SIZE = 60n;
+
+  // keccak256("eip1967.proxy.implementation") - 1
+  const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+  async function deployProxyFixture() {
+    const [owner, writer, stranger] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const implementation = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY,
+      MAX_SIZE,
+    ]);
+    const proxy = await hre.viem.deployContract("MessageStorageProxy", [
+      implementation.address,
+      encodeFunctionData({
+        abi: messageStorageAbi,
+        functionName: "initialize",
+        args: [owner.account.address],
+      }),
+    ]);
+    const board = await hre.viem.getContractAt("MessageStorage", proxy.address);
+    const client = new MessageStorageClient({
+      address: proxy.address,
+      publicClient,
+      walletClient: owner,
+    });
+
+    const readImplementation = async () =>
+      getAddress(
+        `0x${(await publicClient.getStorageAt({
+          address: proxy.address,
+          slot: IMPLEMENTATION_SLOT,
+        }))!.slice(26)}`
+      );
+
+    return {
+      implementation,
+      proxy,
+      board,
+      client,
+      owner,
+      writer,
+      stranger,
+      readImplementation,
+    };
+  }
+
+  it("Should run the board from the proxy's storage", async function () {
+    const { implementation, board, client, owner, readImplementation } =
+      await deployProxyFixture();
+
+    expect(await readImplementation()).to.equal(
+      getAddress(implementation.address)
+    );
+    expect(await board.read.getOwner()).to.equal(
+      getAddress(owner.account.address)
+    );
+
+    await client.storeMessage("Through the proxy");
+    expect((await client.getMessage(0)).text).to.equal("Through the proxy");
+    // The implementation's own storage is untouched
+    expect(await implementation.read.getCurrentIndex()).to.equal(0n);
+    expect(await board.read.getCurrentIndex()).to.equal(1n);
+  });
+
+  it("Should keep a filled buffer across an upgrade", async function () {
+    const { board, client, writer, readImplementation } =
+      await deployProxyFixture();
+
+    await board.write.addWriter([writer.account.address]);
+    await client.storeMessages(["one", "two", "three", "four", "five"]);
+    await board.write.pause();
+    const before = await client.getAllMessages();
+
+    const next = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY,
+      MAX_SIZE,
+    ]);
+    await board.write.upgradeTo([next.address]);
+
+    expect(await readImplementation()).to.equal(getAddress(next.address));
+    expect(await client.getAllMessages()).to.deep.equal(before);
+    expect(await board.read.getCurrentIndex()).to.equal(1n);
+    expect(await board.read.isWriter([writer.account.address])).to.equal(true);
+    expect(await board.read.isPaused()).to.equal(true);
+
+    await board.write.unpause();
+    await client.storeMessage("six");
+    expect((await client.getAllMessages()).map((m) => m.text)).to.deep.equal([
+      "three",
+      "four",
+      "five",
+      "six",
+    ]);
+  });
+
+  it("Should emit Upgraded on deployment and on every upgrade", async function () {
+    const { implementation, board } = await deployProxyFixture();
+    const next = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY,
+      MAX_SIZE,
+    ]);
+
+    await board.write.upgradeTo([next.address]);
+
+    const events = await board.getEvents.Upgraded({}, { fromBlock: 0n });
+    expect(events.map((e) => e.args.implementation)).to.deep.equal([
+      getAddress(implementation.address),
+      getAddress(next.address),
+    ]);
+  });
+
+  it("Should only let the owner upgrade", async function () {
+    const { proxy, stranger } = await deployProxyFixture();
+    const next = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY,
+      MAX_SIZE,
+    ]);
+    const strangerBoard = await hre.viem.getContractAt(
+      "MessageStorage",
+      proxy.address,
+      { client: { wallet: stranger } }
+    );
+
+    await expect(
+      strangerBoard.write.upgradeTo([next.address])
+    ).to.be.rejectedWith("Caller is not the owner");
+  });
+
+  it("Should reject implementations that would break the ring", async function () {
+    const { board, owner } = await deployProxyFixture();
+
+    const resized = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY * 2n,
+      MAX_SIZE,
+    ]);
+    await expect(board.write.upgradeTo([resized.address])).to.be.rejectedWith(
+      "Implementation shape differs"
+    );
+
+    await expect(
+      board.write.upgradeTo([owner.account.address])
+    ).to.be.rejectedWith("Implementation is not a contract");
+
+    const factory = await hre.viem.deployContract("MessageStorageFactory");
+    await expect(board.write.upgradeTo([factory.address])).to.be.rejected;
+  });
+
+  it("Should only upgrade and initialize through a proxy, once", async function () {
+    const { implementation, board, owner } = await deployProxyFixture();
+
+    await expect(
+      implementation.write.upgradeTo([implementation.address])
+    ).to.be.rejectedWith("Must be called through a proxy");
+    await expect(board.read.proxiableUUID()).to.be.rejectedWith(
+      "Must not be called through a proxy"
+    );
+
+    await expect(
+      board.write.initialize([owner.account.address])
+    ).to.be.rejectedWith("Already initialized");
+    // A direct deployment got its owner from the constructor
+    await expect(
+      implementation.write.initialize([owner.account.address])
+    ).to.be.rejectedWith("Already initialized");
+  });
+
+  it("Should revert with the initializer's reason", async function () {
+    const implementation = await hre.viem.deployContract("MessageStorage", [
+      CAPACITY,
+      MAX_SIZE,
+    ]);
+
+    await expect(
+      hre.viem.deployContract("MessageStorageProxy", [
+        implementation.address,
+        encodeFunctionData({
+          abi: messageStorageAbi,
+          functionName: "initialize",
+          args: [zeroAddress],
+        }),
+      ])
+    ).to.be.rejectedWith("New owner is the zero address");
+  });
+});
@@ -0,0 +1,216 @@
+import { getAddress, size, zeroAddress, type Address, type Hex } from "viem";
+
+// One written entry of the ring
+export interface ModelEntry {
+  message: Hex;
+  timestamp: number;
+  author: Address;
+  sequence: number;
+}
+
+// What a read that returns several messages yields, one array per field,
+// in the order the contract returns them
+export interface ModelMessageList {
+  indices: number[];
+  messages: Hex[];
+  timestamps: number[];
+  authors: Address[];
+  sequences: number[];
+}
+
+// Result of getMessageBySequence
+export interface ModelSequenceLookup {
+  overwritten: boolean;
+  index: number;
+  message: Hex;
+  timestamp: number;
+  author: Address;
+}
+
+/**
+ * @title RingBufferModel
+ * @dev A plain TypeScript model of MessageStorage's ring buffer, written
+ * from its documented behaviour rather than its implementation, to check
+ * the contract against. Methods that the contract would revert throw an
+ * Error carrying the same revert reason and leave the model unchanged
+ */
+export class RingBufferModel {
+  public currentIndex = 0;
+  public lastSequence = 0;
+
+  protected readonly entries: (ModelEntry | undefined)[];
+  private readonly writers: Set<Address>;
+
+  constructor(
+    public readonly capacity: number,
+    public readonly maxMessageSize: number,
+    writers: Address[]
+  ) {
+    this.entries = new Array(capacity).fill(undefined);
+    this.writers = new Set(writers.map((writer) => getAddress(writer)));
+  }
+
+  /**
+   * @dev Store messages as storeMessages does; a single message behaves
+   * exactly like storeMessage
+   * @param author The sender
+   * @param messages The messages, in order
+   * @param timestamp The block timestamp of the transaction
+   * @return The index each message was stored at
+   */
+  store(author: Address, messages: Hex[], timestamp: number): number[] {
+    if (!this.writers.has(getAddress(author))) {
+      throw new Error("Caller is not an allowed writer");
+    }
+    if (messages.length === 0) {
+      throw new Error("No messages");
+    }
+    for (const message of messages) {
+      const length = size(message);
+      if (length === 0 || length > this.maxMessageSize) {
+        throw new Error("Invalid message length");
+      }
+    }
+
+    return messages.map((message) => {
+      const index = this.currentIndex;
+      this.lastSequence++;
+      this.entries[index] = {
+        message,
+        // Stored as a uint32
+        timestamp: timestamp % 2 ** 32,
+        author: getAddress(author),
+        sequence: this.lastSequence,
+      };
+      this.currentIndex = this.nextIndex(index);
+      return index;
+    });
+  }
+
+  /**
+   * @dev Read one entry; entries that were never written read as empty
+   * @param index The ring index
+   * @return The entry's fields
+   */
+  getMessage(index: number): ModelEntry {
+    if (index >= this.capacity) {
+      throw new Error("Index out of bounds");
+    }
+    return (
+      this.entries[index] ?? {
+        message: "0x",
+        timestamp: 0,
+        author: zeroAddress,
+        sequence: 0,
+      }
+    );
+  }
+
+  /**
+   * @dev Every written entry, oldest first
+   */
+  getAllMessages(): ModelMessageList {
+    return toList(this.written());
+  }
+
+  /**
+   * @dev The newest limit entries by an author, oldest first
+   * @param author The author to filter by
+   * @param limit Maximum number of entries, capped at the capacity
+   */
+  getMessagesByAuthor(author: Address, limit: number): ModelMessageList {
+    if (author === zeroAddress) {
+      throw new Error("Author is the zero address");
+    }
+    const matches = this.written().filter(
+      ({ entry }) => entry.author === getAddress(author)
+    );
+    return toList(matches.slice(Math.max(matches.length - limit, 0)));
+  }
+
+  /**
+   * @dev One page of entries after a sequence number, stored at or after
+   * from and before to, oldest first
+   * @return The page and the cursor of the next one (0 if there is none)
+   */
+  getMessagesPage(
+    afterSequence: number,
+    from: bigint,
+    to: bigint,
+    limit: number
+  ): ModelMessageList & { nextCursor: number } {
+    if (limit === 0) {
+      throw new Error("Limit is zero");
+    }
+    if (from > to) {
+      throw new Error("Invalid time range");
+    }
+
+    const matches = this.written().filter(
+      ({ entry }) =>
+        entry.sequence > afterSequence &&
+        BigInt(entry.timestamp) >= from &&
+        BigInt(entry.timestamp) < to
+    );
+    const page = matches.slice(0, Math.min(limit, this.capacity));
+    return {
+      ...toList(page),
+      nextCursor:
+        matches.length > page.length ? page[page.length - 1].entry.sequence : 0,
+    };
+  }
+
+  /**
+   * @dev Find a message by sequence number, which outlives its entry
+   * @param sequence A sequence number from 1 to lastSequence
+   */
+  getMessageBySequence(sequence: number): ModelSequenceLookup {
+    if (sequence === 0 || sequence > this.lastSequence) {
+      throw new Error("Unknown sequence number");
+    }
+
+    // Sequence numbers are handed out one per index around the ring, from
+    // index 0 on a fresh board
+    const index = (sequence - 1) % this.capacity;
+    const entry = this.entries[index];
+    if (entry?.sequence !== sequence) {
+      return {
+        overwritten: true,
+        index,
+        message: "0x",
+        timestamp: 0,
+        author: zeroAddress,
+      };
+    }
+    const { message, timestamp, author } = entry;
+    return { overwritten: false, index, message, timestamp, author };
+  }
+
+  /**
+   * @dev The index after a ring index, wrapping at the capacity
+   */
+  protected nextIndex(index: number): number {
+    return (index + 1) % this.capacity;
+  }
+
+  // Written entries with their indices, oldest first
+  private written(): { index: number; entry: ModelEntry }[] {
+    return this.entries
+      .map((entry, index) => ({ index, entry }))
+      .filter(
+        (item): item is { index: number; entry: ModelEntry } =>
+          item.entry !== undefined
+      )
+      .sort((a, b) => a.entry.sequence - b.entry.sequence);
+  }
+}
+
+function toList(items: { index: number; entry: ModelEntry }[]) {
+  return {
+    indices: items.map(({ index }) => index),
+    messages: items.map(({ entry }) => entry.message),
+    timestamps: items.map(({ entry }) => entry.timestamp),
+    authors: items.map(({ entry }) => entry.author),
+    sequences: items.map(({ entry }) => entry.sequence),
+  };
+}
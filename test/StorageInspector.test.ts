@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  getAddress,
+  keccak256,
+  numberToHex,
+  padHex,
+  toHex,
+  zeroAddress,
+} from "viem";
+import {
+  entrySlot,
+  MessageStorageClient,
+  StorageInspector,
+  CURRENT_INDEX_SLOT,
+} from "../src";
+
+describe("StorageInspector", function () {
+  const CAPACITY = 4;
+  const MAX_SIZE = 100;
+
+  async function deployInspectorFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const testClient = await hre.viem.getTestClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      BigInt(CAPACITY),
+      BigInt(MAX_SIZE),
+    ]);
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+    const inspector = new StorageInspector({
+      address: messageStorage.address,
+      publicClient,
+    });
+
+    return { client, inspector, owner, testClient };
+  }
+
+  it("Should compute the mapping slot of any index", function () {
+    // messages is the second state variable, so its mapping slot is 1
+    const expected = keccak256(
+      `0x${toHex(5, { size: 32 }).slice(2)}${toHex(1, { size: 32 }).slice(2)}`
+    );
+    expect(entrySlot(5)).to.equal(BigInt(expected));
+    expect(CURRENT_INDEX_SLOT).to.equal(0n);
+  });
+
+  it("Should decode a wrapped ring that matches getMessage", async function () {
+    const { client, inspector, owner } = await deployInspectorFixture();
+
+    // Lengths around the 32-byte word boundaries
+    const texts = ["a", "b".repeat(32), "c".repeat(33), "d".repeat(MAX_SIZE)];
+    await client.storeMessages(texts);
+    await client.storeMessage("Wrapped €");
+
+    const report = await inspector.inspect();
+    expect(report).to.include({
+      currentIndex: 1,
+      capacity: CAPACITY,
+      ok: true,
+    });
+
+    const [first, , third, fourth] = report.entries;
+    expect(first.raw.header).to.include({
+      // € is 3 bytes in UTF-8
+      length: 11,
+      author: getAddress(owner.account.address),
+    });
+    expect(first.raw.words).to.have.lengthOf(1);
+    expect(third.raw.words).to.have.lengthOf(2);
+    expect(fourth.raw.words).to.have.lengthOf(4);
+    expect(fourth.raw.message).to.equal(toHex("d".repeat(MAX_SIZE)));
+  });
+
+  it("Should treat unwritten entries as empty", async function () {
+    const { client, inspector } = await deployInspectorFixture();
+    await client.storeMessage("Only one");
+
+    const report = await inspector.inspect([1, 2]);
+    expect(report.ok).to.equal(true);
+    expect(report.entries.map(({ raw }) => raw.header)).to.deep.equal([
+      { length: 0, sequence: 0, timestamp: 0, author: zeroAddress },
+      { length: 0, sequence: 0, timestamp: 0, author: zeroAddress },
+    ]);
+  });
+
+  it("Should report storage the contract does not return", async function () {
+    const { client, inspector, testClient } = await deployInspectorFixture();
+    await client.storeMessage("Short");
+
+    // Dirty the padding after the message, which getMessage never reads
+    const slot = entrySlot(0);
+    await testClient.setStorageAt({
+      address: client.address,
+      index: numberToHex(slot + 1n, { size: 32 }),
+      value: padHex(toHex("Short!"), { dir: "right", size: 32 }),
+    });
+    // Give an unwritten entry an author without a length
+    await testClient.setStorageAt({
+      address: client.address,
+      index: numberToHex(entrySlot(1), { size: 32 }),
+      value: `${client.address}${"00".repeat(12)}`,
+    });
+
+    const report = await inspector.inspect([0, 1]);
+    expect(report.ok).to.equal(false);
+    expect(report.entries[0].mismatches).to.deep.equal([
+      "nonzero bytes past the message length",
+    ]);
+    expect(report.entries[1].mismatches).to.deep.equal([
+      "header has an author but no length",
+    ]);
+  });
+});
@@ -0,0 +1,467 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  bytesToHex,
+  getAddress,
+  parseEventLogs,
+  stringToHex,
+  zeroAddress,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import {
+  EventLogMessageReader,
+  MessageStorageClient,
+  messageStorageAbi,
+  type StoredMessage,
+} from "../src";
+import { STORAGE_BACKENDS } from "../tasks/gasBenchmark";
+
+// Small boards with multi-word messages, so wraparound and partial last
+// words are cheap to reach
+const CAPACITY = 4;
+const MAX_MESSAGE_SIZE = 100;
+
+// What the suite reads a board through: the board itself for backends with
+// on-chain reads, its logs otherwise
+interface BoardReader {
+  getMessage(index: number): Promise<StoredMessage>;
+  getAllMessages(): Promise<StoredMessage[]>;
+}
+
+// Raw payload of an arbitrary length, bypassing the codec's length check
+function rawMessage(length: number): Hex {
+  return bytesToHex(new Uint8Array(length).fill(0x78));
+}
+
+// Every IMessageBuffer runs the same suite, so any backend can replace
+// MessageStorage without clients noticing
+for (const { contract, reads } of STORAGE_BACKENDS) {
+  describe(`IMessageBuffer conformance: ${contract}`, function () {
+    async function deployBackendFixture(capacity = CAPACITY) {
+      const [owner, otherAccount, stranger] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+
+      // Typed artifact names don't accept a union of them
+      const { contract: deployed, deploymentTransaction } =
+        await hre.viem.sendDeploymentTransaction(contract as string, [
+          BigInt(capacity),
+          BigInt(MAX_MESSAGE_SIZE),
+        ]);
+      const { blockNumber } = await publicClient.waitForTransactionReceipt({
+        hash: deploymentTransaction.hash,
+      });
+      const address = deployed.address;
+
+      // Selectors are shared, so the interface reaches every backend
+      const board = await hre.viem.getContractAt("IMessageBuffer", address);
+      const client = new MessageStorageClient({
+        address,
+        publicClient,
+        walletClient: owner,
+      });
+      const otherClient = new MessageStorageClient({
+        address,
+        publicClient,
+        walletClient: otherAccount,
+      });
+      const reader: BoardReader = reads
+        ? client
+        : new EventLogMessageReader({
+            address,
+            publicClient,
+            fromBlock: Number(blockNumber),
+          });
+
+      return {
+        address,
+        board,
+        client,
+        otherClient,
+        reader,
+        owner,
+        otherAccount,
+        stranger,
+        publicClient,
+        blockNumber,
+      };
+    }
+
+    const texts = (messages: StoredMessage[]) => messages.map((m) => m.text);
+
+    describe("Deployment", function () {
+      it("Should start empty, owned by the deployer", async function () {
+        const { board, client, reader, owner } = await deployBackendFixture();
+
+        expect(await client.getConfig()).to.deep.equal({
+          capacity: CAPACITY,
+          maxMessageSize: MAX_MESSAGE_SIZE,
+        });
+        expect(await client.getCurrentIndex()).to.equal(0);
+        expect(await client.getLastSequence()).to.equal(0);
+        expect(await board.read.getOwner()).to.equal(
+          getAddress(owner.account.address)
+        );
+        expect(await reader.getAllMessages()).to.deep.equal([]);
+        expect(await reader.getMessage(0)).to.deep.include({
+          sequence: 0,
+          text: "",
+          author: zeroAddress,
+        });
+      });
+
+      it("Should reject out-of-range constructor parameters", async function () {
+        const deploy = (capacity: bigint, maxMessageSize: bigint) =>
+          hre.viem.deployContract(contract as string, [
+            capacity,
+            maxMessageSize,
+          ]);
+
+        await expect(deploy(0n, 60n)).to.be.rejectedWith(
+          "Capacity out of range"
+        );
+        await expect(deploy(1025n, 60n)).to.be.rejectedWith(
+          "Capacity out of range"
+        );
+        await expect(deploy(16n, 0n)).to.be.rejectedWith(
+          "Message size out of range"
+        );
+        await expect(deploy(16n, 1025n)).to.be.rejectedWith(
+          "Message size out of range"
+        );
+      });
+    });
+
+    describe("Storing", function () {
+      it("Should store a message with its author, time and sequence", async function () {
+        const { client, reader, owner, publicClient } =
+          await deployBackendFixture();
+
+        const { index, sequence, receipt } = await client.storeMessage("gm");
+        const block = await publicClient.getBlock({
+          blockNumber: receipt.blockNumber,
+        });
+
+        expect([index, sequence]).to.deep.equal([0, 1]);
+        expect(await reader.getMessage(0)).to.deep.equal({
+          sequence: 1,
+          index: 0,
+          kind: "text",
+          text: "gm",
+          timestamp: new Date(Number(block.timestamp) * 1000),
+          author: getAddress(owner.account.address),
+        });
+        expect(await client.getCurrentIndex()).to.equal(1);
+        expect(await client.getLastSequence()).to.equal(1);
+      });
+
+      it("Should emit MessageStored with the full payload", async function () {
+        const { client, owner } = await deployBackendFixture();
+
+        const { receipt } = await client.storeMessages(["first", "second"]);
+        const events = parseEventLogs({
+          abi: messageStorageAbi,
+          eventName: "MessageStored",
+          logs: receipt.logs,
+        });
+
+        expect(
+          events.map(({ args }) => [
+            args.index,
+            args.sequence,
+            args.author,
+            args.message,
+          ])
+        ).to.deep.equal([
+          [0n, 1n, getAddress(owner.account.address), stringToHex("first")],
+          [1n, 2n, getAddress(owner.account.address), stringToHex("second")],
+        ]);
+      });
+
+      it("Should store messages of any length up to the maximum", async function () {
+        const { client, reader } = await deployBackendFixture(8);
+        const lengths = [1, 31, 32, 33, 64, 65, MAX_MESSAGE_SIZE];
+
+        const stored = lengths.map((length) =>
+          "abcdefghij".repeat(10).slice(0, length)
+        );
+        await client.storeMessages(stored);
+
+        expect(texts(await reader.getAllMessages())).to.deep.equal(stored);
+      });
+
+      it("Should not leak bytes from a longer message it overwrites", async function () {
+        const { client, reader } = await deployBackendFixture(1);
+
+        await client.storeMessage("x".repeat(MAX_MESSAGE_SIZE));
+        await client.storeMessage("hi");
+
+        expect((await reader.getMessage(0)).text).to.equal("hi");
+      });
+
+      it("Should wrap around, numbering messages across batches", async function () {
+        const { client, reader } = await deployBackendFixture();
+
+        await client.storeMessage("one");
+        const { indices, sequences } = await client.storeMessages([
+          "two",
+          "three",
+          "four",
+          "five",
+        ]);
+        await client.storeMessage("six");
+
+        expect(indices).to.deep.equal([1, 2, 3, 0]);
+        expect(sequences).to.deep.equal([2, 3, 4, 5]);
+        expect(await client.getCurrentIndex()).to.equal(2);
+        expect(await client.getLastSequence()).to.equal(6);
+
+        const messages = await reader.getAllMessages();
+        expect(texts(messages)).to.deep.equal(["three", "four", "five", "six"]);
+        expect(messages.map((m) => [m.index, m.sequence])).to.deep.equal([
+          [2, 3],
+          [3, 4],
+          [0, 5],
+          [1, 6],
+        ]);
+      });
+
+      it("Should reject invalid messages and batches", async function () {
+        const { board } = await deployBackendFixture();
+
+        await expect(board.write.storeMessage(["0x"])).to.be.rejectedWith(
+          "Invalid message length"
+        );
+        await expect(
+          board.write.storeMessage([rawMessage(MAX_MESSAGE_SIZE + 1)])
+        ).to.be.rejectedWith("Invalid message length");
+        await expect(board.write.storeMessages([[]])).to.be.rejectedWith(
+          "No messages"
+        );
+
+        // One bad message rejects the whole batch
+        await expect(
+          board.write.storeMessages([[rawMessage(1), "0x"]])
+        ).to.be.rejectedWith("Invalid message length");
+        expect(await board.read.getLastSequence()).to.equal(0n);
+      });
+    });
+
+    describe("Access control", function () {
+      it("Should only let the owner and allowed writers store", async function () {
+        const { client, otherClient, otherAccount, reader } =
+          await deployBackendFixture();
+        const other = getAddress(otherAccount.account.address);
+
+        await expect(otherClient.storeMessage("Hi")).to.be.rejectedWith(
+          "Caller is not an allowed writer"
+        );
+
+        await client.addWriter(other);
+        expect(await client.isWriter(other)).to.equal(true);
+        await otherClient.storeMessage("Hi");
+        expect((await reader.getMessage(0)).author).to.equal(other);
+
+        await client.removeWriter(other);
+        expect(await client.isWriter(other)).to.equal(false);
+        await expect(otherClient.storeMessage("Bye")).to.be.rejectedWith(
+          "Caller is not an allowed writer"
+        );
+      });
+
+      it("Should emit allowlist events", async function () {
+        const { client, otherAccount, board, blockNumber } =
+          await deployBackendFixture();
+        const other = getAddress(otherAccount.account.address);
+
+        await client.addWriter(other);
+        await client.removeWriter(other);
+
+        const writers = async (
+          events: Promise<{ args: { writer?: string } }[]>
+        ) => (await events).map((e) => e.args.writer);
+        expect(
+          await writers(
+            board.getEvents.WriterAdded({}, { fromBlock: blockNumber })
+          )
+        ).to.deep.equal([other]);
+        expect(
+          await writers(
+            board.getEvents.WriterRemoved({}, { fromBlock: blockNumber })
+          )
+        ).to.deep.equal([other]);
+      });
+
+      it("Should reject invalid allowlist changes", async function () {
+        const { client, otherClient, otherAccount } =
+          await deployBackendFixture();
+        const other = otherAccount.account.address;
+
+        await expect(otherClient.addWriter(other)).to.be.rejectedWith(
+          "Caller is not the owner"
+        );
+        await expect(client.addWriter(zeroAddress)).to.be.rejectedWith(
+          "Writer is the zero address"
+        );
+        await expect(client.removeWriter(other)).to.be.rejectedWith(
+          "Writer not allowed"
+        );
+        await client.addWriter(other);
+        await expect(client.addWriter(other)).to.be.rejectedWith(
+          "Writer already allowed"
+        );
+        await expect(otherClient.removeWriter(other)).to.be.rejectedWith(
+          "Caller is not the owner"
+        );
+      });
+    });
+
+    if (reads) {
+      describe("On-chain reads", function () {
+        it("Should return the latest messages by an author, oldest first", async function () {
+          const { client, otherClient, owner, otherAccount } =
+            await deployBackendFixture();
+          const other = getAddress(otherAccount.account.address);
+          await client.addWriter(other);
+
+          await client.storeMessage("owner 1");
+          await otherClient.storeMessage("other 1");
+          await client.storeMessage("owner 2");
+          await otherClient.storeMessage("other 2");
+          await otherClient.storeMessage("other 3");
+
+          expect(
+            texts(await client.getMessagesByAuthor(other, 2))
+          ).to.deep.equal(["other 2", "other 3"]);
+          expect(texts(await client.getMessagesByAuthor(other))).to.deep.equal([
+            "other 1",
+            "other 2",
+            "other 3",
+          ]);
+          // "owner 1" was overwritten by the wraparound
+          expect(
+            texts(await client.getMessagesByAuthor(owner.account.address))
+          ).to.deep.equal(["owner 2"]);
+        });
+
+        it("Should reject bad indices and the zero author", async function () {
+          const { address } = await deployBackendFixture();
+          const board = await hre.viem.getContractAt(
+            "IMessageBufferReader",
+            address
+          );
+
+          await expect(
+            board.read.getMessage([BigInt(CAPACITY)])
+          ).to.be.rejectedWith("Index out of bounds");
+          await expect(
+            board.read.getMessagesByAuthor([zeroAddress, 1n])
+          ).to.be.rejectedWith("Author is the zero address");
+        });
+      });
+    } else {
+      describe("Log reads", function () {
+        // A node that rewrites one MessageStored log before serving it
+        function tamperedClient(
+          publicClient: PublicClient,
+          message: Hex
+        ): PublicClient {
+          return {
+            ...publicClient,
+            getContractEvents: async (
+              args: Parameters<PublicClient["getContractEvents"]>[0]
+            ) => {
+              const [first, ...rest] = (await publicClient.getContractEvents(
+                args
+              )) as { args: object }[];
+              return first === undefined
+                ? []
+                : [{ ...first, args: { ...first.args, message } }, ...rest];
+            },
+          } as PublicClient;
+        }
+
+        it("Should commit to every entry on-chain", async function () {
+          const { address, client } = await deployBackendFixture();
+          const board = await hre.viem.getContractAt(
+            "MessageStorageEventLog",
+            address
+          );
+
+          expect(await board.read.getCommitment([0n])).to.equal(
+            `0x${"00".repeat(32)}`
+          );
+          await client.storeMessage("gm");
+          expect(await board.read.getCommitment([0n])).to.not.equal(
+            `0x${"00".repeat(32)}`
+          );
+          await expect(
+            board.read.getCommitment([BigInt(CAPACITY)])
+          ).to.be.rejectedWith("Index out of bounds");
+        });
+
+        it("Should reject logs that don't match the commitment", async function () {
+          const { address, client, publicClient, blockNumber } =
+            await deployBackendFixture();
+          await client.storeMessages(["gm", "gn"]);
+
+          const reader = new EventLogMessageReader({
+            address,
+            publicClient: tamperedClient(publicClient, stringToHex("gn")),
+            fromBlock: Number(blockNumber),
+          });
+
+          await expect(reader.getAllMessages()).to.be.rejectedWith(
+            "MessageStored log for index 0 does not match its on-chain commitment"
+          );
+          await expect(reader.getMessage(0)).to.be.rejectedWith(
+            "does not match its on-chain commitment"
+          );
+          // Untouched entries still read fine
+          expect((await reader.getMessage(1)).text).to.equal("gn");
+        });
+
+        it("Should reject reads that miss written entries", async function () {
+          const { address, client, publicClient } =
+            await deployBackendFixture();
+          await client.storeMessage("gm");
+
+          // Starting after the write, as if fromBlock were misconfigured
+          const reader = new EventLogMessageReader({
+            address,
+            publicClient,
+            fromBlock: Number(await publicClient.getBlockNumber()) + 1,
+          });
+
+          await expect(reader.getAllMessages()).to.be.rejectedWith(
+            "No MessageStored log found for index 0"
+          );
+        });
+
+        it("Should read in batches of blocks", async function () {
+          const { address, client, publicClient, blockNumber } =
+            await deployBackendFixture();
+          for (const text of ["a", "b", "c", "d", "e"]) {
+            await client.storeMessage(text);
+          }
+
+          const reader = new EventLogMessageReader({
+            address,
+            publicClient,
+            fromBlock: Number(blockNumber),
+            batchSize: 2,
+          });
+          expect(texts(await reader.getAllMessages())).to.deep.equal([
+            "b",
+            "c",
+            "d",
+            "e",
+          ]);
+          await expect(reader.getMessage(CAPACITY)).to.be.rejectedWith(
+            `Index ${CAPACITY} is outside the board's ${CAPACITY} entries`
+          );
+        });
+      });
+    }
+  });
+}
@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import fc from "fast-check";
+import { getAddress, hexToBytes, size } from "viem";
+import {
+  decodeEntryHeader,
+  decodeMessage,
+  decodePayload,
+  encodeMessage,
+  truncateMessage,
+  wordsToBytes,
+  COMPACT_ALPHABET,
+  COMPACT_MESSAGE_FLAG,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
+
+describe("codec", function () {
+  describe("encodeMessage", function () {
+    it("Should encode UTF-8 without padding", function () {
+      expect(encodeMessage("héllo")).to.equal("0x68c3a96c6c6f");
+      expect(decodeMessage("0x68c3a96c6c6f")).to.equal("héllo");
+    });
+
+    it("Should measure the limit in bytes, not characters", function () {
+      // 15 four-byte emoji fill 60 bytes exactly
+      expect(() => encodeMessage("🙂".repeat(15))).to.not.throw();
+      expect(() => encodeMessage("🙂".repeat(15) + "!")).to.throw(RangeError);
+    });
+  });
+
+  describe("compact format", function () {
+    const compact = { compact: true };
+
+    it("Should fit 78 characters of the alphabet into 60 bytes", function () {
+      const status = "build 4821 ok: 12 tests passed, 0 failed; deploy queued";
+      const full = "all ok; ".repeat(10).slice(0, 78);
+
+      expect(size(encodeMessage(status, 60, compact))).to.equal(
+        1 + Math.ceil((status.length * 6) / 8)
+      );
+      expect(size(encodeMessage(full, 60, compact))).to.equal(60);
+      expect(decodeMessage(encodeMessage(full, 60, compact))).to.equal(full);
+      expect(() => encodeMessage(full + "x", 60, compact)).to.throw(
+        "Message is 61 bytes, maximum is 60"
+      );
+    });
+
+    it("Should escape characters outside the alphabet", function () {
+      const text = "Deploy ok at 14:05 utc, all green";
+      const payload = encodeMessage(text, 60, compact);
+
+      expect(hexToBytes(payload)[0]).to.equal(COMPACT_MESSAGE_FLAG);
+      // The capital costs 14 bits, the other 32 characters 6 bits each
+      expect(size(payload)).to.equal(1 + Math.ceil((14 + 32 * 6) / 8));
+      expect(decodeMessage(payload)).to.equal(text);
+    });
+
+    it("Should fall back to raw UTF-8 when packing doesn't save space", function () {
+      // Too short to gain from packing, or mostly escapes
+      expect(encodeMessage("gm", 60, compact)).to.equal("0x676d");
+      expect(encodeMessage("héllo", 60, compact)).to.equal("0x68c3a96c6c6f");
+      expect(encodeMessage("ÉTÉ 🙂", 60, compact)).to.equal(
+        encodeMessage("ÉTÉ 🙂")
+      );
+      // Without the option, text is never packed
+      expect(encodeMessage("a".repeat(60))).to.equal(`0x${"61".repeat(60)}`);
+    });
+
+    it("Should round-trip text made of the alphabet", function () {
+      fc.assert(
+        fc.property(
+          fc.string({
+            unit: fc.constantFrom(...COMPACT_ALPHABET),
+            minLength: 1,
+            maxLength: 78,
+          }),
+          (text) => {
+            const payload = encodeMessage(text, 60, compact);
+
+            expect(decodeMessage(payload)).to.equal(text);
+            expect(size(payload)).to.be.at.most(
+              Math.min(text.length, 1 + Math.ceil((text.length * 6) / 8))
+            );
+          }
+        )
+      );
+    });
+
+    it("Should round-trip any text, picking the shorter encoding", function () {
+      fc.assert(
+        fc.property(
+          fc.string({ unit: "binary", minLength: 1, maxLength: 80 }),
+          (text) => {
+            const raw = encodeMessage(text, 1024);
+            const payload = encodeMessage(text, 1024, compact);
+
+            expect(decodeMessage(payload)).to.equal(decodeMessage(raw));
+            expect(size(payload)).to.be.at.most(size(raw));
+          }
+        )
+      );
+    });
+  });
+
+  describe("decodePayload", function () {
+    it("Should tell direct message parts from text", function () {
+      expect(decodePayload(encodeMessage("hi"))).to.deep.equal({
+        kind: "text",
+        text: "hi",
+      });
+      expect(
+        decodePayload(encodeMessage("gm everyone", 60, { compact: true }))
+      ).to.deep.equal({ kind: "text", text: "gm everyone" });
+      // The marker never starts UTF-8 text, so the parts aren't decoded
+      expect(decodePayload("0xff0102030400016869")).to.deep.equal({
+        kind: "direct",
+        text: "",
+      });
+    });
+  });
+
+  describe("truncateMessage", function () {
+    it("Should never split a multi-byte character", function () {
+      // Each € is 3 bytes, so only 3 fit in 10 bytes
+      expect(truncateMessage("€€€€", 10)).to.equal("€€€");
+      // Surrogate pairs are one character, not two halves
+      expect(truncateMessage("a🙂", 4)).to.equal("a");
+      expect(truncateMessage("short", 10)).to.equal("short");
+    });
+
+    it("Should return the longest prefix that fits", function () {
+      fc.assert(
+        fc.property(
+          fc.string({ unit: "binary", maxLength: 80 }),
+          fc.integer({ min: 1, max: MAX_MESSAGE_SIZE_BYTES }),
+          (text, maxSize) => {
+            const result = truncateMessage(text, maxSize);
+            const size = new TextEncoder().encode(result).length;
+
+            expect(text.startsWith(result)).to.equal(true);
+            expect(size).to.be.at.most(maxSize);
+            // The next character would not have fitted
+            const next = [...text.slice(result.length)][0];
+            if (next !== undefined) {
+              expect(
+                size + new TextEncoder().encode(next).length
+              ).to.be.greaterThan(maxSize);
+            }
+          }
+        )
+      );
+    });
+  });
+
+  describe("storage words", function () {
+    it("Should unpack the header slot", function () {
+      const author = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+      const word = `0x${author.slice(2)}6553f10000000000012c002a` as const;
+
+      expect(decodeEntryHeader(word)).to.deep.equal({
+        length: 42,
+        sequence: 300,
+        timestamp: 0x6553f100,
+        author: getAddress(author),
+      });
+    });
+
+    it("Should reassemble message bytes from words", function () {
+      const words = [
+        `0x${"61".repeat(32)}`,
+        `0x6262${"00".repeat(30)}`,
+      ] as const;
+
+      expect(decodeMessage(wordsToBytes(words, 34))).to.equal(
+        "a".repeat(32) + "bb"
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadDeployment,
+  readDeploymentAddress,
+  writeDeployment,
+  type DeploymentManifest,
+} from "../src";
+
+describe("deployments", function () {
+  let deploymentsDir: string;
+
+  const manifest: DeploymentManifest = {
+    version: 2,
+    network: "localhost",
+    chainId: 31337,
+    contract: "MessageStorage",
+    abiVersion: 2,
+    address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    deployer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+    transactionHash: `0x${"ab".repeat(32)}`,
+    blockNumber: 1,
+    bytecodeHash: `0x${"cd".repeat(32)}`,
+    abiHash: `0x${"ef".repeat(32)}`,
+    compiler: { name: "solc", version: "0.8.20", solcVersion: "0.8.20" },
+    constructorArgs: { capacity: 16, maxMessageSize: 60 },
+    deployedAt: "2025-03-23T06:22:52.383Z",
+  };
+
+  beforeEach(function () {
+    deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(deploymentsDir, { recursive: true, force: true });
+  });
+
+  function writeRaw(contents: object) {
+    fs.writeFileSync(
+      path.join(deploymentsDir, "localhost.json"),
+      JSON.stringify(contents)
+    );
+  }
+
+  it("Should load a written manifest", function () {
+    writeDeployment(manifest, deploymentsDir);
+
+    expect(loadDeployment("localhost", deploymentsDir)).to.deep.equal(manifest);
+    expect(readDeploymentAddress("localhost", deploymentsDir)).to.equal(
+      manifest.address
+    );
+  });
+
+  it("Should load every committed manifest", function () {
+    for (const network of ["mantle", "sepolia", "zksync"]) {
+      expect(loadDeployment(network).network).to.equal(network);
+    }
+  });
+
+  it("Should mark the committed boards as the original ABI", function () {
+    for (const network of ["mantle", "sepolia", "zksync"]) {
+      expect(loadDeployment(network).abiVersion).to.equal(1);
+    }
+  });
+
+  it("Should point legacy files at the migration", function () {
+    writeRaw({
+      network: "localhost",
+      address: manifest.address,
+      timestamp: manifest.deployedAt,
+    });
+
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "uses manifest version 0, expected 2; run `npx hardhat deployments:migrate`"
+    );
+  });
+
+  it("Should reject missing and malformed fields", function () {
+    const { blockNumber, ...withoutBlock } = manifest;
+    writeRaw(withoutBlock);
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "blockNumber must be a block number or null"
+    );
+
+    writeRaw({ ...manifest, abiVersion: 3 });
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "abiVersion must be 1 to 2"
+    );
+
+    writeRaw({ ...manifest, address: "0x1234" });
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "address must be an address"
+    );
+
+    writeRaw({ ...manifest, compiler: { name: "vyper", version: "0.3.10" } });
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "compiler must be"
+    );
+
+    writeRaw({ ...manifest, network: "sepolia" });
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "is for network sepolia"
+    );
+  });
+
+  it("Should report networks without a deployment", function () {
+    expect(() => loadDeployment("localhost", deploymentsDir)).to.throw(
+      "No deployment found for network localhost"
+    );
+  });
+});
@@ -0,0 +1,441 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import fc from "fast-check";
+import {
+  takeSnapshot,
+  time,
+  type SnapshotRestorer,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import type { ContractTypesMap } from "hardhat/types/artifacts";
+import {
+  bytesToHex,
+  getAddress,
+  maxUint256,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from "viem";
+import { RingBufferModel, type ModelMessageList } from "./RingBufferModel";
+
+// Random sequences of stores, reads and time jumps run against both the
+// contract and RingBufferModel, comparing every read and the full buffer
+// after each step. A failing sequence is shrunk to a minimal one, printed
+// with its seed; rerun it with FUZZ_SEED=<seed>. FUZZ_RUNS sets the number
+// of sequences
+describe("Differential fuzzing", function () {
+  const numRuns = Number(process.env.FUZZ_RUNS ?? 50);
+  const seed =
+    process.env.FUZZ_SEED === undefined
+      ? undefined
+      : Number(process.env.FUZZ_SEED);
+
+  // The contract and the clock the model can't see
+  interface Board {
+    contract: ContractTypesMap["MessageStorage"];
+    // Owner, allowlisted writer and a stranger, in that order
+    accounts: Address[];
+    // Timestamp of the next transaction's block
+    now: number;
+  }
+
+  type BoardCommand = fc.AsyncCommand<RingBufferModel, Board>;
+
+  const SENDERS = ["owner", "writer", "stranger"];
+  // Authors a read can filter by, including the zero address
+  const AUTHORS = [...SENDERS, "zero"];
+
+  // Small boards wrap often; sizes around 32 bytes cross slot boundaries
+  const boardShape = fc.record({
+    capacity: fc.integer({ min: 1, max: 6 }),
+    maxMessageSize: fc.constantFrom(1, 31, 32, 33, 64),
+  });
+
+  // Mostly payloads that fit, plus empty and oversized ones the contract
+  // rejects
+  const payload = (maxMessageSize: number) =>
+    fc
+      .oneof(
+        {
+          weight: 30,
+          arbitrary: fc.uint8Array({ minLength: 1, maxLength: maxMessageSize }),
+        },
+        { weight: 1, arbitrary: fc.uint8Array({ maxLength: 0 }) },
+        {
+          weight: 1,
+          arbitrary: fc.uint8Array({
+            minLength: maxMessageSize + 1,
+            maxLength: maxMessageSize + 4,
+          }),
+        }
+      )
+      .map((bytes) => bytesToHex(bytes));
+
+  // Read a list-returning call's tuple as a ModelMessageList
+  function toModelList([indices, messages, timestamps, authors, sequences]: [
+    readonly bigint[],
+    readonly Hex[],
+    readonly number[],
+    readonly Address[],
+    readonly bigint[]
+  ]): ModelMessageList {
+    return {
+      indices: indices.map(Number),
+      messages: [...messages],
+      timestamps: [...timestamps],
+      authors: [...authors],
+      sequences: sequences.map(Number),
+    };
+  }
+
+  // Expect the contract to return what the model returns, or to revert
+  // with the reason the model throws
+  async function expectSameOutcome<T>(
+    model: () => T,
+    contract: () => Promise<T>
+  ): Promise<void> {
+    let expected: T;
+    try {
+      expected = model();
+    } catch (error) {
+      await expect(contract()).to.be.rejectedWith((error as Error).message);
+      return;
+    }
+    expect(await contract()).to.deep.equal(expected);
+  }
+
+  // Compare the whole buffer, which every step must leave identical
+  async function expectSameState(
+    model: RingBufferModel,
+    { contract }: Board
+  ): Promise<void> {
+    expect(Number(await contract.read.getCurrentIndex())).to.equal(
+      model.currentIndex
+    );
+    expect(Number(await contract.read.getLastSequence())).to.equal(
+      model.lastSequence
+    );
+    expect(toModelList(await contract.read.getAllMessages())).to.deep.equal(
+      model.getAllMessages()
+    );
+  }
+
+  class StoreCommand implements BoardCommand {
+    constructor(
+      readonly sender: number,
+      readonly messages: Hex[],
+      // storeMessages rather than storeMessage
+      readonly batch: boolean
+    ) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      const account = board.accounts[this.sender];
+      const timestamp = board.now++;
+      await time.setNextBlockTimestamp(timestamp);
+
+      await expectSameOutcome(
+        () => {
+          model.store(account, this.messages, timestamp);
+        },
+        async () => {
+          await (this.batch
+            ? board.contract.write.storeMessages([this.messages], { account })
+            : board.contract.write.storeMessage([this.messages[0]], {
+                account,
+              }));
+        }
+      );
+      await expectSameState(model, board);
+    }
+
+    toString(): string {
+      const call = this.batch ? "storeMessages" : "storeMessage";
+      return `${call}(${SENDERS[this.sender]}, ${JSON.stringify(
+        this.messages
+      )})`;
+    }
+  }
+
+  class TimeJumpCommand implements BoardCommand {
+    constructor(readonly seconds: number) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      board.now += this.seconds;
+      await expectSameState(model, board);
+    }
+
+    toString(): string {
+      return `timeJump(${this.seconds})`;
+    }
+  }
+
+  class GetMessageCommand implements BoardCommand {
+    // May be past the capacity, which the contract rejects
+    constructor(readonly index: number) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      await expectSameOutcome(
+        () => {
+          const { message, timestamp, author, sequence } = model.getMessage(
+            this.index
+          );
+          return [message, timestamp, author, BigInt(sequence)];
+        },
+        () => board.contract.read.getMessage([BigInt(this.index)])
+      );
+    }
+
+    toString(): string {
+      return `getMessage(${this.index})`;
+    }
+  }
+
+  class GetMessagesByAuthorCommand implements BoardCommand {
+    constructor(readonly author: number, readonly limit: number) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      const author = board.accounts[this.author] ?? zeroAddress;
+      await expectSameOutcome(
+        () => model.getMessagesByAuthor(author, this.limit),
+        async () =>
+          toModelList(
+            await board.contract.read.getMessagesByAuthor([
+              author,
+              BigInt(this.limit),
+            ])
+          )
+      );
+    }
+
+    toString(): string {
+      return `getMessagesByAuthor(${AUTHORS[this.author]}, ${this.limit})`;
+    }
+  }
+
+  // A time bound picked relative to the stored messages, since commands are
+  // generated before the timestamps are known
+  interface TimeBound {
+    // Use 0 (from) or the largest uint256 (to) instead
+    open: boolean;
+    // Which stored message's timestamp, modulo the number stored
+    message: number;
+    // Seconds added to it
+    offset: number;
+  }
+
+  const timeBound = fc.record({
+    open: fc.boolean(),
+    message: fc.nat(16),
+    offset: fc.integer({ min: -1, max: 1 }),
+  });
+
+  class GetMessagesPageCommand implements BoardCommand {
+    constructor(
+      // Sequence numbers back from the newest, for afterSequence
+      readonly back: number,
+      readonly from: TimeBound,
+      readonly to: TimeBound,
+      readonly limit: number
+    ) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      const { timestamps } = model.getAllMessages();
+      const resolve = (bound: TimeBound, open: bigint) => {
+        if (bound.open) {
+          return open;
+        }
+        const base =
+          timestamps.length === 0
+            ? board.now
+            : timestamps[bound.message % timestamps.length];
+        return BigInt(base + bound.offset);
+      };
+      const afterSequence = Math.max(model.lastSequence - this.back, 0);
+      const from = resolve(this.from, 0n);
+      const to = resolve(this.to, maxUint256);
+
+      await expectSameOutcome(
+        () => {
+          const { nextCursor, ...page } = model.getMessagesPage(
+            afterSequence,
+            from,
+            to,
+            this.limit
+          );
+          return { page, nextCursor };
+        },
+        async () => {
+          const [indices, messages, timestamps, authors, sequences, next] =
+            await board.contract.read.getMessagesPage([
+              BigInt(afterSequence),
+              from,
+              to,
+              BigInt(this.limit),
+            ]);
+          return {
+            page: toModelList([
+              indices,
+              messages,
+              timestamps,
+              authors,
+              sequences,
+            ]),
+            nextCursor: Number(next),
+          };
+        }
+      );
+    }
+
+    toString(): string {
+      return `getMessagesPage(${JSON.stringify(this)})`;
+    }
+  }
+
+  class GetMessageBySequenceCommand implements BoardCommand {
+    // Sequence numbers back from one past the newest, so 0 is unknown
+    constructor(readonly back: number) {}
+
+    check = () => true;
+
+    async run(model: RingBufferModel, board: Board): Promise<void> {
+      const sequence = Math.max(model.lastSequence + 1 - this.back, 0);
+      await expectSameOutcome(
+        () => {
+          const { overwritten, index, message, timestamp, author } =
+            model.getMessageBySequence(sequence);
+          return [overwritten, BigInt(index), message, timestamp, author];
+        },
+        () => board.contract.read.getMessageBySequence([BigInt(sequence)])
+      );
+    }
+
+    toString(): string {
+      return `getMessageBySequence(newest + 1 - ${this.back})`;
+    }
+  }
+
+  const sender = fc.nat(SENDERS.length - 1);
+  const commands = (maxMessageSize: number) =>
+    fc.commands(
+      [
+        fc
+          .tuple(sender, payload(maxMessageSize))
+          .map(([from, message]) => new StoreCommand(from, [message], false)),
+        fc
+          .tuple(sender, fc.array(payload(maxMessageSize), { maxLength: 8 }))
+          .map(([from, messages]) => new StoreCommand(from, messages, true)),
+        fc
+          .integer({ min: 0, max: 100_000 })
+          .map((seconds) => new TimeJumpCommand(seconds)),
+        fc.nat(7).map((index) => new GetMessageCommand(index)),
+        fc
+          .tuple(fc.nat(AUTHORS.length - 1), fc.nat(8))
+          .map(
+            ([author, limit]) => new GetMessagesByAuthorCommand(author, limit)
+          ),
+        fc
+          .tuple(fc.nat(14), timeBound, timeBound, fc.nat(8))
+          .map(
+            ([back, from, to, limit]) =>
+              new GetMessagesPageCommand(back, from, to, limit)
+          ),
+        fc.nat(14).map((back) => new GetMessageBySequenceCommand(back)),
+      ],
+      { maxCommands: 60, size: "+1" }
+    );
+
+  // A board shape with a sequence of commands for it
+  const scenario = boardShape.chain((shape) =>
+    fc.tuple(fc.constant(shape), commands(shape.maxMessageSize))
+  );
+
+  let snapshot: SnapshotRestorer;
+
+  before(async function () {
+    // Every sequence starts from this chain state, so time jumps don't
+    // carry over to later tests
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  // The property: every sequence behaves the same on both
+  function sameBehaviour(
+    createModel: (
+      capacity: number,
+      maxMessageSize: number,
+      writers: Address[]
+    ) => RingBufferModel
+  ) {
+    return fc.asyncProperty(
+      scenario,
+      async ([{ capacity, maxMessageSize }, sequence]) => {
+        await snapshot.restore();
+        const [owner, writer, stranger] = await hre.viem.getWalletClients();
+        const contract = await hre.viem.deployContract("MessageStorage", [
+          BigInt(capacity),
+          BigInt(maxMessageSize),
+        ]);
+        await contract.write.addWriter([writer.account.address]);
+
+        const accounts = [owner, writer, stranger].map((client) =>
+          getAddress(client.account.address)
+        );
+        const board = {
+          contract,
+          accounts,
+          now: (await time.latest()) + 1,
+        };
+        await fc.asyncModelRun(
+          () => ({
+            model: createModel(capacity, maxMessageSize, accounts.slice(0, 2)),
+            real: board,
+          }),
+          sequence
+        );
+      }
+    );
+  }
+
+  it("Should match the reference model on random sequences", async function () {
+    this.timeout(0);
+
+    await fc.assert(
+      sameBehaviour((...args) => new RingBufferModel(...args)),
+      { numRuns, seed }
+    );
+  });
+
+  it("Should shrink a failing sequence to a minimal reproduction", async function () {
+    this.timeout(0);
+
+    // A model that wraps one entry late, as an off-by-one contract would
+    class WrapLateModel extends RingBufferModel {
+      protected nextIndex(index: number): number {
+        return (index + 1) % (this.capacity + 1);
+      }
+    }
+
+    const details = await fc.check(
+      sameBehaviour((...args) => new WrapLateModel(...args)),
+      { numRuns: 50, seed: 22 }
+    );
+
+    // Shrunk to the smallest board, which a single one-byte message wraps
+    expect(details.failed).to.equal(true);
+    const [[{ capacity }, sequence]] = details.counterexample!;
+    expect(capacity).to.equal(1);
+    expect(String(sequence)).to.match(/^storeMessages?\(owner, \["0x00"\]\) /);
+  });
+});
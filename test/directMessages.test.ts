@@ -0,0 +1,301 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  bytesToHex,
+  concatHex,
+  getAddress,
+  hexToBytes,
+  size,
+  type Hex,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  DIRECT_MESSAGE_MARKER,
+  MessageStorageClient,
+  decodeDirectMessageEnvelope,
+  decodeDirectMessagePart,
+  decryptDirectMessage,
+  directMessageHint,
+  encodeDirectMessageEnvelope,
+  encryptDirectMessage,
+  joinDirectMessageParts,
+  splitDirectMessage,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+  type DirectMessageEnvelope,
+} from "../src";
+
+describe("directMessages", function () {
+  // Recipients are plain key pairs; only their public keys are shared
+  const recipientKey = generatePrivateKey();
+  const recipient = privateKeyToAccount(recipientKey);
+  const strangerKey = generatePrivateKey();
+
+  // Flip one bit of a hex field
+  function flipBit(value: Hex, byte = 0): Hex {
+    const bytes = hexToBytes(value);
+    bytes[byte] ^= 0x01;
+    return bytesToHex(bytes);
+  }
+
+  describe("Envelope", function () {
+    it("Should decrypt with the recipient's key", function () {
+      const envelope = encryptDirectMessage(
+        "meet at 9 🌙",
+        recipient.publicKey
+      );
+
+      expect(envelope.version).to.equal(1);
+      expect(envelope.recipientHint).to.equal(
+        directMessageHint(recipient.address)
+      );
+      expect(decryptDirectMessage(envelope, recipientKey)).to.equal(
+        "meet at 9 🌙"
+      );
+    });
+
+    it("Should accept compressed public keys", function () {
+      const compressed = concatHex([
+        BigInt(recipient.publicKey) % 2n === 0n ? "0x02" : "0x03",
+        `0x${recipient.publicKey.slice(4, 68)}`,
+      ]);
+
+      const envelope = encryptDirectMessage("hi", compressed);
+      expect(decryptDirectMessage(envelope, recipientKey)).to.equal("hi");
+    });
+
+    it("Should encrypt the same text differently every time", function () {
+      const first = encryptDirectMessage("same", recipient.publicKey);
+      const second = encryptDirectMessage("same", recipient.publicKey);
+
+      expect(first.ephemeralPublicKey).to.not.equal(second.ephemeralPublicKey);
+      expect(first.ciphertext).to.not.equal(second.ciphertext);
+    });
+
+    it("Should refuse to decrypt with the wrong key", function () {
+      const envelope = encryptDirectMessage("secret", recipient.publicKey);
+
+      expect(() => decryptDirectMessage(envelope, strangerKey)).to.throw(
+        "Direct message is for another recipient"
+      );
+
+      // Even with a hint that matches the wrong key, the key can't decrypt
+      const stranger = privateKeyToAccount(strangerKey);
+      const retargeted = {
+        ...envelope,
+        recipientHint: directMessageHint(stranger.address),
+      };
+      expect(() => decryptDirectMessage(retargeted, strangerKey)).to.throw(
+        "Direct message failed to decrypt"
+      );
+    });
+
+    it("Should detect tampering with any field", function () {
+      const envelope = encryptDirectMessage("pay 10", recipient.publicKey);
+      const tampered: DirectMessageEnvelope[] = [
+        { ...envelope, ciphertext: flipBit(envelope.ciphertext) },
+        // The last byte is part of the authentication tag
+        {
+          ...envelope,
+          ciphertext: flipBit(
+            envelope.ciphertext,
+            size(envelope.ciphertext) - 1
+          ),
+        },
+        { ...envelope, nonce: flipBit(envelope.nonce) },
+        {
+          ...envelope,
+          ephemeralPublicKey: flipBit(envelope.ephemeralPublicKey, 5),
+        },
+      ];
+
+      for (const altered of tampered) {
+        expect(() => decryptDirectMessage(altered, recipientKey)).to.throw(
+          "Direct message failed to decrypt"
+        );
+      }
+    });
+
+    it("Should round-trip through its serialized form", function () {
+      const envelope = encryptDirectMessage("bytes", recipient.publicKey);
+      const encoded = encodeDirectMessageEnvelope(envelope);
+
+      // Version, hint, ephemeral key, nonce, ciphertext and tag
+      expect(size(encoded)).to.equal(1 + 4 + 33 + 12 + 5 + 16);
+      expect(decodeDirectMessageEnvelope(encoded)).to.deep.equal(envelope);
+      expect(() =>
+        decodeDirectMessageEnvelope(
+          concatHex(["0x02", `0x${encoded.slice(4)}`])
+        )
+      ).to.throw("Unsupported direct message version 2");
+      expect(() =>
+        decodeDirectMessageEnvelope(`0x${encoded.slice(0, 60)}`)
+      ).to.throw("Direct message envelope is truncated");
+    });
+  });
+
+  describe("Parts", function () {
+    it("Should split an envelope into entries and join it back", function () {
+      const envelope = encryptDirectMessage(
+        "a longer message that needs several entries",
+        recipient.publicKey
+      );
+      const payloads = splitDirectMessage(envelope, MAX_MESSAGE_SIZE_BYTES);
+
+      // 66 bytes of overhead plus 43 of text, 53 per entry
+      expect(payloads).to.have.length(3);
+      for (const payload of payloads) {
+        expect(size(payload)).to.be.at.most(MAX_MESSAGE_SIZE_BYTES);
+        expect(hexToBytes(payload)[0]).to.equal(DIRECT_MESSAGE_MARKER);
+      }
+
+      const parts = payloads.map(
+        (payload) => decodeDirectMessagePart(payload)!
+      );
+      expect(new Set(parts.map((p) => p.envelopeId)).size).to.equal(1);
+      expect(joinDirectMessageParts(parts.reverse())).to.deep.equal(envelope);
+    });
+
+    it("Should refuse incomplete or mixed parts", function () {
+      const split = (text: string) =>
+        splitDirectMessage(
+          encryptDirectMessage(text, recipient.publicKey),
+          MAX_MESSAGE_SIZE_BYTES
+        ).map((payload) => decodeDirectMessagePart(payload)!);
+      const [first, second] = split("x".repeat(30));
+      const [other] = split("y".repeat(30));
+
+      expect(() => joinDirectMessageParts([first])).to.throw(
+        "Direct message parts are incomplete"
+      );
+      expect(() => joinDirectMessageParts([first, first])).to.throw(
+        "Direct message parts are incomplete"
+      );
+      // Parts of two messages join, but can't be decrypted
+      const mixed = joinDirectMessageParts([first, { ...other, part: 1 }]);
+      expect(() => decryptDirectMessage(mixed, recipientKey)).to.throw(
+        "Direct message failed to decrypt"
+      );
+      expect(joinDirectMessageParts([second, first]).version).to.equal(1);
+    });
+
+    it("Should not mistake plain messages for parts", function () {
+      expect(decodeDirectMessagePart("0x6869")).to.equal(undefined);
+      // A marker with nothing after the header, or a part past the count
+      expect(decodeDirectMessagePart("0xff00000000000001")).to.equal(undefined);
+      expect(decodeDirectMessagePart("0xff000000000202aa")).to.equal(undefined);
+    });
+
+    it("Should reject boards too small to hold parts", function () {
+      const envelope = encryptDirectMessage("hi", recipient.publicKey);
+
+      expect(() => splitDirectMessage(envelope, 7)).to.throw(RangeError);
+      expect(() =>
+        splitDirectMessage(
+          encryptDirectMessage("x".repeat(300), recipient.publicKey),
+          8
+        )
+      ).to.throw("Direct message needs 366 entries, maximum is 255");
+    });
+  });
+
+  describe("MessageStorageClient", function () {
+    async function deployDirectMessageFixture() {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+      const board = await hre.viem.deployContract("MessageStorage", [
+        BigInt(MAX_MESSAGES),
+        BigInt(MAX_MESSAGE_SIZE_BYTES),
+      ]);
+      const client = new MessageStorageClient({
+        address: board.address,
+        publicClient,
+        walletClient: owner,
+      });
+      return { board, client, owner };
+    }
+
+    it("Should store a direct message and decrypt it for the recipient", async function () {
+      const { client, owner } = await deployDirectMessageFixture();
+
+      await client.storeMessage("public hello");
+      const { sequences, indices } = await client.storeDirectMessage(
+        "the password is swordfish",
+        recipient.publicKey
+      );
+      await client.storeMessage("public bye");
+
+      expect(sequences).to.deep.equal([2, 3]);
+      const [message] = await client.getDirectMessages(recipientKey);
+      expect(message).to.deep.include({
+        status: "decrypted",
+        sequence: 2,
+        index: indices[0],
+        text: "the password is swordfish",
+        author: getAddress(owner.account.address),
+      });
+
+      // Other keys see nothing, and plain reads mark the parts instead of
+      // decoding them as text
+      expect(await client.getDirectMessages(strangerKey)).to.deep.equal([]);
+      const messages = await client.getAllMessages();
+      expect(messages.map((m) => [m.kind, m.text])).to.deep.equal([
+        ["text", "public hello"],
+        ["direct", ""],
+        ["direct", ""],
+        ["text", "public bye"],
+      ]);
+      expect(await client.getMessage(indices[0])).to.include({
+        kind: "direct",
+        text: "",
+      });
+    });
+
+    it("Should report tampered messages instead of dropping them", async function () {
+      const { board, client } = await deployDirectMessageFixture();
+
+      // Parts with a flipped ciphertext bit, as a forger would store them
+      const envelope = encryptDirectMessage("pay 10", recipient.publicKey);
+      await board.write.storeMessages([
+        splitDirectMessage(
+          { ...envelope, ciphertext: flipBit(envelope.ciphertext) },
+          MAX_MESSAGE_SIZE_BYTES
+        ),
+      ]);
+      await client.storeDirectMessage("pay 20", recipient.publicKey);
+
+      const messages = await client.getDirectMessages(recipientKey);
+      expect(messages.map((m) => m.status)).to.deep.equal([
+        "undecryptable",
+        "decrypted",
+      ]);
+      expect(messages[0]).to.deep.include({
+        sequence: 1,
+        error: "Direct message failed to decrypt",
+      });
+      expect(messages[1]).to.deep.include({ text: "pay 20" });
+    });
+
+    it("Should leave out messages whose parts were overwritten", async function () {
+      const { client } = await deployDirectMessageFixture();
+
+      await client.storeDirectMessage("x".repeat(60), recipient.publicKey);
+      // Wrap around over the first two of its three parts
+      await client.storeMessages(
+        Array.from({ length: MAX_MESSAGES - 1 }, (_, i) => `filler ${i}`)
+      );
+
+      expect(await client.getDirectMessages(recipientKey)).to.deep.equal([]);
+    });
+
+    it("Should refuse messages longer than the ring", async function () {
+      const { client } = await deployDirectMessageFixture();
+
+      await expect(
+        client.storeDirectMessage("x".repeat(1000), recipient.publicKey)
+      ).to.be.rejectedWith(
+        "Direct message needs 21 entries, the board keeps 16"
+      );
+    });
+  });
+});
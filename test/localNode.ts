@@ -0,0 +1,111 @@
+import hre from "hardhat";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { createProvider } from "hardhat/internal/core/providers/construction";
+import type { JsonRpcServer } from "hardhat/types";
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  type Address,
+  type Hex,
+} from "viem";
+import { MessageStorageClient } from "../src";
+
+// A Hardhat node on its own chain, reachable over JSON-RPC
+export interface LocalNode {
+  chainId: number;
+  url: string;
+  server: JsonRpcServer;
+  // The node's unlocked accounts
+  accounts: Address[];
+  // Deploy a board, owned by the first account, and return its client
+  deployBoard(
+    capacity?: number,
+    maxMessageSize?: number
+  ): Promise<MessageStorageClient>;
+  // A client for a board sending from one of the accounts
+  connect(address: Address, account: Address): MessageStorageClient;
+  // Mine empty blocks
+  mine(blocks: number): Promise<void>;
+}
+
+/**
+ * Start a Hardhat node with the project's network config but its own chain
+ * id, served on a free local port
+ * @param chainId The node's chain id
+ * @returns The running node
+ */
+export async function startLocalNode(chainId: number): Promise<LocalNode> {
+  const config = {
+    ...hre.config,
+    networks: {
+      ...hre.config.networks,
+      hardhat: { ...hre.config.networks.hardhat, chainId },
+    },
+  };
+  const provider = await createProvider(config, "hardhat", hre.artifacts);
+  const server: JsonRpcServer = await hre.run(TASK_NODE_CREATE_SERVER, {
+    hostname: "127.0.0.1",
+    port: 0,
+    provider,
+  });
+  const { port } = await server.listen();
+  const url = `http://127.0.0.1:${port}`;
+
+  const chain = defineChain({
+    id: chainId,
+    name: `Local ${chainId}`,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [url] } },
+  });
+  // Always ask the node for the latest block
+  const publicClient = createPublicClient({
+    chain,
+    transport: http(url),
+    cacheTime: 0,
+  });
+  const accounts = (await provider.request({
+    method: "eth_accounts",
+  })) as Address[];
+  const connect = (address: Address, account: Address) =>
+    new MessageStorageClient({
+      address,
+      publicClient,
+      walletClient: createWalletClient({
+        account,
+        chain,
+        transport: http(url),
+      }),
+    });
+  const { abi, bytecode } = await hre.artifacts.readArtifact("MessageStorage");
+
+  return {
+    chainId,
+    url,
+    server,
+    accounts,
+    connect,
+    async deployBoard(capacity = 16, maxMessageSize = 60) {
+      const hash = await createWalletClient({
+        account: accounts[0],
+        chain,
+        transport: http(url),
+      }).deployContract({
+        abi,
+        bytecode: bytecode as Hex,
+        args: [BigInt(capacity), BigInt(maxMessageSize)],
+      });
+      const { contractAddress } = await publicClient.waitForTransactionReceipt({
+        hash,
+      });
+      return connect(contractAddress!, accounts[0]);
+    },
+    async mine(blocks: number) {
+      await provider.request({
+        method: "hardhat_mine",
+        params: [`0x${blocks.toString(16)}`],
+      });
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  getMessagePage,
+  getMessagesInRange,
+  MemoryHistoryStore,
+  MessageIndexer,
+  MessageStorageClient,
+} from "../src";
+
+describe("messageQueries", function () {
+  // A four-entry board, so history holds messages the buffer has lost
+  async function deployQueryFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      4n,
+      60n,
+    ]);
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+    const indexer = new MessageIndexer({
+      address: messageStorage.address,
+      publicClient,
+      store: new MemoryHistoryStore(),
+      fromBlock: Number(await publicClient.getBlockNumber()),
+    });
+
+    // Store messages ten seconds apart, continuing from the last one
+    const start = (await time.latest()) + 10;
+    let stored = 0;
+    const storeSpaced = async (count: number) => {
+      for (let i = 0; i < count; i++, stored++) {
+        await time.setNextBlockTimestamp(start + stored * 10);
+        await client.storeMessage(`Message ${stored}`);
+      }
+    };
+    const at = (n: number) => new Date((start + n * 10) * 1000);
+
+    return { client, indexer, storeSpaced, at };
+  }
+
+  it("Should combine indexed history with messages it hasn't synced", async function () {
+    const { client, indexer, storeSpaced, at } = await deployQueryFixture();
+    await storeSpaced(6);
+    await indexer.sync();
+    // Stored after the sync: only the buffer has these
+    await storeSpaced(3);
+    const history = await indexer.getHistory();
+
+    const messages = await getMessagesInRange(client, {
+      from: at(1),
+      to: at(8),
+      history,
+      pageSize: 2,
+    });
+    expect(messages.map((m) => m.text)).to.deep.equal([
+      "Message 1",
+      "Message 2",
+      "Message 3",
+      "Message 4",
+      "Message 5",
+      "Message 6",
+      "Message 7",
+    ]);
+    expect(messages.map((m) => m.sequence)).to.deep.equal([
+      2, 3, 4, 5, 6, 7, 8,
+    ]);
+
+    // Without history only the buffer's four messages are left
+    const bufferOnly = await getMessagesInRange(client, { from: at(1) });
+    expect(bufferOnly.map((m) => m.sequence)).to.deep.equal([6, 7, 8, 9]);
+  });
+
+  it("Should page across both sources without repeats", async function () {
+    const { client, indexer, storeSpaced } = await deployQueryFixture();
+    await storeSpaced(7);
+    await indexer.sync();
+    const history = await indexer.getHistory();
+
+    const sequences: number[][] = [];
+    let after: number | undefined;
+    do {
+      const page = await getMessagePage(client, { after, history, limit: 3 });
+      sequences.push(page.messages.map((m) => m.sequence));
+      after = page.nextCursor;
+    } while (after !== undefined);
+
+    expect(sequences).to.deep.equal([[1, 2, 3], [4, 5, 6], [7]]);
+  });
+
+  it("Should skip messages that neither source holds", async function () {
+    const { client, indexer, storeSpaced } = await deployQueryFixture();
+    await storeSpaced(2);
+    await indexer.sync();
+    // Sequences 3 and 4 are overwritten before the indexer sees them
+    await storeSpaced(6);
+    const history = await indexer.getHistory();
+
+    const messages = await getMessagesInRange(client, { history });
+    expect(messages.map((m) => m.sequence)).to.deep.equal([1, 2, 5, 6, 7, 8]);
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { compareStorageLayouts, type StorageLayout } from "../src";
+import { readStorageLayout } from "../tasks/deployers";
+
+describe("storageLayout", function () {
+  let layout: StorageLayout;
+
+  before(async function () {
+    layout = await readStorageLayout(hre, "MessageStorage");
+  });
+
+  // A copy of the board's layout with some variables changed
+  function withStorage(
+    edit: (storage: StorageLayout["storage"]) => StorageLayout["storage"],
+    types: StorageLayout["types"] = layout.types
+  ): StorageLayout {
+    return { storage: edit(layout.storage.map((v) => ({ ...v }))), types };
+  }
+
+  it("Should read the board's layout from the build info", function () {
+    expect(
+      layout.storage.map(({ label, slot, offset }) => [label, slot, offset])
+    ).to.deep.equal([
+      ["currentIndex", "0", 0],
+      ["messages", "1", 0],
+      ["owner", "2", 0],
+      ["paused", "2", 20],
+      ["writers", "3", 0],
+      ["nonces", "4", 0],
+      ["mirrored", "5", 0],
+    ]);
+  });
+
+  it("Should accept identical layouts and appended variables", function () {
+    expect(compareStorageLayouts(layout, layout)).to.deep.equal([]);
+
+    const appended = withStorage((storage) => [
+      ...storage,
+      { label: "version", offset: 0, slot: "6", type: "t_uint256" },
+    ]);
+    expect(compareStorageLayouts(layout, appended)).to.deep.equal([]);
+  });
+
+  it("Should compare types by structure, not by id", function () {
+    const renamedIds = {
+      storage: layout.storage.map((v) =>
+        v.label === "writers"
+          ? { ...v, type: "t_mapping(t_address,t_bool)42" }
+          : v
+      ),
+      types: {
+        ...layout.types,
+        "t_mapping(t_address,t_bool)42":
+          layout.types!["t_mapping(t_address,t_bool)"],
+      },
+    };
+    expect(compareStorageLayouts(layout, renamedIds)).to.deep.equal([]);
+  });
+
+  it("Should refuse inserted, removed, renamed and retyped variables", function () {
+    const inserted = withStorage((storage) => [
+      ...storage.slice(0, 4),
+      { label: "version", offset: 0, slot: "3", type: "t_uint256" },
+      { ...storage[4], slot: "4" },
+      { ...storage[5], slot: "5" },
+      { ...storage[6], slot: "6" },
+    ]);
+    expect(compareStorageLayouts(layout, inserted)).to.deep.equal([
+      "writers (slot 3, offset 0) was replaced by version",
+      "writers (slot 3, offset 0) changed type from mapping(address => bool) to uint256",
+      "nonces (slot 4, offset 0) was replaced by writers",
+      "nonces (slot 4, offset 0) changed type from mapping(address => uint256) to mapping(address => bool)",
+      "mirrored (slot 5, offset 0) was replaced by nonces",
+      "mirrored (slot 5, offset 0) changed type from mapping(bytes32 => bool) to mapping(address => uint256)",
+    ]);
+
+    const removed = withStorage((storage) =>
+      storage.filter((v) => v.label !== "paused")
+    );
+    expect(compareStorageLayouts(layout, removed)).to.deep.equal([
+      "paused (slot 2, offset 20) was removed or moved",
+    ]);
+
+    const retyped = withStorage(
+      (storage) =>
+        storage.map((v) =>
+          v.label === "currentIndex" ? { ...v, type: "t_uint128" } : v
+        ),
+      {
+        ...layout.types,
+        t_uint128: {
+          encoding: "inplace",
+          label: "uint128",
+          numberOfBytes: "16",
+        },
+      }
+    );
+    expect(compareStorageLayouts(layout, retyped)).to.deep.equal([
+      "currentIndex (slot 0, offset 0) changed type from uint256 to uint128",
+    ]);
+
+    const squeezed = withStorage((storage) => [
+      ...storage,
+      { label: "flag", offset: 21, slot: "2", type: "t_bool" },
+    ]);
+    expect(compareStorageLayouts(layout, squeezed)).to.deep.equal([
+      "flag (slot 2, offset 21) was inserted into existing storage",
+    ]);
+  });
+});
@@ -0,0 +1,1018 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import type { HttpNetworkConfig } from "hardhat/types";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getAddress, numberToHex, stringToHex, type Abi, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  decodeMessage,
+  entrySlot,
+  ENTRY_HEADER_FORMAT,
+  hashAbi,
+  hashBytecode,
+  loadDeployment,
+  MessageRelayer,
+  MessageStorageClient,
+  readDeploymentAddress,
+  writeDeployment,
+  type MessageJson,
+  type MirrorOutcome,
+  type StoredMessage,
+  MAX_MESSAGES,
+  MAX_MESSAGE_SIZE_BYTES,
+} from "../src";
+import {
+  readGasReport,
+  writeGasReport,
+  STORAGE_BACKENDS,
+} from "../tasks/gasBenchmark";
+import { getMessageStorageClient } from "../tasks/utils";
+import { startLocalNode, type LocalNode } from "./localNode";
+
+describe("Tasks", function () {
+  async function deployMessageStorageFixture() {
+    const [owner, otherAccount] = await hre.viem.getWalletClients();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      BigInt(MAX_MESSAGES),
+      BigInt(MAX_MESSAGE_SIZE_BYTES),
+    ]);
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient: await hre.viem.getPublicClient(),
+      walletClient: otherAccount,
+    });
+
+    return { messageStorage, client, owner, otherAccount };
+  }
+
+  describe("writers", function () {
+    it("Should add, check and remove a writer", async function () {
+      const { messageStorage, client, otherAccount } =
+        await deployMessageStorageFixture();
+      const writer = otherAccount.account.address;
+      const contract = messageStorage.address;
+
+      expect(await hre.run("writers:check", { writer, contract })).to.equal(
+        false
+      );
+
+      await hre.run("writers:add", { writer, contract });
+      expect(await hre.run("writers:check", { writer, contract })).to.equal(
+        true
+      );
+      await client.storeMessage("Posted after writers:add");
+
+      await hre.run("writers:remove", { writer, contract });
+      expect(await client.isWriter(writer)).to.equal(false);
+    });
+
+    it("Should reject invalid addresses", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+
+      await expect(
+        hre.run("writers:add", {
+          writer: "not-an-address",
+          contract: messageStorage.address,
+        })
+      ).to.be.rejectedWith("Invalid writer address: not-an-address");
+    });
+
+    it("Should require a deployment file without --contract", async function () {
+      const { otherAccount } = await deployMessageStorageFixture();
+
+      await expect(
+        hre.run("writers:check", { writer: otherAccount.account.address })
+      ).to.be.rejectedWith("No deployment found for network hardhat");
+    });
+
+    it("Should surface contract errors from non-owners", async function () {
+      const { messageStorage, otherAccount } =
+        await deployMessageStorageFixture();
+
+      // Hand ownership away so the task's default account loses admin rights
+      await messageStorage.write.transferOwnership([
+        otherAccount.account.address,
+      ]);
+
+      await expect(
+        hre.run("writers:add", {
+          writer: otherAccount.account.address,
+          contract: messageStorage.address,
+        })
+      ).to.be.rejectedWith("Caller is not the owner");
+    });
+  });
+
+  describe("messages", function () {
+    it("Should post a message and list it", async function () {
+      const { messageStorage, otherAccount } =
+        await deployMessageStorageFixture();
+      const contract = messageStorage.address;
+
+      const posted = await hre.run("messages:post", {
+        text: "Posted from a task ✓",
+        contract,
+      });
+      expect(posted).to.include({ index: 0, text: "Posted from a task ✓" });
+
+      await hre.run("messages:post", { text: "Second", contract });
+      const messages = await hre.run("messages:list", { contract });
+      expect(messages.map((m: StoredMessage) => m.text)).to.deep.equal([
+        "Posted from a task ✓",
+        "Second",
+      ]);
+      // Tasks send from the network's first account
+      expect(messages[0].author).to.not.equal(
+        getAddress(otherAccount.account.address)
+      );
+    });
+
+    it("Should print the posted message, not the slot's next writer", async function () {
+      const [, otherAccount] = await hre.viem.getWalletClients();
+      // One slot, so the next message overwrites the posted one
+      const board = await hre.viem.deployContract("MessageStorage", [1n, 60n]);
+      await board.write.addWriter([otherAccount.account.address]);
+
+      // Another writer lands right after the task's transaction is mined
+      const provider = hre.network.provider;
+      const request = provider.request.bind(provider);
+      let interfered = false;
+      provider.request = async (args) => {
+        const result = await request(args);
+        if (args.method === "eth_getTransactionReceipt" && !interfered) {
+          interfered = true;
+          await board.write.storeMessage([stringToHex("Someone else")], {
+            account: otherAccount.account,
+          });
+        }
+        return result;
+      };
+
+      try {
+        const posted = await hre.run("messages:post", {
+          text: "Mine",
+          contract: board.address,
+        });
+        expect(posted).to.include({ sequence: 1, index: 0, text: "Mine" });
+      } finally {
+        provider.request = request;
+      }
+      expect(interfered).to.equal(true);
+      const [stored] = await board.read.getMessage([0n]);
+      expect(decodeMessage(stored)).to.equal("Someone else");
+    });
+
+    it("Should post through a relayer", async function () {
+      const { messageStorage, owner, otherAccount } =
+        await deployMessageStorageFixture();
+      const relayer = new MessageRelayer({
+        address: messageStorage.address,
+        publicClient: await hre.viem.getPublicClient(),
+        walletClient: otherAccount,
+      });
+      const url = await relayer.listen();
+
+      try {
+        const posted = await hre.run("messages:post", {
+          text: "Relayed from a task",
+          contract: messageStorage.address,
+          relayer: url,
+        });
+        // Signed by the task's account, paid for by the relayer's
+        expect(posted).to.include({
+          index: 0,
+          text: "Relayed from a task",
+          author: getAddress(owner.account.address),
+        });
+        expect(
+          await messageStorage.read.getNonce([owner.account.address])
+        ).to.equal(1n);
+      } finally {
+        await relayer.close();
+      }
+    });
+
+    it("Should print the list as JSON", async function () {
+      const { messageStorage, client, otherAccount } =
+        await deployMessageStorageFixture();
+      await messageStorage.write.addWriter([otherAccount.account.address]);
+      await client.storeMessages(["one", "two"]);
+
+      const output: string[] = [];
+      const log = console.log;
+      console.log = (line: string) => output.push(line);
+      try {
+        await hre.run("messages:list", {
+          contract: messageStorage.address,
+          json: true,
+        });
+      } finally {
+        console.log = log;
+      }
+
+      const printed = JSON.parse(output.join("\n"));
+      expect(printed).to.have.lengthOf(2);
+      expect(printed[1]).to.deep.include({
+        index: 1,
+        author: getAddress(otherAccount.account.address),
+        text: "two",
+      });
+      expect(new Date(printed[1].timestamp).getTime()).to.be.greaterThan(0);
+    });
+
+    it("Should list a board holding a direct message", async function () {
+      const { messageStorage, client, otherAccount } =
+        await deployMessageStorageFixture();
+      await messageStorage.write.addWriter([otherAccount.account.address]);
+      await client.storeMessage("Public");
+      await client.storeDirectMessage(
+        "Private",
+        privateKeyToAccount(generatePrivateKey()).publicKey
+      );
+
+      const output: string[] = [];
+      const log = console.log;
+      console.log = (line: string) => output.push(line);
+      try {
+        await hre.run("messages:list", { contract: messageStorage.address });
+        await hre.run("messages:list", {
+          contract: messageStorage.address,
+          json: true,
+        });
+      } finally {
+        console.log = log;
+      }
+
+      // One line per entry (the direct message takes two), then the JSON
+      const [text, ...parts] = output.slice(0, 3);
+      expect(text).to.match(/^#1 \[0\] \S+ Public$/);
+      parts.forEach((line) =>
+        expect(line).to.match(/^#\d \[\d\] \S+ \(direct message part\)$/)
+      );
+      const printed = JSON.parse(output.slice(3).join("\n"));
+      expect(printed.map((m: MessageJson) => [m.kind, m.text])).to.deep.equal([
+        ["text", "Public"],
+        ["direct", ""],
+        ["direct", ""],
+      ]);
+    });
+
+    it("Should watch for new messages", async function () {
+      const { messageStorage, client, otherAccount } =
+        await deployMessageStorageFixture();
+      await messageStorage.write.addWriter([otherAccount.account.address]);
+      await client.storeMessage("Before the watch");
+      const publicClient = await hre.viem.getPublicClient();
+
+      const watching = hre.run("messages:watch", {
+        contract: messageStorage.address,
+        fromBlock: Number(await publicClient.getBlockNumber()) + 1,
+        limit: 2,
+        pollingInterval: 20,
+      });
+      await client.storeMessage("First while watching");
+      await client.storeMessages(["Second while watching", "Not printed"]);
+
+      const seen = await watching;
+      expect(seen.map((m: StoredMessage) => m.text)).to.deep.equal([
+        "First while watching",
+        "Second while watching",
+      ]);
+      expect(seen.map((m: StoredMessage) => m.index)).to.deep.equal([1, 2]);
+    });
+
+    it("Should read the address from the deployment file", async function () {
+      await expect(hre.run("messages:list", {})).to.be.rejectedWith(
+        "No deployment found for network hardhat"
+      );
+    });
+  });
+
+  describe("messages on a version 1 board", function () {
+    let deploymentsDir: string;
+
+    beforeEach(function () {
+      deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    // Record an original board the way the committed manifests do
+    async function deployLegacyBoard() {
+      const board = await hre.viem.deployContract("MessageStorageV1");
+      writeDeployment(
+        {
+          version: 2,
+          network: "hardhat",
+          chainId: 31337,
+          contract: "MessageStorage",
+          abiVersion: 1,
+          address: board.address,
+          deployer: null,
+          transactionHash: null,
+          blockNumber: null,
+          bytecodeHash: null,
+          abiHash: null,
+          compiler: { name: "solc", version: "0.8.20", solcVersion: "0.8.20" },
+          constructorArgs: {},
+          deployedAt: null,
+        },
+        deploymentsDir
+      );
+      return board;
+    }
+
+    it("Should post and list through the original ABI", async function () {
+      await deployLegacyBoard();
+
+      const posted = await hre.run("messages:post", {
+        text: "Posted to a v1 board",
+        deploymentsDir,
+      });
+      expect(posted).to.include({ index: 0, text: "Posted to a v1 board" });
+      await hre.run("messages:post", { text: "Second", deploymentsDir });
+
+      const messages = await hre.run("messages:list", { deploymentsDir });
+      expect(messages.map((m: StoredMessage) => m.text)).to.deep.equal([
+        "Posted to a v1 board",
+        "Second",
+      ]);
+      expect(messages[1]).to.include({ index: 1 });
+    });
+
+    it("Should watch for new messages", async function () {
+      const board = await deployLegacyBoard();
+      const publicClient = await hre.viem.getPublicClient();
+
+      const watching = hre.run("messages:watch", {
+        fromBlock: Number(await publicClient.getBlockNumber()) + 1,
+        limit: 1,
+        pollingInterval: 20,
+        deploymentsDir,
+      });
+      await board.write.storeMessage([
+        stringToHex("Watched on a v1 board".padEnd(60)),
+      ]);
+
+      const seen = await watching;
+      expect(seen.map((m: StoredMessage) => m.text)).to.deep.equal([
+        "Watched on a v1 board",
+      ]);
+    });
+
+    it("Should refuse relayed messages and tasks without a v1 path", async function () {
+      await deployLegacyBoard();
+
+      await expect(
+        hre.run("messages:post", {
+          text: "Relayed",
+          relayer: "http://127.0.0.1:1",
+          deploymentsDir,
+        })
+      ).to.be.rejectedWith("Boards with ABI version 1 don't take relayed");
+      await expect(
+        getMessageStorageClient(hre, undefined, deploymentsDir)
+      ).to.be.rejectedWith(
+        "The board on hardhat runs ABI version 1, which only the messages tasks support"
+      );
+    });
+  });
+
+  describe("storage:inspect", function () {
+    it("Should fill the ring and find storage consistent", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+
+      const report = await hre.run("storage:inspect", {
+        contract: messageStorage.address,
+        fill: MAX_MESSAGES + 1,
+      });
+
+      expect(report.ok).to.equal(true);
+      expect(report.currentIndex).to.equal(1);
+      expect(report.entries).to.have.lengthOf(MAX_MESSAGES);
+      expect(
+        decodeMessage(report.entries[0].raw.message).startsWith(
+          `Message #${MAX_MESSAGES} `
+        )
+      ).to.equal(true);
+    });
+
+    it("Should fail on a mismatch", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+      const testClient = await hre.viem.getTestClient();
+      await hre.run("storage:inspect", {
+        contract: messageStorage.address,
+        fill: 1,
+      });
+
+      await testClient.setStorageAt({
+        address: messageStorage.address,
+        index: numberToHex(entrySlot(0) + 2n, { size: 32 }),
+        value: `0x${"ff".repeat(32)}`,
+      });
+
+      await expect(
+        hre.run("storage:inspect", {
+          contract: messageStorage.address,
+          index: 0,
+        })
+      ).to.be.rejectedWith("Storage does not match getMessage at 1 entry: 0");
+    });
+  });
+
+  describe("deploy:messages", function () {
+    let deploymentsDir: string;
+
+    beforeEach(function () {
+      deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    it("Should deploy a board and record it", async function () {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+
+      const record = await hre.run("deploy:messages", {
+        capacity: 8,
+        maxMessageSize: 100,
+        deploymentsDir,
+      });
+
+      const { abi, bytecode } = await hre.artifacts.readArtifact(
+        "MessageStorage"
+      );
+      expect(record).to.include({
+        version: 2,
+        network: "hardhat",
+        chainId: 31337,
+        contract: "MessageStorage",
+        abiVersion: 2,
+        deployer: getAddress(owner.account.address),
+        bytecodeHash: hashBytecode(bytecode as Hex),
+        abiHash: hashAbi(abi as Abi),
+      });
+      expect(record.compiler).to.deep.equal({
+        name: "solc",
+        version: "0.8.20",
+        solcVersion: "0.8.20",
+      });
+      expect(record.constructorArgs).to.deep.equal({
+        capacity: 8,
+        maxMessageSize: 100,
+      });
+      expect(loadDeployment("hardhat", deploymentsDir)).to.deep.equal(record);
+
+      const receipt = await publicClient.getTransactionReceipt({
+        hash: record.transactionHash,
+      });
+      expect(receipt.contractAddress).to.equal(record.address.toLowerCase());
+      expect(record.blockNumber).to.equal(Number(receipt.blockNumber));
+
+      const client = new MessageStorageClient({
+        address: readDeploymentAddress("hardhat", deploymentsDir),
+        publicClient,
+      });
+      expect(await client.getConfig()).to.deep.equal({
+        capacity: 8,
+        maxMessageSize: 100,
+      });
+    });
+
+    it("Should deploy the factory without constructor args", async function () {
+      const record = await hre.run("deploy:messages", {
+        contract: "MessageStorageFactory",
+        deploymentsDir,
+      });
+
+      expect(record.contract).to.equal("MessageStorageFactory");
+      expect(record.constructorArgs).to.deep.equal({});
+      const factory = await hre.viem.getContractAt(
+        "MessageStorageFactory",
+        record.address
+      );
+      expect(await factory.read.getBoardCount()).to.equal(0n);
+    });
+
+    it("Should only plan the deployment in a dry run", async function () {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+      const nonce = await publicClient.getTransactionCount({
+        address: owner.account.address,
+      });
+
+      const plan = await hre.run("deploy:messages", {
+        dryRun: true,
+        deploymentsDir,
+      });
+
+      expect(plan).to.include({ target: "evm", contract: "MessageStorage" });
+      expect(plan.estimatedGas).to.be.greaterThan(0);
+      expect(fs.readdirSync(deploymentsDir)).to.deep.equal([]);
+      expect(
+        await publicClient.getTransactionCount({
+          address: owner.account.address,
+        })
+      ).to.equal(nonce);
+
+      // The predicted address is where the real deployment lands
+      const record = await hre.run("deploy:messages", { deploymentsDir });
+      expect(record.address).to.equal(plan.predictedAddress);
+    });
+
+    it("Should reject unknown contracts and invalid board shapes", async function () {
+      await expect(
+        hre.run("deploy:messages", { contract: "Other", deploymentsDir })
+      ).to.be.rejectedWith("Invalid contract: Other");
+      await expect(
+        hre.run("deploy:messages", {
+          capacity: 0,
+          dryRun: true,
+          deploymentsDir,
+        })
+      ).to.be.rejectedWith("Capacity out of range");
+    });
+  });
+
+  describe("upgrade:messages", function () {
+    let deploymentsDir: string;
+
+    beforeEach(function () {
+      deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    async function deployProxiedBoard() {
+      const manifest = await hre.run("deploy:messages", {
+        capacity: 4,
+        maxMessageSize: 60,
+        proxy: true,
+        deploymentsDir,
+      });
+      const client = new MessageStorageClient({
+        address: manifest.address,
+        publicClient: await hre.viem.getPublicClient(),
+        walletClient: (await hre.viem.getWalletClients())[0],
+      });
+      return { manifest, client };
+    }
+
+    it("Should deploy a board behind a proxy", async function () {
+      const { manifest, client } = await deployProxiedBoard();
+
+      expect(manifest.proxy.implementation).to.not.equal(manifest.address);
+      expect(manifest.proxy.storageLayout.storage).to.have.lengthOf(7);
+      expect(manifest.proxy.headerFormat).to.equal(ENTRY_HEADER_FORMAT);
+      expect(loadDeployment("hardhat", deploymentsDir)).to.deep.equal(manifest);
+      expect(await client.getConfig()).to.deep.equal({
+        capacity: 4,
+        maxMessageSize: 60,
+      });
+      expect(await client.getOwner()).to.equal(manifest.deployer);
+    });
+
+    it("Should upgrade a filled buffer without losing it", async function () {
+      const { manifest, client } = await deployProxiedBoard();
+      await client.storeMessages(["a", "b", "c", "d", "e", "f"]);
+      const before = await client.getAllMessages();
+
+      const result = await hre.run("upgrade:messages", { deploymentsDir });
+
+      expect(result.previousImplementation).to.equal(
+        manifest.proxy.implementation
+      );
+      expect(result.implementation).to.not.equal(manifest.proxy.implementation);
+      const upgraded = loadDeployment("hardhat", deploymentsDir);
+      expect(upgraded.address).to.equal(manifest.address);
+      expect(upgraded.proxy?.implementation).to.equal(result.implementation);
+
+      expect(await client.getAllMessages()).to.deep.equal(before);
+      expect(await client.getCurrentIndex()).to.equal(2);
+      const inspection = await hre.run("storage:inspect", {
+        contract: manifest.address,
+      });
+      expect(inspection.ok).to.equal(true);
+    });
+
+    it("Should refuse an incompatible storage layout", async function () {
+      const { manifest } = await deployProxiedBoard();
+
+      await expect(
+        hre.run("upgrade:messages", {
+          contract: "MessageStorageFactory",
+          deploymentsDir,
+        })
+      ).to.be.rejectedWith(
+        "Refusing to upgrade to MessageStorageFactory, its storage layout is incompatible"
+      );
+      expect(loadDeployment("hardhat", deploymentsDir)).to.deep.equal(manifest);
+    });
+
+    it("Should refuse a different entry header format", async function () {
+      const { manifest } = await deployProxiedBoard();
+      // As if the board had been deployed from a build with another packing
+      const recorded = {
+        ...manifest,
+        proxy: { ...manifest.proxy, headerFormat: ENTRY_HEADER_FORMAT + 1 },
+      };
+      writeDeployment(recorded, deploymentsDir);
+
+      await expect(
+        hre.run("upgrade:messages", { dryRun: true, deploymentsDir })
+      ).to.be.rejectedWith(
+        `Refusing to upgrade to MessageStorage, it packs entry headers in format ${ENTRY_HEADER_FORMAT} but the board's entries use format ${
+          ENTRY_HEADER_FORMAT + 1
+        }`
+      );
+
+      // Manifests from before the format was recorded count as format 1
+      const { headerFormat, ...untracked } = manifest.proxy;
+      expect(headerFormat).to.equal(1);
+      writeDeployment({ ...manifest, proxy: untracked }, deploymentsDir);
+      const result = await hre.run("upgrade:messages", {
+        dryRun: true,
+        deploymentsDir,
+      });
+      expect(result.manifest.proxy.headerFormat).to.equal(undefined);
+    });
+
+    it("Should only check the layout in a dry run", async function () {
+      const { manifest } = await deployProxiedBoard();
+
+      const result = await hre.run("upgrade:messages", {
+        dryRun: true,
+        deploymentsDir,
+      });
+      expect(result.implementation).to.equal(undefined);
+      expect(loadDeployment("hardhat", deploymentsDir)).to.deep.equal(manifest);
+    });
+
+    it("Should reject boards that are not behind a proxy", async function () {
+      await hre.run("deploy:messages", { deploymentsDir });
+
+      await expect(
+        hre.run("upgrade:messages", { deploymentsDir })
+      ).to.be.rejectedWith("The deployment on hardhat is not behind a proxy");
+      await expect(
+        hre.run("deploy:messages", {
+          contract: "MessageStorageFactory",
+          proxy: true,
+          deploymentsDir,
+        })
+      ).to.be.rejectedWith(
+        "Only MessageStorage can be deployed behind a proxy"
+      );
+    });
+  });
+
+  describe("deployments:migrate", function () {
+    let deploymentsDir: string;
+
+    beforeEach(function () {
+      deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(deploymentsDir, { recursive: true, force: true });
+    });
+
+    function writeLegacy(network: string, contents: object) {
+      fs.writeFileSync(
+        path.join(deploymentsDir, `${network}.json`),
+        JSON.stringify(contents)
+      );
+    }
+
+    it("Should upgrade legacy files from the config and zkSync records", async function () {
+      writeLegacy("sepolia", {
+        network: "sepolia",
+        address: "0xbf48460cb3206a9fead363bc26a9664f9574f833",
+        deployer: "0xd7d4cfcb6d88dd8c19fbeec1b84ce3608be7d431",
+        timestamp: "2025-03-23T06:22:52.383Z",
+      });
+      // Older zkSync files left out the address
+      writeLegacy("zksync", {
+        network: "zksync",
+        deploymentTime: "2025-03-23T06:50:08.020Z",
+        deployer: "0x04c5697Ab48a0DEC80770d008C1657b7108A7e2b",
+      });
+
+      const migrated = await hre.run("deployments:migrate", {
+        deploymentsDir,
+        offline: true,
+      });
+      expect(migrated).to.have.lengthOf(2);
+
+      const sepolia = loadDeployment("sepolia", deploymentsDir);
+      expect(sepolia).to.include({
+        chainId: 11155111,
+        contract: "MessageStorage",
+        abiVersion: 1,
+        address: "0xbf48460cB3206A9fead363Bc26a9664f9574F833",
+        transactionHash: null,
+        blockNumber: null,
+        bytecodeHash: null,
+        deployedAt: "2025-03-23T06:22:52.383Z",
+      });
+      expect(sepolia.compiler.name).to.equal("solc");
+
+      const zksync = loadDeployment("zksync", deploymentsDir);
+      expect(zksync).to.include({
+        chainId: 324,
+        address: "0xb8224e470DAA3DFCA13481556F49fFf810948105",
+        transactionHash:
+          "0x46e077ab93a81bdbc6f6d5c9b9b2cfb65b085eac9a283ecf97c1347f260d52b8",
+      });
+      expect(zksync.compiler).to.deep.equal({
+        name: "zksolc",
+        version: "1.3.14",
+        solcVersion: "0.8.20",
+      });
+      expect(zksync.bytecodeHash).to.match(/^0x[0-9a-f]{64}$/);
+
+      // Current files are left alone
+      expect(
+        await hre.run("deployments:migrate", { deploymentsDir, offline: true })
+      ).to.deep.equal([]);
+    });
+
+    it("Should record the ABI version of version 1 manifests", async function () {
+      const v1 = {
+        version: 1,
+        network: "localhost",
+        chainId: 31337,
+        contract: "MessageStorage",
+        address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        deployer: null,
+        transactionHash: null,
+        blockNumber: null,
+        bytecodeHash: null,
+        abiHash: null,
+        compiler: { name: "solc", version: "0.8.20", solcVersion: "0.8.20" },
+        constructorArgs: { capacity: 16, maxMessageSize: 60 },
+        deployedAt: null,
+      };
+      writeLegacy("localhost", v1);
+      // Migrated from a file that predates manifests
+      writeLegacy("mantle", { ...v1, network: "mantle", constructorArgs: {} });
+
+      await hre.run("deployments:migrate", { deploymentsDir, offline: true });
+
+      expect(loadDeployment("localhost", deploymentsDir)).to.deep.equal({
+        ...v1,
+        version: 2,
+        abiVersion: 2,
+      });
+      expect(loadDeployment("mantle", deploymentsDir)).to.include({
+        version: 2,
+        abiVersion: 1,
+      });
+    });
+
+    it("Should find the deployment transaction on chain", async function () {
+      const [owner] = await hre.viem.getWalletClients();
+      const publicClient = await hre.viem.getPublicClient();
+      const { contract, deploymentTransaction } =
+        await hre.viem.sendDeploymentTransaction("MessageStorage", [
+          BigInt(MAX_MESSAGES),
+          BigInt(MAX_MESSAGE_SIZE_BYTES),
+        ]);
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: deploymentTransaction.hash,
+      });
+      // Real blocks, since hardhat_mine keeps no state for the blocks it skips
+      for (let i = 0; i < 10; i++) {
+        await hre.network.provider.send("evm_mine");
+      }
+
+      writeLegacy("hardhat", {
+        network: "hardhat",
+        address: contract.address.toLowerCase(),
+        deployer: owner.account.address,
+        timestamp: new Date().toISOString(),
+      });
+      await hre.run("deployments:migrate", { deploymentsDir });
+
+      expect(loadDeployment("hardhat", deploymentsDir)).to.include({
+        chainId: 31337,
+        address: getAddress(contract.address),
+        transactionHash: deploymentTransaction.hash,
+        blockNumber: Number(receipt.blockNumber),
+      });
+    });
+
+    it("Should reject files without an address", async function () {
+      writeLegacy("mantle", {
+        network: "mantle",
+        deployer: "0x04c5697Ab48a0DEC80770d008C1657b7108A7e2b",
+      });
+
+      await expect(
+        hre.run("deployments:migrate", { deploymentsDir, offline: true })
+      ).to.be.rejectedWith("No contract address recorded for network mantle");
+    });
+  });
+
+  describe("mirror:start", function () {
+    // The first Hardhat account, which owns boards on both chains
+    const ownerKey =
+      "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+    let targetNode: LocalNode;
+    let tmpDir: string;
+
+    before(async function () {
+      targetNode = await startLocalNode(31403);
+      hre.config.networks.mirrorTarget = {
+        ...(hre.config.networks.sepolia as HttpNetworkConfig),
+        url: targetNode.url,
+        chainId: targetNode.chainId,
+        accounts: [ownerKey],
+      };
+    });
+
+    after(async function () {
+      delete hre.config.networks.mirrorTarget;
+      await targetNode.server.close();
+    });
+
+    beforeEach(function () {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "mirror-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("Should mirror to a target network once and save progress", async function () {
+      const { messageStorage, owner } = await deployMessageStorageFixture();
+      const source = new MessageStorageClient({
+        address: messageStorage.address,
+        publicClient: await hre.viem.getPublicClient(),
+        walletClient: owner,
+      });
+      await source.storeMessages(["Across chains", "And back"]);
+      const target = await targetNode.deployBoard();
+      const args = {
+        contract: messageStorage.address,
+        targets: `mirrorTarget:${target.address}`,
+        progress: path.join(tmpDir, "progress.json"),
+        confirmations: 0,
+        once: true,
+      };
+
+      const result = await hre.run("mirror:start", args);
+      expect(result.failures).to.deep.equal([]);
+      expect(result.outcomes.map((o: MirrorOutcome) => o.status)).to.deep.equal(
+        ["mirrored", "mirrored"]
+      );
+      expect((await target.getAllMessages()).map((m) => m.text)).to.deep.equal([
+        "Across chains",
+        "And back",
+      ]);
+
+      const progress = JSON.parse(fs.readFileSync(args.progress, "utf8"));
+      expect(progress.source.address).to.equal(messageStorage.address);
+      expect((await hre.run("mirror:start", args)).outcomes).to.deep.equal([]);
+    });
+
+    it("Should reject target networks without a JSON-RPC account", async function () {
+      const { messageStorage } = await deployMessageStorageFixture();
+
+      await expect(
+        hre.run("mirror:start", {
+          contract: messageStorage.address,
+          targets: `hardhat:${messageStorage.address}`,
+          once: true,
+        })
+      ).to.be.rejectedWith("Network hardhat is not a JSON-RPC network");
+    });
+  });
+
+  describe("gas:benchmark", function () {
+    let tmpDir: string;
+
+    beforeEach(function () {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-benchmark-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("Should match the committed baseline and write both reports", async function () {
+      const report = await hre.run("gas:benchmark", { out: tmpDir });
+
+      expect(
+        report.cases.map((c: { name: string }) => c.name)
+      ).to.include.members([
+        "storeMessage (cold)",
+        "storeMessage (warm)",
+        "storeMessage (overwrite)",
+        "getAllMessages",
+      ]);
+      expect(
+        JSON.parse(fs.readFileSync(path.join(tmpDir, "gas.json"), "utf8"))
+      ).to.deep.equal(report);
+      expect(fs.readFileSync(path.join(tmpDir, "gas.md"), "utf8")).to.contain(
+        "| storeMessage (overwrite) |"
+      );
+    });
+
+    it("Should fail when gas rises past the tolerance", async function () {
+      // A baseline 5% cheaper than reality for a single case
+      const baseline = readGasReport(
+        path.join(hre.config.paths.root, "benchmarks/gas-baseline.json")
+      )!;
+      const [first, ...rest] = baseline.cases;
+      const cheaper = { ...first, gas: Math.round(first.gas / 1.05) };
+      const baselinePath = path.join(tmpDir, "baseline.json");
+      writeGasReport(baselinePath, { ...baseline, cases: [cheaper, ...rest] });
+
+      await expect(
+        hre.run("gas:benchmark", { baseline: baselinePath, out: tmpDir })
+      ).to.be.rejectedWith(`Gas regression above 2% in: ${first.name}`);
+      expect(fs.readFileSync(path.join(tmpDir, "gas.md"), "utf8")).to.contain(
+        "**regressed**"
+      );
+
+      // A looser tolerance lets the same run pass
+      await hre.run("gas:benchmark", {
+        baseline: baselinePath,
+        out: tmpDir,
+        tolerance: 10,
+      });
+    });
+
+    it("Should create a missing baseline only when asked", async function () {
+      const baselinePath = path.join(tmpDir, "new-baseline.json");
+
+      await expect(
+        hre.run("gas:benchmark", { baseline: baselinePath, out: tmpDir })
+      ).to.be.rejectedWith("No gas baseline at");
+
+      const report = await hre.run("gas:benchmark", {
+        baseline: baselinePath,
+        out: tmpDir,
+        updateBaseline: true,
+      });
+      expect(readGasReport(baselinePath)).to.deep.equal(report);
+    });
+  });
+
+  describe("gas:compare", function () {
+    let tmpDir: string;
+
+    beforeEach(function () {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-compare-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("Should measure every backend with the same cases", async function () {
+      const report = await hre.run("gas:compare", { out: tmpDir });
+      const [reference, ...others] = report.backends;
+      const names = (cases: { name: string }[]) => cases.map((c) => c.name);
+
+      expect(
+        report.backends.map((b: { contract: string }) => b.contract)
+      ).to.deep.equal(STORAGE_BACKENDS.map((b) => b.contract));
+      // MessageStorage's cases are the ones gas:benchmark checks
+      const baseline = readGasReport(
+        path.join(hre.config.paths.root, "benchmarks/gas-baseline.json")
+      )!;
+      expect(names(reference.cases)).to.deep.equal(names(baseline.cases));
+      for (const backend of others) {
+        expect(backend.deployment).to.be.greaterThan(0);
+        expect(names(reference.cases)).to.include.members(names(backend.cases));
+      }
+      // The event-log backend has no on-chain reads
+      expect(names(others[others.length - 1].cases)).to.not.include(
+        "getAllMessages"
+      );
+
+      expect(
+        JSON.parse(fs.readFileSync(path.join(tmpDir, "backends.json"), "utf8"))
+      ).to.deep.equal(report);
+      const markdown = fs.readFileSync(
+        path.join(tmpDir, "backends.md"),
+        "utf8"
+      );
+      expect(markdown).to.contain(
+        "| Case | MessageStorage | MessageStorageAssembly | MessageStorageSSTORE2 | MessageStorageEventLog |"
+      );
+      expect(markdown).to.match(/\| getAllMessages \| \d+ \| .+ \| - \|/);
+    });
+  });
+});
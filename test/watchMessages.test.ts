@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  createPublicClient,
+  custom,
+  getAddress,
+  type EIP1193Parameters,
+  type PublicClient,
+} from "viem";
+import { hardhat } from "viem/chains";
+import {
+  encodeMessage,
+  MessageStorageClient,
+  type WatchedMessage,
+  type WatchMessagesOptions,
+} from "../src";
+
+describe("watchMessages", function () {
+  const unwatches: (() => void)[] = [];
+
+  afterEach(async function () {
+    unwatches.splice(0).forEach((unwatch) => unwatch());
+    const testClient = await hre.viem.getTestClient();
+    await testClient.setAutomine(true);
+  });
+
+  // A small board, so batches wrap within one transaction
+  async function deployWatchFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const testClient = await hre.viem.getTestClient();
+
+    const messageStorage = await hre.viem.deployContract("MessageStorage", [
+      4n,
+      60n,
+    ]);
+    const client = new MessageStorageClient({
+      address: messageStorage.address,
+      publicClient,
+      walletClient: owner,
+    });
+
+    return { messageStorage, client, owner, publicClient, testClient };
+  }
+
+  // Start watching and collect every delivered message and error
+  function watch(
+    client: MessageStorageClient,
+    options: Omit<WatchMessagesOptions, "onMessage" | "onError"> = {}
+  ) {
+    const messages: WatchedMessage[] = [];
+    const errors: unknown[] = [];
+    unwatches.push(
+      client.watchMessages({
+        pollingInterval: 10,
+        ...options,
+        onMessage: (message) => messages.push(message),
+        onError: (error) => errors.push(error),
+      })
+    );
+    return { messages, errors };
+  }
+
+  // A client whose transport fails every request while isDown() is true
+  function flakyClient(client: MessageStorageClient, isDown: () => boolean) {
+    const request = async ({ method, params }: EIP1193Parameters) => {
+      if (isDown()) {
+        throw new Error("Connection dropped");
+      }
+      return hre.network.provider.request({
+        method,
+        params: params as unknown[] | undefined,
+      });
+    };
+
+    return new MessageStorageClient({
+      address: client.address,
+      publicClient: createPublicClient({
+        chain: hardhat,
+        // Always ask the node for the latest block
+        cacheTime: 0,
+        transport: custom({ request }, { retryCount: 0 }),
+      }) as PublicClient,
+    });
+  }
+
+  async function waitFor(
+    condition: () => boolean | Promise<boolean>,
+    timeout = 5000
+  ) {
+    const deadline = Date.now() + timeout;
+    while (!(await condition())) {
+      if (Date.now() > deadline) {
+        throw new Error("Timed out waiting for messages");
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  // Give the watcher several more polls to deliver anything unexpected
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+  it("Should replay the buffer in order before new messages", async function () {
+    const { client } = await deployWatchFixture();
+    // Six messages on a four-entry board: the buffer holds the last four
+    await client.storeMessages(["1", "2", "3", "4", "5", "6"]);
+
+    const { messages } = watch(client);
+    await waitFor(() => messages.length === 4);
+    await client.storeMessage("7");
+    await waitFor(() => messages.length === 5);
+    await settle();
+
+    expect(messages.map((m) => [m.source, m.index, m.text])).to.deep.equal([
+      ["buffer", 2, "3"],
+      ["buffer", 3, "4"],
+      ["buffer", 0, "5"],
+      ["buffer", 1, "6"],
+      ["event", 2, "7"],
+    ]);
+  });
+
+  it("Should only stream new messages without replay", async function () {
+    const { client, owner } = await deployWatchFixture();
+    await client.storeMessage("Old");
+
+    const { messages } = watch(client, { replay: false });
+    await settle();
+    const { hash, receipt } = await client.storeMessage("New");
+    await waitFor(() => messages.length === 1);
+
+    expect(messages[0]).to.deep.include({
+      source: "event",
+      index: 1,
+      text: "New",
+      author: getAddress(owner.account.address),
+      blockNumber: Number(receipt.blockNumber),
+      blockHash: receipt.blockHash,
+      transactionHash: hash,
+    });
+  });
+
+  it("Should stream every message of a block in log order", async function () {
+    const { messageStorage, client, testClient, publicClient } =
+      await deployWatchFixture();
+    const { messages } = watch(client, { replay: false });
+    await settle();
+
+    // Two transactions in one block, the second writing index 0 twice.
+    // Without automine Hardhat doesn't estimate gas, and two transactions
+    // at the block gas limit wouldn't share a block
+    await testClient.setAutomine(false);
+    const encode = (text: string) => encodeMessage(text, 60);
+    await messageStorage.write.storeMessage([encode("a")], { gas: 500000n });
+    await messageStorage.write.storeMessages(
+      [["b", "c", "d", "e"].map(encode)],
+      {
+        gas: 2000000n,
+      }
+    );
+    await testClient.mine({ blocks: 1 });
+
+    await waitFor(() => messages.length === 5);
+    await settle();
+    const block = Number(await publicClient.getBlockNumber());
+    expect(
+      messages.map((m) => [
+        m.index,
+        m.text,
+        m.source === "event" && m.blockNumber,
+      ])
+    ).to.deep.equal([
+      [0, "a", block],
+      [1, "b", block],
+      [2, "c", block],
+      [3, "d", block],
+      [0, "e", block],
+    ]);
+  });
+
+  it("Should not repeat events when blocks are scanned again", async function () {
+    const { client, testClient } = await deployWatchFixture();
+    // Every poll re-scans the last ten blocks
+    const { messages } = watch(client, { replay: false, overlapBlocks: 10 });
+    await settle();
+
+    for (let i = 0; i < 3; i++) {
+      await client.storeMessage(`Message ${i}`);
+      await testClient.mine({ blocks: 2 });
+      await settle();
+    }
+
+    expect(messages.map((m) => m.text)).to.deep.equal([
+      "Message 0",
+      "Message 1",
+      "Message 2",
+    ]);
+  });
+
+  it("Should recover from a dropped connection without losing events", async function () {
+    const { client, testClient } = await deployWatchFixture();
+    let connected = true;
+    const flaky = flakyClient(client, () => !connected);
+
+    await client.storeMessage("Before");
+    const { messages, errors } = watch(flaky);
+    await waitFor(() => messages.length === 1);
+
+    connected = false;
+    await client.storeMessage("While down 1");
+    await testClient.mine({ blocks: 3 });
+    await client.storeMessages(["While down 2", "While down 3"]);
+    await waitFor(() => errors.length >= 2);
+    expect(messages).to.have.lengthOf(1);
+
+    connected = true;
+    await waitFor(() => messages.length === 4);
+    await client.storeMessage("After");
+    await waitFor(() => messages.length === 5);
+    await settle();
+
+    expect(messages.map((m) => [m.source, m.text])).to.deep.equal([
+      ["buffer", "Before"],
+      ["event", "While down 1"],
+      ["event", "While down 2"],
+      ["event", "While down 3"],
+      ["event", "After"],
+    ]);
+    expect(String(errors[0])).to.include("Connection dropped");
+  });
+
+  it("Should retry the replay if the first read fails", async function () {
+    const { client } = await deployWatchFixture();
+    await client.storeMessage("Buffered");
+
+    let failures = 2;
+    const flaky = flakyClient(client, () => failures-- > 0);
+
+    const { messages, errors } = watch(flaky);
+    await waitFor(() => messages.length === 1);
+    expect(errors).to.have.lengthOf(2);
+    expect(messages[0]).to.deep.include({ source: "buffer", text: "Buffered" });
+  });
+
+  it("Should stop delivering after unwatching", async function () {
+    const { client } = await deployWatchFixture();
+    const messages: WatchedMessage[] = [];
+    const unwatch = client.watchMessages({
+      pollingInterval: 10,
+      onMessage: (message) => messages.push(message),
+    });
+
+    await client.storeMessage("Seen");
+    await waitFor(() => messages.length === 1);
+    unwatch();
+    await client.storeMessage("Not seen");
+    await settle();
+
+    expect(messages.map((m) => m.text)).to.deep.equal(["Seen"]);
+  });
+});